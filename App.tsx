@@ -1,23 +1,40 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { initializeMistral, sendMessageToMistral } from './services/mistralService';
-import { ConnectionStatus, PCBuild, ComponentPart, DeviceType, Language } from './types';
+import { initializeMistral, sendChatRequest, streamMessageFromMistral, streamStructuredAnalysis, translateAnalysis } from './services/mistralService';
+import { ConnectionStatus, PCBuild, DeviceType, Language, Message, RuleReport, DesktopSlot, SlotStatus, SuitabilityScore, FixRanking, FixSuggestion, GeneratedBuild, LaptopFilters, LaptopSortKey, CompareItem, SavedBuild, StructuredAnalysis, FollowUpRequest, AnalysisTranslation } from './types';
 import { ChatMessage } from './components/ChatMessage';
-import { ShieldCheck, Database, Zap, Cpu, Monitor, HardDrive, MemoryStick, Box, Check, RotateCcw, PlayCircle, BarChart3, AlertCircle, Laptop, PcCase, Battery, Globe, Search } from 'lucide-react';
-import { APP_TITLE, APP_SUBTITLE, COMPONENT_DB, UI_TEXT } from './constants';
-
-// Helper for Comparison View
-const ActivityRow = ({ label, value, highlight = false }: { label: string, value: string, highlight?: boolean }) => (
-  <div className="flex justify-between items-start gap-4">
-    <span className="text-[10px] text-slate-500 uppercase tracking-wider font-bold shrink-0 mt-0.5">{label}</span>
-    <span className={`text-xs text-right ${highlight ? 'text-emerald-400 font-bold' : 'text-slate-300'}`}>{value}</span>
-  </div>
-);
+import { AnalysisCard } from './components/AnalysisCard';
+import { FollowUpChat } from './components/FollowUpChat';
+import { RuleFindings, SlotBadge } from './components/RuleFindings';
+import { ScoreBreakdown } from './components/ScoreBreakdown';
+import { ProgramFit } from './components/ProgramFit';
+import { FixSuggestions } from './components/FixSuggestions';
+import { BuildGenerator } from './components/BuildGenerator';
+import { LaptopFilterPanel } from './components/LaptopFilterPanel';
+import { CompareTable } from './components/CompareTable';
+import { CompareVerdict } from './components/CompareVerdict';
+import { SavedBuilds } from './components/SavedBuilds';
+import { ExportFormat, ReportExport } from './components/ReportExport';
+import { checkCandidate, evaluateBuild, getSlotStatus, WorkloadId } from './utils/ruleEngine';
+import { computeSuitability, profileFromLaptop, scoreProfile } from './utils/scoring';
+import { isBuildValid, suggestFixes } from './utils/buildSolver';
+import { generateBuilds } from './utils/buildGenerator';
+import { compareItems, desktopCompareItem, laptopCompareItem, MAX_COMPARE } from './utils/comparison';
+import { collectFacets, DEFAULT_LAPTOP_FILTERS, DEFAULT_MAX_PRICE_MMK, filterLaptops, sortLaptops, valuePerMmk } from './utils/laptopFilter';
+import { encodeShareLink, parseShareLink, ShareProblem } from './utils/shareLink';
+import { parseAnalysisScore } from './utils/analysisParser';
+import { previewStructuredAnalysis, structuredToMarkdown } from './utils/analysisSchema';
+import { buildAnalysisRequest, buildComparisonRequest, buildFollowUpRequest } from './utils/chatRequest';
+import { buildAnalysisReport, downloadReport, reportToHtml, reportToJson, reportToMarkdown } from './utils/reportExport';
+import { createTranslator, detectLanguage } from './utils/i18n';
+import { isGamingCapable } from './utils/laptopSpec';
+import { checkBuildPrograms, checkPrograms } from './utils/programRequirements';
+import { compareItemsFromRefs, createSavedBuild, defaultSavedName, deleteSavedBuild, duplicateSavedBuild, fromBuildRef, loadSavedBuilds, loadWorkspace, renameSavedBuild, storeSavedBuilds, storeWorkspace, toBuildRef } from './utils/savedBuilds';
+import { ShieldCheck, Database, Zap, Cpu, Monitor, HardDrive, MemoryStick, Box, Check, RotateCcw, PlayCircle, X, BarChart3, AlertCircle, Laptop, PcCase, Battery, Globe, Search, Bookmark, Link2 } from 'lucide-react';
+import { APP_TITLE, APP_SUBTITLE, COMPONENT_DB } from './constants';
+
+// Dropdown ordering: compatible parts first, incompatible last
+const STATUS_RANK: Record<SlotStatus, number> = { ok: 0, unchecked: 0, warning: 1, incompatible: 2 };
 
-const isGamingCapable = (laptop: ComponentPart) => {
-  const specs = (laptop.specs || "").toLowerCase();
-  const name = laptop.name.toLowerCase();
-  return specs.includes('rtx') || specs.includes('gtx') || specs.includes('radeon rx') || name.includes('gaming');
-};
 
 // Helper Icons for the Dashboard
 const CheckCircleIcon = () => (
@@ -40,9 +57,21 @@ const ErrorIcon = () => (
 
 
 const App: React.FC = () => {
-  const [deviceType, setDeviceType] = useState<DeviceType>('Desktop');
+  // Workspace from before the last refresh; parts that left the database are dropped
+  const [restored] = useState(() => {
+    const workspace = loadWorkspace();
+    if (!workspace) return null;
+    const { build, missing } = fromBuildRef(workspace.build);
+    return { ...workspace, build, analysis: missing.length > 0 ? null : workspace.analysis };
+  });
+
+  const [deviceType, setDeviceType] = useState<DeviceType>(restored?.build.type ?? 'Desktop');
   const [language, setLanguage] = useState<Language>('en');
-  const [build, setBuild] = useState<PCBuild>({
+  // Burmese only: write prices and counts as ၁,၂၃၄ instead of 1,234
+  const [myanmarNumerals, setMyanmarNumerals] = useState(false);
+  const i18n = React.useMemo(() => createTranslator(language, { myanmarNumerals }), [language, myanmarNumerals]);
+  const { t } = i18n;
+  const [build, setBuild] = useState<PCBuild>(restored?.build ?? {
     type: 'Desktop',
     cpu: null,
     gpu: null,
@@ -54,51 +83,145 @@ const App: React.FC = () => {
     laptop: null
   });
 
-  const [analysis, setAnalysis] = useState<string | null>(null);
-  const [score, setScore] = useState<number>(0);
+  const [analysis, setAnalysis] = useState<string | null>(restored?.analysis ?? null);
+  const [suitability, setSuitability] = useState<SuitabilityScore | null>(() => restored?.analysis ? computeSuitability(restored.build) : null);
+  const score = suitability?.overall ?? 0;
+  // SCORE line echoed by the AI, picked out of the stream as soon as it appears
+  const [aiScore, setAiScore] = useState<number | null>(null);
+  // Validated JSON analysis; null when the reply came from the Markdown fallback or a restore
+  const [structuredAnalysis, setStructuredAnalysis] = useState<StructuredAnalysis | null>(null);
+  // The analysis in the other language, kept so the language toggle switches instantly
+  const [translation, setTranslation] = useState<AnalysisTranslation | null>(null);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const translateAbortRef = useRef<AbortController | null>(null);
+  // When the backend served the analysis from its response cache
+  const [analysisCachedAt, setAnalysisCachedAt] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const compareAbortRef = useRef<AbortController | null>(null);
+  const [ruleReport, setRuleReport] = useState<RuleReport | null>(() => restored?.analysis && restored.build.type === 'Desktop' ? evaluateBuild(restored.build) : null);
+  // Server-side thread of the current analysis, which follow-ups continue
+  const [analysisContext, setAnalysisContext] = useState<Pick<FollowUpRequest, 'analysisId' | 'language'> | null>(null);
+  const [followUps, setFollowUps] = useState<Message[]>([]);
+  const [isChatting, setIsChatting] = useState(false);
   const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.CONNECTING);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [laptopSearch, setLaptopSearch] = useState("");
+  // Problems found while opening a shared link (unknown ids, unreadable values)
+  const [shareProblems, setShareProblems] = useState<ShareProblem[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [fixRanking, setFixRanking] = useState<FixRanking>('price');
   const resultRef = useRef<HTMLDivElement>(null);
 
-  // Helper to parse price string to number
-  const parsePrice = (priceStr: string) => {
-    return parseInt(priceStr.replace(/[^0-9]/g, '')) || 0;
-  };
-
-  const [maxPrice, setMaxPrice] = useState<number>(3000000); // Default 30 Lakhs
-  const [compareList, setCompareList] = useState<ComponentPart[]>([]);
-  const [showCompare, setShowCompare] = useState(false);
+  const [compareList, setCompareList] = useState<CompareItem[]>(() => compareItemsFromRefs(restored?.compare ?? []));
+  const [compareVerdict, setCompareVerdict] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
 
   // New Navigation State
-  const [activeTab, setActiveTab] = useState<'desktop' | 'laptop' | 'budget' | 'compare'>('desktop');
-
-  // New Filter States
-  const [selectedMajor, setSelectedMajor] = useState<string>("");
-  const [programQuery, setProgramQuery] = useState<string>("");
-  const [wantGaming, setWantGaming] = useState<boolean>(false);
-
-  // Derive unique majors from laptop data
-  const uniqueMajors = React.useMemo(() => {
-    const laptops = COMPONENT_DB['Laptop'] || [];
-    const majors = new Set<string>();
-    laptops.forEach(l => {
-      if (l.major) {
-        l.major.split(',').forEach(m => majors.add(m.trim()));
-      }
+  const [activeTab, setActiveTab] = useState<'desktop' | 'laptop' | 'budget' | 'compare' | 'saved'>(restored?.build.type === 'Laptop' ? 'laptop' : 'desktop');
+
+  // Budget & Major filters
+  const [laptopFilters, setLaptopFilters] = useState<LaptopFilters>(restored?.filters ?? { ...DEFAULT_LAPTOP_FILTERS, maxPriceMMK: DEFAULT_MAX_PRICE_MMK });
+  const [laptopSort, setLaptopSort] = useState<LaptopSortKey>(restored?.sort ?? 'price');
+
+  // Named builds and laptop picks kept in localStorage
+  const [savedBuilds, setSavedBuilds] = useState<SavedBuild[]>(loadSavedBuilds);
+
+  useEffect(() => {
+    storeSavedBuilds(savedBuilds);
+  }, [savedBuilds]);
+
+  // Keep the workspace across refreshes; a streaming analysis is stored once it finishes
+  useEffect(() => {
+    if (isAnalyzing) return;
+    storeWorkspace({
+      build: toBuildRef({ ...build, type: deviceType }),
+      analysis,
+      compare: compareList.map(item => toBuildRef(item.build)),
+      filters: laptopFilters,
+      sort: laptopSort
     });
-    return Array.from(majors).sort();
+  }, [build, deviceType, analysis, isAnalyzing, compareList, laptopFilters, laptopSort]);
+
+  // Desktop build generator
+  const [generatorWorkloads, setGeneratorWorkloads] = useState<WorkloadId[]>([]);
+  const [generatedBuilds, setGeneratedBuilds] = useState<GeneratedBuild[] | null>(null);
+
+  // Results are only valid for the inputs they were generated from
+  useEffect(() => {
+    setGeneratedBuilds(null);
+  }, [laptopFilters.maxPriceMMK, laptopFilters.majors, laptopFilters.programs, generatorWorkloads]);
+
+  // Derive filter options (majors, brands, ranges...) from laptop data
+  const laptopFacets = React.useMemo(() => collectFacets(COMPONENT_DB['Laptop'] || []), []);
+
+  // Computed suitability per laptop, used for sorting and value per MMK
+  const laptopSuitability = React.useMemo(() => {
+    const scores: Record<string, number> = {};
+    (COMPONENT_DB['Laptop'] || []).forEach(l => {
+      scores[l.id] = scoreProfile(profileFromLaptop(l)).overall;
+    });
+    return scores;
   }, []);
 
-  const handleAddToCompare = (laptop: ComponentPart) => {
-    if (compareList.find(l => l.id === laptop.id)) {
-      setCompareList(prev => prev.filter(l => l.id !== laptop.id));
-    } else {
-      if (compareList.length >= 2) {
-        alert("You can only compare 2 laptops at a time.");
+  const filteredLaptops = React.useMemo(
+    () => sortLaptops(filterLaptops(COMPONENT_DB['Laptop'] || [], laptopFilters), laptopSort, laptopSuitability),
+    [laptopFilters, laptopSort, laptopSuitability]
+  );
+
+  const isInCompare = (key: string) => compareList.some(item => item.key === key);
+  const isCompareFull = compareList.length >= MAX_COMPARE;
+
+  // Any change to the list invalidates the AI verdict
+  const clearCompareVerdict = () => {
+    compareAbortRef.current?.abort();
+    compareAbortRef.current = null;
+    setIsComparing(false);
+    setCompareVerdict(null);
+  };
+
+  // Add or remove a laptop / desktop build; the add controls are disabled once the list is full
+  const handleToggleCompare = (item: CompareItem) => {
+    clearCompareVerdict();
+    if (isInCompare(item.key)) {
+      setCompareList(prev => prev.filter(c => c.key !== item.key));
+    } else if (!isCompareFull) {
+      setCompareList(prev => [...prev, item]);
+    }
+  };
+
+  const compareResult = React.useMemo(() => compareItems(compareList), [compareList]);
+
+  const handleCompareVerdict = async () => {
+    if (compareList.length < 2 || status !== ConnectionStatus.CONNECTED) return;
+
+    const request = buildComparisonRequest(compareList, laptopFilters.majors, language);
+
+    compareAbortRef.current?.abort();
+    const controller = new AbortController();
+    compareAbortRef.current = controller;
+    setIsComparing(true);
+    setCompareVerdict(null);
+
+    let responseText = "";
+    try {
+      for await (const delta of streamMessageFromMistral(request, controller.signal)) {
+        responseText += delta;
+        setCompareVerdict(responseText);
+      }
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        if (compareAbortRef.current === controller && responseText) {
+          setCompareVerdict(`${responseText}\n\n${t('comparison_cancelled')}`);
+        }
         return;
       }
-      setCompareList(prev => [...prev, laptop]);
+      setCompareVerdict(t('error_comparison'));
+    } finally {
+      if (compareAbortRef.current === controller) {
+        compareAbortRef.current = null;
+        setIsComparing(false);
+      }
     }
   };
 
@@ -117,15 +240,70 @@ const App: React.FC = () => {
     connect();
   }, []);
 
+  // Open a shared link on load, or when a link is pasted into an already open tab
+  useEffect(() => {
+    const openShareLink = () => {
+      const link = parseShareLink(window.location.hash);
+      if (!link) return;
+      // Drop the hash so a refresh restores the workspace rather than re-opening the link
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setShareProblems(link.problems);
+
+      if (link.filters) setLaptopFilters(link.filters);
+      if (link.sort) setLaptopSort(link.sort);
+      const shared = link.build;
+      if (shared) {
+        clearAnalysis();
+        setBuild(prev => shared.type === 'Laptop'
+          ? { ...prev, type: 'Laptop', laptop: shared.laptop }
+          : { ...shared, laptop: prev.laptop });
+        setDeviceType(shared.type);
+      }
+      if (shared || link.filters) {
+        setActiveTab(link.filters ? 'budget' : shared?.type === 'Laptop' ? 'laptop' : 'desktop');
+      }
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
+
   const toggleLanguage = () => {
     setLanguage(prev => prev === 'en' ? 'my' : 'en');
   };
 
+  const clearTranslation = () => {
+    translateAbortRef.current?.abort();
+    translateAbortRef.current = null;
+    setIsTranslating(false);
+    setTranslation(null);
+    setShowTranslation(false);
+  };
+
+  // Cancel any in-flight analysis and drop results that no longer match the build
+  const clearAnalysis = () => {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+    setIsAnalyzing(false);
+    clearTranslation();
+    setAnalysis(null);
+    setAiScore(null);
+    setStructuredAnalysis(null);
+    setAnalysisCachedAt(null);
+    setRuleReport(null);
+    setAnalysisContext(null);
+    setFollowUps([]);
+    setSuitability(null);
+  };
+
+  const handleCancelAnalysis = () => {
+    streamAbortRef.current?.abort();
+  };
+
   const handleDeviceToggle = (type: DeviceType) => {
     setDeviceType(type);
     setBuild(prev => ({ ...prev, type }));
-    setAnalysis(null);
-    setScore(0);
+    clearAnalysis();
   };
 
   const handleSelect = (category: keyof PCBuild, partId: string, dbKey: string) => {
@@ -133,8 +311,7 @@ const App: React.FC = () => {
 
     setBuild(prev => ({ ...prev, [category]: part }));
     // Reset analysis when build changes
-    setAnalysis(null);
-    setScore(0);
+    clearAnalysis();
   };
 
   const handleReset = () => {
@@ -149,97 +326,251 @@ const App: React.FC = () => {
       pcCase: null,
       laptop: null
     });
-    setAnalysis(null);
-    setScore(0);
+    clearAnalysis();
   };
 
   const handleAnalyze = async () => {
-    if (status !== ConnectionStatus.CONNECTED) return;
-
-    let prompt = "";
+    let computed: SuitabilityScore;
 
     if (deviceType === 'Desktop') {
       if (!build.cpu || !build.motherboard || !build.ram) {
-        alert("Please select at least a CPU, Motherboard, and RAM.");
+        alert(t('alert_select_desktop'));
         return;
       }
-      const buildSummary = Object.entries(build)
-        .filter(([key]) => key !== 'laptop' && key !== 'type')
-        .map(([key, part]) => {
-          const component = part as ComponentPart | null;
-          return `${key.toUpperCase()}: ${component ? component.name + " (" + component.specs + ")" : "Not Selected"}`;
-        })
-        .join('\n');
-      prompt = `Analyze this Desktop PC Build for a UIT Student:\n\n${buildSummary}\n\nCheck for physical compatibility and performance for: Visual Studio, Android Studio, Docker, Unity. Provide the Suitability Score first.`;
+      // Deterministic verdict first - shown even if the AI call fails
+      computed = computeSuitability(build);
+      setRuleReport(evaluateBuild(build));
+      setSuitability(computed);
     } else {
       if (!build.laptop) {
-        alert("Please select a Laptop model.");
+        alert(t('alert_select_laptop'));
         return;
       }
-      prompt = `Analyze this Laptop for a UIT Student:\n\nMODEL: ${build.laptop.name}\nSPECS: ${build.laptop.specs}\nBATTERY: ${build.laptop.battery || 'Unknown'}\n\nCheck for performance, battery life suitability, and portability for: Visual Studio, Android Studio, Docker, Unity. Provide the Suitability Score first.`;
+      computed = computeSuitability(build);
+      setSuitability(computed);
     }
+    if (status !== ConnectionStatus.CONNECTED) return;
 
-    let systemInstructionOverride;
-
-    if (language === 'my') {
-      prompt += "\n\nIMPORTANT: YOU MUST PROVIDE THE ENTIRE RESPONSE IN BURMESE (MYANMAR) LANGUAGE. Do not use English except for technical specifications (like CPU names, GB, etc). Explain the suitability score and issues in Burmese.";
+    // Part ids and computed facts only; the backend renders the prompt
+    const request = buildAnalysisRequest({ ...build, type: deviceType }, language, computed);
 
-      systemInstructionOverride = `
-ROLE:
-You are the "UIT Hardware Specialist," an expert system for the University of Information Technology in Myanmar.
-Your goal is to validate PC builds and Laptop choices for Students who need to run demanding software.
-You MUST reply in Burmese (Myanmar) language.
+    streamAbortRef.current?.abort();
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
 
-RESPONSE FORMAT (Markdown):
-Start with a strict metadata line: "SCORE: [0-100]" (Overall suitability).
+    setIsAnalyzing(true);
+    setAnalysis(null);
+    clearTranslation();
+    setAiScore(null);
+    setStructuredAnalysis(null);
+    setAnalysisCachedAt(null);
+    setAnalysisContext(null);
+    setFollowUps([]);
+
+    setTimeout(() => {
+      resultRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, 100);
+
+    let responseText = "";
+    try {
+      // Stream the JSON contract, rendering each field as it completes
+      let structured: StructuredAnalysis | null = null;
+      let analysisId: string | undefined;
+      let json = "";
+      for await (const update of streamStructuredAnalysis(request, controller.signal, setAnalysisCachedAt)) {
+        if (update.analysis !== undefined) {
+          structured = update.analysis;
+          analysisId = update.analysisId;
+          continue;
+        }
+        json = update.text;
+        responseText = previewStructuredAnalysis(json);
+        setAnalysis(responseText);
+
+        const streamedScore = parseAnalysisScore(responseText);
+        if (streamedScore !== null) setAiScore(streamedScore);
+      }
 
-Then provide:
-**✅ COMPATIBLE** (or ❌ INCOMPATIBLE / ⚠️ ISSUES)
-**Summary**: [1-2 sentences in Burmese]
+      // Validated by the backend (server/analysisSchema.js), after its repair retry
+      if (structured) {
+        setStructuredAnalysis(structured);
+        setAnalysis(structuredToMarkdown(structured));
+        setAiScore(structured.score);
+      } else if (!responseText) {
+        // Still invalid and nothing the preview could read: show the reply as received
+        if (!json.trim()) {
+          setAnalysis(t('error_analysis'));
+          return;
+        }
+        setAnalysis(json);
+      }
+      if (analysisId) setAnalysisContext({ analysisId, language });
+
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        // Build changed or user cancelled; keep any partial text only if this stream is still current
+        if (streamAbortRef.current === controller && responseText) {
+          setAnalysis(`${responseText}\n\n${t('analysis_cancelled')}`);
+        }
+        return;
+      }
+      setAnalysis(t('error_analysis'));
+    } finally {
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  };
 
-**Workload Suitability**:
-*   💻 **Coding & Compiling**: [Rating/Comment in Burmese]
-*   📱 **Mobile Emulation**: [Rating/Comment in Burmese]
-*   🎨 **Graphics & AI**: [Rating/Comment in Burmese]
+  const handleFollowUp = async (text: string) => {
+    if (!analysis || !analysisContext) return;
 
-**Expert Verdict**: Detailed advice in Burmese.
-`;
-    }
+    const question: Message = { id: `u-${Date.now()}`, role: 'user', text, timestamp: new Date() };
+    setFollowUps(prev => [...prev, question]);
+    setIsChatting(true);
 
-    setIsAnalyzing(true);
-    setAnalysis(null);
+    // The backend replays the analysis and earlier turns from its own copy of the thread
+    const request = buildFollowUpRequest(analysisContext.analysisId, text, analysisContext.language);
 
     try {
-      const responseText = await sendMessageToMistral(prompt, systemInstructionOverride);
+      const reply = await sendChatRequest(request);
+      setFollowUps(prev => [...prev, { id: `m-${Date.now()}`, role: 'model', text: reply, timestamp: new Date() }]);
+    } catch (error: any) {
+      setFollowUps(prev => [...prev, { id: `m-${Date.now()}`, role: 'model', text: t('error_message', { message: error.message }), timestamp: new Date() }]);
+    } finally {
+      setIsChatting(false);
+    }
+  };
 
-      const scoreMatch = responseText.match(/SCORE:\s*(\d+)/i);
-      if (scoreMatch) {
-        setScore(parseInt(scoreMatch[1], 10));
+  // Language the analysis was written in; restored and saved analyses are recognised by their script
+  const analysisLanguage: Language = analysisContext?.language ?? (analysis ? detectLanguage(analysis) : language);
+  const translationTarget: Language = analysisLanguage === 'en' ? 'my' : 'en';
+  const isShowingTranslation = showTranslation && translation !== null;
+  const shownAnalysis = isShowingTranslation ? translation.text : analysis;
+
+  // Translate the finished analysis once; later clicks only switch between the two versions
+  const handleShowLanguage = async (version: Language) => {
+    if (version === analysisLanguage) return setShowTranslation(false);
+    if (translation) return setShowTranslation(true);
+    if (!analysis || isAnalyzing || isTranslating) return;
+
+    const controller = new AbortController();
+    translateAbortRef.current = controller;
+    setIsTranslating(true);
+    try {
+      const reply = await translateAnalysis(analysis, translationTarget, controller.signal);
+      setTranslation({ language: translationTarget, text: reply.text, missingTerms: reply.missingTerms });
+      setShowTranslation(true);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') alert(t('alert_translate_failed'));
+    } finally {
+      if (translateAbortRef.current === controller) {
+        translateAbortRef.current = null;
+        setIsTranslating(false);
       }
+    }
+  };
+
+  // Live rule evaluation while the desktop build is edited
+  const liveReport = React.useMemo(() => evaluateBuild({ ...build, type: 'Desktop' }), [build]);
+  const hasPartConflicts = React.useMemo(() => !isBuildValid({ ...build, type: 'Desktop' }), [build]);
+  const fixSuggestions = React.useMemo(
+    () => hasPartConflicts ? suggestFixes(build, fixRanking) : [],
+    [build, fixRanking, hasPartConflicts]
+  );
 
-      setAnalysis(responseText);
+  const handleApplyFix = (suggestion: FixSuggestion) => {
+    setBuild(prev => ({ ...suggestion.build, type: prev.type, laptop: prev.laptop }));
+    clearAnalysis();
+  };
 
-      setTimeout(() => {
-        resultRef.current?.scrollIntoView({ behavior: 'smooth' });
-      }, 100);
+  const handleGenerateBuilds = () => {
+    setGeneratedBuilds(generateBuilds({
+      budgetMMK: laptopFilters.maxPriceMMK,
+      majors: laptopFilters.majors,
+      workloads: generatorWorkloads,
+      programs: laptopFilters.programs
+    }));
+  };
 
-    } catch (error) {
-      setAnalysis("Error analyzing build. Please try again.");
-    } finally {
-      setIsAnalyzing(false);
-    }
+  const handleUseGeneratedBuild = (generated: GeneratedBuild) => {
+    setBuild(prev => ({ ...generated.build, laptop: prev.laptop }));
+    setDeviceType('Desktop');
+    setActiveTab('desktop');
+    clearAnalysis();
   };
 
   const isDesktopEmpty = deviceType === 'Desktop' && !Object.values(build).some(part => part !== null && typeof part === 'object');
   const isLaptopEmpty = deviceType === 'Laptop' && !build.laptop;
+  const currentBuild: PCBuild = { ...build, type: deviceType };
+
+  // Budget & Major links carry the filters; other tabs share only the build
+  const canShare = activeTab === 'budget' || (deviceType === 'Desktop' ? !isDesktopEmpty : !isLaptopEmpty);
 
-  // Render battery indicator logic
-  const getBatteryColor = (batteryText: string | undefined) => {
-    if (!batteryText) return 'text-slate-500';
-    if (batteryText.includes('Excellent')) return 'text-green-400';
-    if (batteryText.includes('Good')) return 'text-cyan-400';
-    if (batteryText.includes('Poor')) return 'text-red-400';
-    return 'text-yellow-400';
+  const handleCopyLink = async () => {
+    const hash = encodeShareLink(currentBuild, activeTab === 'budget' ? laptopFilters : undefined, laptopSort);
+    const url = `${window.location.origin}${window.location.pathname}#${hash}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      // Clipboard access can be blocked (e.g. plain http); let the student copy it by hand
+      prompt(t('prompt_copy_link'), url);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!suitability) return;
+    // Export the version on screen
+    const report = buildAnalysisReport(currentBuild, language, suitability, ruleReport,
+      isAnalyzing ? null : shownAnalysis, isShowingTranslation ? null : structuredAnalysis);
+    const filename = `uit-report-${report.generatedAt.slice(0, 10)}`;
+
+    if (format === 'markdown') downloadReport(reportToMarkdown(report), `${filename}.md`, 'text/markdown');
+    else if (format === 'json') downloadReport(reportToJson(report), `${filename}.json`, 'application/json');
+    else if (format === 'html') downloadReport(reportToHtml(report), `${filename}.html`, 'text/html');
+    else {
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+        alert(t('alert_popup_blocked'));
+        return;
+      }
+      printWindow.document.write(reportToHtml(report));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+    }
+  };
+
+  const handleSaveBuild = (name: string) => {
+    // Attach the analysis only once it has finished streaming
+    const finished = !isAnalyzing && suitability !== null;
+    const entry = createSavedBuild(name, currentBuild, finished ? analysis : null, finished ? score : null);
+    setSavedBuilds(prev => [entry, ...prev]);
+  };
+
+  const handleRestoreBuild = (saved: SavedBuild) => {
+    const { build: restoredBuild, missing } = fromBuildRef(saved.build);
+    clearAnalysis();
+    // Restoring a laptop pick keeps the desktop parts, and vice versa
+    setBuild(prev => saved.build.type === 'Laptop'
+      ? { ...prev, type: 'Laptop', laptop: restoredBuild.laptop }
+      : { ...restoredBuild, laptop: prev.laptop });
+    setDeviceType(saved.build.type);
+    setActiveTab(saved.build.type === 'Laptop' ? 'laptop' : 'desktop');
+
+    if (missing.length > 0) {
+      alert(t('alert_missing_parts', { count: missing.length, parts: missing.join('\n') }));
+      return;
+    }
+    // The saved report still matches the parts, so show it without a new AI call
+    if (saved.analysis) {
+      setAnalysis(saved.analysis);
+      setSuitability(computeSuitability(restoredBuild));
+      if (restoredBuild.type === 'Desktop') setRuleReport(evaluateBuild(restoredBuild));
+    }
   };
 
   const SelectionCard = ({
@@ -250,33 +581,46 @@ Then provide:
   }: {
     label: string,
     icon: any,
-    field: keyof PCBuild,
+    field: DesktopSlot,
     dbKey: string
-  }) => (
-    <div className="bg-slate-900 border border-slate-800 rounded-lg p-3 md:p-4 hover:border-slate-700 transition-colors">
-      <div className="flex items-center gap-2 mb-3 text-cyan-400">
-        <Icon size={18} />
-        <span className="font-semibold text-sm uppercase tracking-wider">{label}</span>
-      </div>
-      <select
-        className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-600 focus:ring-1 focus:ring-cyan-900"
-        value={build[field]?.id || ""}
-        onChange={(e) => handleSelect(field, e.target.value, dbKey)}
-      >
-        <option value="">{UI_TEXT.select_prefix[language]}...</option>
-        {COMPONENT_DB[dbKey]?.map((part) => (
-          <option key={part.id} value={part.id}>
-            {part.name}
-          </option>
-        ))}
-      </select>
-      {build[field] && (
-        <div className="mt-2 text-[10px] text-slate-500 font-mono">
-          {build[field]?.specs}
+  }) => {
+    const slot = getSlotStatus(liveReport, field);
+    const options = (COMPONENT_DB[dbKey] || [])
+      .map(part => ({ part, ...checkCandidate(build, field, part) }))
+      .sort((a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status]);
+
+    return (
+      <div className={`bg-slate-900 border rounded-lg p-3 md:p-4 hover:border-slate-700 transition-colors ${slot.status === 'incompatible' ? 'border-red-900' : slot.status === 'warning' ? 'border-yellow-900' : 'border-slate-800'}`}>
+        <div className="flex items-center gap-2 mb-3 text-cyan-400">
+          <Icon size={18} />
+          <span className="font-semibold text-sm uppercase tracking-wider">{label}</span>
         </div>
-      )}
-    </div>
-  );
+        <select
+          className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-600 focus:ring-1 focus:ring-cyan-900"
+          value={build[field]?.id || ""}
+          onChange={(e) => handleSelect(field, e.target.value, dbKey)}
+        >
+          <option value="">{t('select_prefix')}...</option>
+          {options.map(({ part, status, reasons }) => (
+            <option
+              key={part.id}
+              value={part.id}
+              className={status === 'incompatible' ? 'text-slate-600' : status === 'warning' ? 'text-yellow-500' : ''}
+              title={reasons.map(r => r.message).join('\n')}
+            >
+              {part.name}{status === 'incompatible' ? ` ✕ ${reasons[0].name}` : status === 'warning' ? ` ⚠ ${reasons[0].name}` : ''}
+            </option>
+          ))}
+        </select>
+        {build[field] && (
+          <div className="mt-2 text-[10px] text-slate-500 font-mono">
+            {build[field]?.specs}
+          </div>
+        )}
+        <SlotBadge status={slot.status} findings={slot.findings} language={language} />
+      </div>
+    );
+  };
 
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-100 font-sans">
@@ -289,7 +633,7 @@ Then provide:
             </div>
             <div>
               <h1 className="font-bold text-lg tracking-tight text-white">{APP_TITLE}</h1>
-              <p className="text-xs text-slate-400 uppercase tracking-widest hidden sm:block">{UI_TEXT.header_subtitle[language]}</p>
+              <p className="text-xs text-slate-400 uppercase tracking-widest hidden sm:block">{t('header_subtitle')}</p>
             </div>
           </div>
 
@@ -298,17 +642,28 @@ Then provide:
               onClick={toggleLanguage}
               className="flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 transition-colors"
             >
-              <Globe size={12} /> {language === 'en' ? 'MM / မြန်မာ' : 'EN / English'}
+              <Globe size={12} /> {t('btn_language')}
             </button>
+            {language === 'my' && (
+              <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={myanmarNumerals}
+                  onChange={(e) => setMyanmarNumerals(e.target.checked)}
+                  className="rounded border-slate-700 bg-slate-900 text-cyan-500 focus:ring-cyan-900"
+                />
+                {t('btn_numerals')}
+              </label>
+            )}
 
             <div className="hidden md:flex items-center gap-2 text-xs text-slate-500 font-mono">
-              <span className="flex items-center gap-1"><Database size={12} /> DB: ACTIVE</span>
+              <span className="flex items-center gap-1"><Database size={12} /> {t('db_active')}</span>
             </div>
             <div className={`px-3 py-1 rounded-full text-xs font-bold border ${status === ConnectionStatus.CONNECTED
               ? 'bg-green-900/30 border-green-800 text-green-400'
               : 'bg-red-900/30 border-red-800 text-red-400'
               }`}>
-              {status === ConnectionStatus.CONNECTED ? UI_TEXT.status_online[language] : UI_TEXT.status_offline[language]}
+              {status === ConnectionStatus.CONNECTED ? t('status_online') : t('status_offline')}
             </div>
           </div>
         </div>
@@ -326,65 +681,115 @@ Then provide:
               onClick={() => { setActiveTab('desktop'); setDeviceType('Desktop'); }}
               className={`flex-1 min-w-[80px] py-2 px-3 rounded-md text-xs md:text-sm font-bold flex items-center justify-center gap-2 transition-all ${activeTab === 'desktop' ? 'bg-cyan-950 text-cyan-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
             >
-              <PcCase size={16} /> Desktop
+              <PcCase size={16} /> {t('tab_desktop')}
             </button>
             <button
               onClick={() => { setActiveTab('laptop'); setDeviceType('Laptop'); }}
               className={`flex-1 min-w-[80px] py-2 px-3 rounded-md text-xs md:text-sm font-bold flex items-center justify-center gap-2 transition-all ${activeTab === 'laptop' ? 'bg-cyan-950 text-cyan-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
             >
-              <Laptop size={16} /> Laptop
+              <Laptop size={16} /> {t('tab_laptop')}
             </button>
             <button
               onClick={() => { setActiveTab('budget'); setDeviceType('Laptop'); }}
               className={`flex-1 min-w-[80px] py-2 px-3 rounded-md text-xs md:text-sm font-bold flex items-center justify-center gap-2 transition-all ${activeTab === 'budget' ? 'bg-emerald-950 text-emerald-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
             >
-              <Search size={16} /> Budget & Major
+              <Search size={16} /> {t('tab_budget')}
             </button>
             <button
               onClick={() => { setActiveTab('compare'); setDeviceType('Laptop'); }}
               className={`flex-1 min-w-[80px] py-2 px-3 rounded-md text-xs md:text-sm font-bold flex items-center justify-center gap-2 transition-all ${activeTab === 'compare' ? 'bg-purple-950 text-purple-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
             >
-              <BarChart3 size={16} /> Compare
+              <BarChart3 size={16} /> {t('tab_compare')}
               {compareList.length > 0 && <span className="ml-1 bg-purple-500 text-white text-[10px] px-1.5 rounded-full">{compareList.length}</span>}
             </button>
+            <button
+              onClick={() => setActiveTab('saved')}
+              className={`flex-1 min-w-[80px] py-2 px-3 rounded-md text-xs md:text-sm font-bold flex items-center justify-center gap-2 transition-all ${activeTab === 'saved' ? 'bg-amber-950 text-amber-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <Bookmark size={16} /> {t('tab_saved')}
+              {savedBuilds.length > 0 && <span className="ml-1 bg-amber-600 text-white text-[10px] px-1.5 rounded-full">{savedBuilds.length}</span>}
+            </button>
           </div>
 
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-xl font-bold flex items-center gap-2">
-              {activeTab === 'desktop' && <><Cpu className="text-cyan-500" /> Desktop Builder</>}
-              {activeTab === 'laptop' && <><Laptop className="text-cyan-500" /> Laptop Search</>}
-              {activeTab === 'budget' && <><Search className="text-emerald-500" /> Smart Filter</>}
-              {activeTab === 'compare' && <><BarChart3 className="text-purple-500" /> Comparison Tool</>}
+              {activeTab === 'desktop' && <><Cpu className="text-cyan-500" /> {t('title_desktop')}</>}
+              {activeTab === 'laptop' && <><Laptop className="text-cyan-500" /> {t('title_laptop')}</>}
+              {activeTab === 'budget' && <><Search className="text-emerald-500" /> {t('filter_title')}</>}
+              {activeTab === 'compare' && <><BarChart3 className="text-purple-500" /> {t('compare_title')}</>}
+              {activeTab === 'saved' && <><Bookmark className="text-amber-500" /> {t('title_saved')}</>}
             </h2>
-            <button
-              onClick={handleReset}
-              disabled={deviceType === 'Desktop' ? isDesktopEmpty : isLaptopEmpty}
-              className="text-xs flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
-            >
-              <RotateCcw size={14} /> {UI_TEXT.btn_reset[language]}
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={handleCopyLink}
+                disabled={!canShare}
+                className="text-xs flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+              >
+                {linkCopied ? <><Check size={14} /> {t('link_copied')}</> : <><Link2 size={14} /> {t('btn_copy_link')}</>}
+              </button>
+              <button
+                onClick={handleReset}
+                disabled={deviceType === 'Desktop' ? isDesktopEmpty : isLaptopEmpty}
+                className="text-xs flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+              >
+                <RotateCcw size={14} /> {t('btn_reset')}
+              </button>
+            </div>
           </div>
 
+          {shareProblems.length > 0 && (
+            <div className="flex items-start gap-3 mb-6 p-3 rounded-lg border border-yellow-800/60 bg-yellow-950/30 text-xs text-yellow-300">
+              <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <div className="font-bold mb-1">{t('share_problems')}</div>
+                <ul className="list-disc pl-4 space-y-0.5 text-yellow-200/80">
+                  {shareProblems.map((problem, i) => <li key={i}>{t(problem.key, problem.vars)}</li>)}
+                </ul>
+              </div>
+              <button onClick={() => setShareProblems([])} className="text-yellow-500 hover:text-yellow-200" aria-label={t('btn_dismiss')}>
+                <X size={14} />
+              </button>
+            </div>
+          )}
+
           {/* CONTENT: DESKTOP BUILDER */}
           {activeTab === 'desktop' && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
-              <SelectionCard label="Processor (CPU)" icon={Cpu} field="cpu" dbKey="CPU" />
-              <SelectionCard label="Motherboard" icon={Box} field="motherboard" dbKey="Motherboard" />
-              <SelectionCard label="Graphics (GPU)" icon={Monitor} field="gpu" dbKey="GPU" />
-              <SelectionCard label="Memory (RAM)" icon={MemoryStick} field="ram" dbKey="RAM" />
-              <SelectionCard label="Storage" icon={HardDrive} field="storage" dbKey="Storage" />
-              <SelectionCard label="Power Supply" icon={Zap} field="psu" dbKey="PSU" />
-              <SelectionCard label="Case" icon={Box} field="pcCase" dbKey="Case" />
+              <SelectionCard label={t('slot_cpu')} icon={Cpu} field="cpu" dbKey="CPU" />
+              <SelectionCard label={t('slot_motherboard')} icon={Box} field="motherboard" dbKey="Motherboard" />
+              <SelectionCard label={t('slot_gpu')} icon={Monitor} field="gpu" dbKey="GPU" />
+              <SelectionCard label={t('slot_ram')} icon={MemoryStick} field="ram" dbKey="RAM" />
+              <SelectionCard label={t('slot_storage')} icon={HardDrive} field="storage" dbKey="Storage" />
+              <SelectionCard label={t('slot_psu')} icon={Zap} field="psu" dbKey="PSU" />
+              <SelectionCard label={t('slot_pcCase')} icon={Box} field="pcCase" dbKey="Case" />
+              <button
+                onClick={() => handleToggleCompare(desktopCompareItem(build))}
+                disabled={isDesktopEmpty || (isCompareFull && !isInCompare(desktopCompareItem(build).key))}
+                className="flex items-center justify-center gap-2 p-4 rounded-xl border border-dashed border-slate-700 text-xs font-bold text-slate-400 hover:border-purple-500/50 hover:text-purple-300 disabled:opacity-30 transition-colors"
+              >
+                <BarChart3 size={16} />
+                {isInCompare(desktopCompareItem(build).key) ? t('btn_remove_build_compare') : t('btn_add_build_compare', { count: compareList.length, max: MAX_COMPARE })}
+              </button>
             </div>
           )}
 
+          {activeTab === 'desktop' && hasPartConflicts && (
+            <FixSuggestions
+              suggestions={fixSuggestions}
+              rankBy={fixRanking}
+              onRankChange={setFixRanking}
+              onApply={handleApplyFix}
+              language={language}
+            />
+          )}
+
           {/* CONTENT: LAPTOP SEARCH (Standard) */}
           {activeTab === 'laptop' && (
             <div className="grid grid-cols-1 gap-4 mb-8">
               <div className="bg-slate-900 border border-slate-800 rounded-lg p-3 md:p-4 hover:border-slate-700 transition-colors">
                 <div className="flex items-center gap-2 mb-3 text-cyan-400">
                   <Laptop size={18} />
-                  <span className="font-semibold text-sm uppercase tracking-wider">Select Laptop Model</span>
+                  <span className="font-semibold text-sm uppercase tracking-wider">{t('section_laptop')}</span>
                 </div>
                 <div className="relative mb-2">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-slate-500">
@@ -392,7 +797,7 @@ Then provide:
                   </div>
                   <input
                     type="text"
-                    placeholder="Search by name, specs, or brand..."
+                    placeholder={t('placeholder_laptop_search')}
                     className="w-full bg-slate-950 border border-slate-700 rounded p-2 pl-9 text-sm text-slate-200 focus:outline-none focus:border-cyan-600 focus:ring-1 focus:ring-cyan-900 mb-2"
                     value={laptopSearch}
                     onChange={(e) => setLaptopSearch(e.target.value)}
@@ -414,7 +819,7 @@ Then provide:
                           <div>
                             <div className={`font-bold text-sm ${build.laptop?.id === part.id ? 'text-cyan-300' : 'text-slate-200'}`}>{part.name}</div>
                             <div className="text-xs text-slate-500 mt-1">{part.specs}</div>
-                            {part.price && <div className="text-xs text-emerald-400 font-mono mt-1">{part.price.toLocaleString()} MMK</div>}
+                            {part.price && <div className="text-xs text-emerald-400 font-mono mt-1">{i18n.mmk(part.price)}</div>}
                           </div>
                           {build.laptop?.id === part.id && <Check size={16} className="text-cyan-400" />}
                         </div>
@@ -428,102 +833,67 @@ Then provide:
           {/* CONTENT: BUDGET & MAJOR FILTER */}
           {activeTab === 'budget' && (
             <div className="space-y-6 mb-8">
-              {/* Filter Controls */}
-              <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-5">
-
-                {/* Price Slider */}
-                <div>
-                  <div className="flex justify-between text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">
-                    <span>Max Budget</span>
-                    <span className="text-emerald-400">{maxPrice.toLocaleString()} MMK</span>
-                  </div>
-                  <input
-                    type="range"
-                    min="500000"
-                    max="5000000"
-                    step="100000"
-                    value={maxPrice}
-                    onChange={(e) => setMaxPrice(parseInt(e.target.value))}
-                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
-                  />
-                  <div className="flex justify-between text-[10px] text-slate-600 mt-1 font-mono">
-                    <span>5 Lakhs</span>
-                    <span>50 Lakhs</span>
-                  </div>
-                </div>
-
-                {/* Major Selection */}
-                <div>
-                  <label className="text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider block">Your Major</label>
-                  <select
-                    value={selectedMajor}
-                    onChange={(e) => setSelectedMajor(e.target.value)}
-                    className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500"
-                  >
-                    <option value="">Any Major</option>
-                    {uniqueMajors.map(m => <option key={m} value={m}>{m}</option>)}
-                  </select>
-                </div>
-
-                {/* Programs Input */}
-                <div>
-                  <label className="text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider block">Required Programs</label>
-                  <input
-                    type="text"
-                    className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500"
-                    placeholder="e.g. AutoCAD, Adobe Premiere..."
-                    value={programQuery}
-                    onChange={(e) => setProgramQuery(e.target.value)}
-                  />
-                </div>
-
-                {/* Gaming Toggle */}
-                <div className="flex items-center gap-3">
-                  <input
-                    type="checkbox"
-                    id="gaming"
-                    checked={wantGaming}
-                    onChange={(e) => setWantGaming(e.target.checked)}
-                    className="w-4 h-4 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-900"
-                  />
-                  <label htmlFor="gaming" className="text-sm font-medium text-slate-300 cursor-pointer select-none">
-                    I also want to play games (Requires dedicated GPU)
-                  </label>
-                </div>
-              </div>
+              <LaptopFilterPanel
+                filters={laptopFilters}
+                facets={laptopFacets}
+                onChange={setLaptopFilters}
+                sortBy={laptopSort}
+                onSortChange={setLaptopSort}
+                resultCount={filteredLaptops.length}
+                language={language}
+                numberFormat={{ myanmarNumerals }}
+              />
+
+              <BuildGenerator
+                budgetMMK={laptopFilters.maxPriceMMK}
+                majors={laptopFilters.majors}
+                programs={laptopFilters.programs}
+                workloads={generatorWorkloads}
+                onWorkloadsChange={setGeneratorWorkloads}
+                results={generatedBuilds}
+                onGenerate={handleGenerateBuilds}
+                onUseBuild={handleUseGeneratedBuild}
+                isInCompare={(generated) => isInCompare(desktopCompareItem(generated.build).key)}
+                canAddToCompare={!isCompareFull}
+                onToggleCompare={(generated) => handleToggleCompare(desktopCompareItem(generated.build))}
+                language={language}
+                numberFormat={{ myanmarNumerals }}
+              />
 
               {/* Filtered Results */}
               <div className="space-y-3">
-                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest">Recommended Options</h3>
+                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest">{t('header_recommended')}</h3>
                 <div className="grid grid-cols-1 gap-3 max-h-[500px] overflow-y-auto scrollbar-thin pr-2">
-                  {COMPONENT_DB['Laptop']
-                    ?.filter(l => {
-                      // 1. Price Check
-                      if ((l.price || 0) > maxPrice) return false;
-                      // 2. Major Check
-                      if (selectedMajor && (!l.major || !l.major.includes(selectedMajor))) return false;
-                      // 3. Program Check
-                      if (programQuery && (!l.programList || !l.programList.toLowerCase().includes(programQuery.toLowerCase()))) return false;
-                      // 4. Gaming Check (Simple Heuristic: Must have RTX/GTX/RX or "Gaming" in name)
-                      if (wantGaming) {
-                        const specs = (l.specs || "").toLowerCase();
-                        const name = l.name.toLowerCase();
-                        const isGaming = specs.includes('rtx') || specs.includes('gtx') || specs.includes('radeon rx') || name.includes('gaming');
-                        if (!isGaming) return false;
-                      }
-                      return true;
-                    })
+                  {filteredLaptops
                     .map(part => (
                       <div key={part.id} className="bg-slate-900 border border-slate-800 rounded-lg p-4 hover:border-emerald-500/50 transition-all group">
                         <div className="flex justify-between items-start mb-2">
                           <h4 className="font-bold text-slate-200 group-hover:text-emerald-400 transition-colors">{part.name}</h4>
                           <span className="bg-slate-950 text-emerald-400 font-mono text-xs px-2 py-1 rounded border border-slate-800">
-                            {(part.price || 0).toLocaleString()} MMK
+                            {i18n.mmk(part.price || 0)}
                           </span>
                         </div>
                         <div className="text-xs text-slate-400 mb-3 space-y-1">
                           <p>{part.specs}</p>
-                          {part.major && <p className="text-slate-500 italic"><span className="text-slate-600 not-italic font-bold">Best for:</span> {part.major}</p>}
+                          {part.major && <p className="text-slate-500 italic"><span className="text-slate-600 not-italic font-bold">{t('label_best_for')}</span> {part.major}</p>}
+                          {part.laptopSpec && (
+                            <p><span className="text-slate-600 font-bold">{t('verdict_gaming')}:</span> {isGamingCapable(part.laptopSpec) ? t('verdict_capable') : t('verdict_basic')}</p>
+                          )}
+                          {part.laptopSpec && laptopFilters.programs.length > 0 && (
+                            <ProgramFit
+                              check={checkPrograms(laptopFilters.programs, profileFromLaptop(part), part.laptopSpec.os)}
+                              language={language}
+                              numberFormat={{ myanmarNumerals }}
+                              compact
+                            />
+                          )}
+                          <p className="font-mono text-[10px] text-slate-500">
+                            {t('laptop_scores', {
+                              spec: part.laptopSpec?.specScore ?? '—',
+                              score: laptopSuitability[part.id],
+                              value: valuePerMmk(laptopSuitability[part.id], part.price).toFixed(1)
+                            })}
+                          </p>
                         </div>
 
                         <div className="flex items-center gap-2 mt-3">
@@ -531,16 +901,17 @@ Then provide:
                             onClick={() => { handleSelect('laptop', part.id, 'Laptop'); setActiveTab('laptop'); }} // Switch to laptop tab to see selection
                             className={`flex-1 text-xs font-bold py-2 rounded-md transition-colors ${build.laptop?.id === part.id ? 'bg-emerald-900/50 text-emerald-400 border border-emerald-800' : 'bg-slate-950 text-slate-400 border border-slate-800 hover:bg-slate-800'}`}
                           >
-                            {build.laptop?.id === part.id ? 'Selected' : 'Select This Laptop'}
+                            {build.laptop?.id === part.id ? t('btn_selected') : t('btn_select_laptop')}
                           </button>
                           <label className="flex items-center gap-2 cursor-pointer bg-slate-950 px-3 py-2 rounded-md border border-slate-800 hover:border-purple-500/50 transition-colors">
                             <input
                               type="checkbox"
                               className="rounded border-slate-700 bg-slate-900 text-purple-500 focus:ring-purple-900"
-                              checked={!!compareList.find(c => c.id === part.id)}
-                              onChange={() => handleAddToCompare(part)}
+                              checked={isInCompare(laptopCompareItem(part).key)}
+                              disabled={isCompareFull && !isInCompare(laptopCompareItem(part).key)}
+                              onChange={() => handleToggleCompare(laptopCompareItem(part))}
                             />
-                            <span className="text-xs font-bold text-slate-400">Compare</span>
+                            <span className="text-xs font-bold text-slate-400">{t('lbl_compare')}</span>
                           </label>
                         </div>
                       </div>
@@ -556,63 +927,50 @@ Then provide:
               {compareList.length === 0 ? (
                 <div className="flex-1 flex flex-col items-center justify-center text-slate-500 opacity-50 space-y-4">
                   <BarChart3 size={48} />
-                  <p>Select laptops from the <b>Budget</b> or <b>Laptop</b> tabs to compare.</p>
+                  <p>{t('compare_empty', { max: MAX_COMPARE })}</p>
                 </div>
               ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 h-full overflow-y-auto">
-                  {compareList.map((laptop, idx) => (
-                    <div key={laptop.id} className="bg-slate-900 border border-slate-800 rounded-xl p-5 relative">
-                      <button
-                        onClick={() => handleAddToCompare(laptop)}
-                        className="absolute top-4 right-4 text-slate-500 hover:text-red-400 transition-colors"
-                      >
-                        <span className="sr-only">Remove</span>
-                        <div className="bg-slate-950 rounded-full p-1"><RotateCcw size={12} className="rotate-45" /></div>
-                      </button>
-
-                      <div className="text-xs font-bold text-purple-400 uppercase tracking-widest mb-2">Option {idx + 1}</div>
-                      <h3 className="text-lg font-bold text-white mb-4 line-clamp-1" title={laptop.name}>{laptop.name}</h3>
-
-                      <div className="space-y-4">
-                        <div>
-                          <div className="text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1">Price</div>
-                          <div className="text-xl font-mono text-emerald-400">{(laptop.price || 0).toLocaleString()} MMK</div>
-                        </div>
-
-                        <div className="p-3 bg-slate-950/50 rounded-lg border border-slate-800/50 space-y-2">
-                          <ActivityRow label="Specs" value={laptop.specs || "N/A"} />
-                          <ActivityRow label="Major" value={laptop.major || "General Use"} highlight />
-                          <ActivityRow label="Programs" value={laptop.programList || "Standard Office Suite"} />
-                          <div className="pt-2 border-t border-slate-800 mt-2">
-                            <div className="text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1">Gaming Verdict</div>
-                            <div className="text-xs text-slate-300">
-                              {isGamingCapable(laptop) ? (
-                                <span className="text-emerald-400 font-bold flex items-center gap-1"><Check size={12} /> Capable</span>
-                              ) : (
-                                <span className="text-slate-500">Basic / Casual Only</span>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <>
+                  <CompareTable items={compareList} result={compareResult} onRemove={handleToggleCompare} language={language} />
+                  <CompareVerdict
+                    verdict={compareVerdict}
+                    isLoading={isComparing}
+                    canRun={compareList.length >= 2 && status === ConnectionStatus.CONNECTED}
+                    language={language}
+                    onRun={handleCompareVerdict}
+                    onCancel={() => compareAbortRef.current?.abort()}
+                  />
+                </>
               )}
             </div>
           )}
 
 
+          {/* CONTENT: SAVED BUILDS */}
+          {activeTab === 'saved' && (
+            <SavedBuilds
+              saved={savedBuilds}
+              canSave={deviceType === 'Desktop' ? !isDesktopEmpty : !isLaptopEmpty}
+              defaultName={defaultSavedName(currentBuild)}
+              language={language}
+              onSave={handleSaveBuild}
+              onRestore={handleRestoreBuild}
+              onRename={(id, name) => setSavedBuilds(prev => renameSavedBuild(prev, id, name))}
+              onDuplicate={(id) => setSavedBuilds(prev => duplicateSavedBuild(prev, id))}
+              onDelete={(id) => setSavedBuilds(prev => deleteSavedBuild(prev, id))}
+            />
+          )}
+
           <button
             onClick={handleAnalyze}
             disabled={isAnalyzing || (deviceType === 'Desktop' ? isDesktopEmpty : isLaptopEmpty)}
             className="w-full bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-800 disabled:text-slate-600 text-white font-bold py-4 rounded-lg shadow-lg shadow-cyan-900/20 transition-all flex items-center justify-center gap-3 text-lg mt-6"
-            style={{ display: activeTab === 'compare' || activeTab === 'budget' ? 'none' : 'flex' }}
+            style={{ display: activeTab === 'compare' || activeTab === 'budget' || activeTab === 'saved' ? 'none' : 'flex' }}
           >
             {isAnalyzing ? (
-              <>{UI_TEXT.btn_analyzing[language]}</>
+              <>{t('btn_analyzing')}</>
             ) : (
-              <><PlayCircle /> {UI_TEXT.btn_analyze[language]}</>
+              <><PlayCircle /> {t('btn_analyze')}</>
             )}
           </button>
         </div>
@@ -620,19 +978,30 @@ Then provide:
         {/* Right: Analysis Dashboard */}
         <div ref={resultRef} className="flex-1 bg-slate-950/50 p-4 md:p-6 overflow-y-auto border-t md:border-t-0 border-slate-800">
           <h2 className="text-xl font-bold flex items-center gap-2 mb-6">
-            <BarChart3 className="text-purple-500" /> Specialist Analysis
+            <BarChart3 className="text-purple-500" /> {t('report_ai_verdict')}
           </h2>
 
-          {!analysis && !isAnalyzing && (
+          {!analysis && !suitability && !isAnalyzing && (
             <div className="h-64 flex flex-col items-center justify-center text-slate-600 border-2 border-dashed border-slate-800 rounded-xl">
               {deviceType === 'Desktop' ? <PcCase size={48} className="mb-4 opacity-50" /> : <Laptop size={48} className="mb-4 opacity-50" />}
-              <p className="text-center">{UI_TEXT.empty_state[language]}</p>
-              <p className="text-xs mt-2 opacity-50 text-center">{UI_TEXT.checking_msg[language]}</p>
+              <p className="text-center">{t('empty_state')}</p>
+              <p className="text-xs mt-2 opacity-50 text-center">{t('checking_msg')}</p>
+            </div>
+          )}
+
+          {isAnalyzing && streamAbortRef.current && (
+            <div className="flex justify-end mb-4">
+              <button
+                onClick={handleCancelAnalysis}
+                className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-red-400 text-xs font-bold rounded-lg border border-slate-700 transition-colors"
+              >
+                <X size={14} /> {t('btn_cancel')}
+              </button>
             </div>
           )}
 
-          {isAnalyzing && (
-            <div className="space-y-4 animate-pulse">
+          {isAnalyzing && !analysis && (
+            <div className="space-y-4 animate-pulse mb-6">
               <div className="h-8 bg-slate-800 rounded w-1/3"></div>
               <div className="h-32 bg-slate-800 rounded w-full"></div>
               <div className="h-8 bg-slate-800 rounded w-1/2"></div>
@@ -640,14 +1009,19 @@ Then provide:
             </div>
           )}
 
-          {analysis && !isAnalyzing && (
+          {suitability && !isAnalyzing && <ReportExport language={language} onExport={handleExport} />}
+
+          {suitability && (
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
 
               {/* Score Card */}
               <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 mb-6 flex items-center justify-between shadow-lg relative overflow-hidden">
                 <div className="relative z-10">
-                  <div className="text-xs text-slate-400 uppercase tracking-widest font-bold mb-1">{UI_TEXT.score_label[language]}</div>
-                  <div className="text-4xl md:text-5xl font-black text-white">{score}<span className="text-xl text-slate-500">/100</span></div>
+                  <div className="text-xs text-slate-400 uppercase tracking-widest font-bold mb-1">{t('score_label')}</div>
+                  <div className="text-4xl md:text-5xl font-black text-white">{i18n.number(score)}<span className="text-xl text-slate-500">/100</span></div>
+                  {aiScore !== null && aiScore !== score && (
+                    <div className="text-[10px] text-yellow-500 mt-1">{t('ai_score_mismatch', { score: aiScore })}</div>
+                  )}
                 </div>
 
                 {/* Visual Circle / Progress */}
@@ -664,34 +1038,63 @@ Then provide:
                 </div>
               </div>
 
+              <ScoreBreakdown suitability={suitability} language={language} numberFormat={{ myanmarNumerals }} />
+              {laptopFilters.programs.length > 0 && (
+                <ProgramFit check={checkBuildPrograms(currentBuild, laptopFilters.programs)} language={language} numberFormat={{ myanmarNumerals }} />
+              )}
+            </div>
+          )}
+
+          {ruleReport && <RuleFindings report={ruleReport} language={language} />}
+
+          {analysis && (
+            <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+
+              {analysisCachedAt && (
+                <div className="flex items-center gap-1 text-[10px] text-slate-500 font-mono mb-2">
+                  <Database size={10} /> {t('cached_result')} {new Date(analysisCachedAt).toLocaleString()}
+                </div>
+              )}
+
               {/* Text Report */}
               <div className="bg-slate-900/50 border border-slate-800/50 rounded-xl p-1 relative">
-                <ChatMessage message={{ id: 'report', role: 'model', text: analysis, timestamp: new Date() }} />
-
-                {/* Translation Button */}
-                <div className="absolute top-2 right-2">
-                  <button
-                    onClick={async () => {
-                      if (!analysis || isAnalyzing) return;
-                      setIsAnalyzing(true);
-                      try {
-                        const prompt = `Translate the following technical analysis into Burmese (Myanmar) language. \n\nIMPORTANT:\n1. Keep all Markdown formatting (**bold**, *lists*, etc).\n2. Keep the "SCORE: [number]" exactly as is.\n3. Translate everything else to Burmese.\n\nORIGINAL TEXT:\n${analysis}`;
-                        const translated = await sendMessageToMistral(prompt);
-                        setAnalysis(translated);
-                      } catch (e) {
-                        alert("Translation failed. Please try again.");
-                      } finally {
-                        setIsAnalyzing(false);
-                      }
-                    }}
-                    className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-cyan-400 text-xs font-bold rounded-lg border border-slate-700 transition-colors shadow-sm"
-                    title="Translate to Burmese"
-                  >
-                    <Globe size={14} /> {UI_TEXT.btn_translate[language]}
-                  </button>
-                </div>
+                {structuredAnalysis && !isShowingTranslation
+                  ? <AnalysisCard analysis={structuredAnalysis} language={language} />
+                  : <ChatMessage message={{ id: 'report', role: 'model', text: shownAnalysis!, timestamp: new Date() }} language={language} status={structuredAnalysis?.status} />}
+
+                {/* Language Toggle: the missing version is translated on first click */}
+                {!isAnalyzing && (
+                  <div className="absolute top-2 right-2 flex items-center bg-slate-800 rounded-lg border border-slate-700 text-xs font-bold shadow-sm overflow-hidden">
+                    <Globe size={14} className="mx-2 text-slate-500" />
+                    {(['en', 'my'] as Language[]).map(version => {
+                      const available = version === analysisLanguage || translation !== null;
+                      const active = version === (isShowingTranslation ? translation.language : analysisLanguage);
+                      return (
+                        <button
+                          key={version}
+                          onClick={() => handleShowLanguage(version)}
+                          disabled={!available && (isTranslating || status !== ConnectionStatus.CONNECTED)}
+                          className={`px-3 py-1.5 transition-colors disabled:opacity-50 ${active ? 'bg-cyan-950 text-cyan-400' : 'text-slate-400 hover:bg-slate-700 hover:text-slate-200'}`}
+                        >
+                          {available
+                            ? t(version === 'en' ? 'lang_en' : 'lang_my')
+                            : isTranslating ? t('btn_translating') : t(version === 'en' ? 'btn_translate_en' : 'btn_translate')}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
 
+              {isShowingTranslation && translation.missingTerms.length > 0 && (
+                <div className="flex items-start gap-1 text-[10px] text-yellow-500 mt-2">
+                  <AlertCircle size={12} className="flex-shrink-0" /> {t('translation_terms_altered', { terms: translation.missingTerms.join(', ') })}
+                </div>
+              )}
+
+              {analysisContext && !isAnalyzing && (
+                <FollowUpChat messages={followUps} isSending={isChatting} language={language} onSend={handleFollowUp} />
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,94 @@
+import React from 'react';
+import { BuildVerdict, FindingSeverity, Language, StructuredAnalysis, WorkloadRating } from '../types';
+import { Markdown } from './Markdown';
+import { createTranslator, MessageKey } from '../utils/i18n';
+import { AlertTriangle, Cpu, Info, Wrench, XCircle } from 'lucide-react';
+
+interface AnalysisCardProps {
+  analysis: StructuredAnalysis;
+  language: Language;
+}
+
+const STATUS_STYLE: Record<BuildVerdict, { label: MessageKey; className: string }> = {
+  compatible: { label: 'verdict_compatible', className: 'text-green-400 border-green-800 bg-green-900/20' },
+  issues: { label: 'verdict_issues', className: 'text-yellow-400 border-yellow-800 bg-yellow-900/20' },
+  incompatible: { label: 'verdict_incompatible', className: 'text-red-400 border-red-800 bg-red-900/20' }
+};
+
+const RATING_STYLE: Record<WorkloadRating, { label: MessageKey; className: string }> = {
+  excellent: { label: 'rating_excellent', className: 'text-green-400 border-green-800 bg-green-900/20' },
+  good: { label: 'rating_good', className: 'text-cyan-400 border-cyan-800 bg-cyan-900/20' },
+  adequate: { label: 'rating_adequate', className: 'text-yellow-400 border-yellow-800 bg-yellow-900/20' },
+  poor: { label: 'rating_poor', className: 'text-orange-400 border-orange-800 bg-orange-900/20' },
+  unusable: { label: 'rating_unusable', className: 'text-red-400 border-red-800 bg-red-900/20' }
+};
+
+const issueIcon = (severity: FindingSeverity) =>
+  severity === 'critical'
+    ? <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+    : severity === 'warning'
+      ? <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />
+      : <Info className="w-4 h-4 text-cyan-400 mt-0.5 flex-shrink-0" />;
+
+/**
+ * AI analysis rendered from the validated JSON contract: status badge,
+ * summary, rated workloads, issues with their fixes and the expert verdict.
+ * Markdown-only replies keep using ChatMessage.
+ */
+export const AnalysisCard: React.FC<AnalysisCardProps> = ({ analysis, language }) => {
+  const { t } = createTranslator(language);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-4 text-sm text-slate-300">
+      <div className="flex items-center gap-2 mb-3 pb-2 border-b border-slate-800">
+        <Cpu className="w-5 h-5 text-cyan-400 flex-shrink-0" />
+        <span className="text-xs font-semibold tracking-wider text-slate-500 uppercase">{t('analysis_result')}</span>
+        <span className={`ml-2 text-xs font-bold px-2 py-1 rounded border ${STATUS_STYLE[analysis.status].className}`}>{t(STATUS_STYLE[analysis.status].label)}</span>
+      </div>
+
+      <p className="leading-relaxed mb-4">{analysis.summary}</p>
+
+      <div className="text-xs font-semibold tracking-wider text-slate-400 uppercase mb-2">{t('analysis_workloads')}</div>
+      <ul className="space-y-2 mb-4">
+        {analysis.workloads.map(w => (
+          <li key={w.workload} className="flex items-start gap-2 text-xs">
+            <span className={`w-20 text-center flex-shrink-0 text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${RATING_STYLE[w.rating].className}`}>
+              {t(RATING_STYLE[w.rating].label)}
+            </span>
+            <div>
+              <span className="font-bold text-slate-200">{w.workload}</span>
+              {w.comment && <div className="text-slate-400">{w.comment}</div>}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {analysis.issues.length > 0 && (
+        <>
+          <div className="text-xs font-semibold tracking-wider text-slate-400 uppercase mb-2">{t('analysis_issues')}</div>
+          <ul className="space-y-2 mb-4">
+            {analysis.issues.map((issue, i) => (
+              <li key={i} className="flex items-start gap-2 text-xs">
+                {issueIcon(issue.severity)}
+                <div>
+                  {issue.component && <span className="font-bold text-slate-200 mr-1">{issue.component}:</span>}
+                  <span className="text-slate-300">{issue.message}</span>
+                  {issue.fix && (
+                    <div className="flex items-start gap-1 text-green-400/80 mt-0.5">
+                      <Wrench size={12} className="mt-0.5 flex-shrink-0" /> {issue.fix}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div className="text-xs font-semibold tracking-wider text-slate-400 uppercase mb-2">{t('analysis_verdict')}</div>
+      <div className="leading-relaxed opacity-90">
+        <Markdown text={analysis.verdict} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { GeneratedBuild, Language, NumberFormatOptions } from '../types';
+import { WorkloadId } from '../utils/ruleEngine';
+import { performanceBenchmarksData } from '../utils/dataLoader';
+import { programWorkloads } from '../utils/programRequirements';
+import { createTranslator } from '../utils/i18n';
+import { Sparkles, PcCase, BarChart3 } from 'lucide-react';
+
+interface BuildGeneratorProps {
+  budgetMMK: number;
+  majors: string[];
+  programs: string[];
+  workloads: WorkloadId[];
+  onWorkloadsChange: (workloads: WorkloadId[]) => void;
+  results: GeneratedBuild[] | null;
+  onGenerate: () => void;
+  onUseBuild: (generated: GeneratedBuild) => void;
+  isInCompare: (generated: GeneratedBuild) => boolean;
+  canAddToCompare: boolean;
+  onToggleCompare: (generated: GeneratedBuild) => void;
+  language: Language;
+  numberFormat?: NumberFormatOptions;
+}
+
+const WORKLOAD_IDS = Object.keys(performanceBenchmarksData.workloads) as WorkloadId[];
+
+/**
+ * Desktop build generator for the Budget & Major tab.
+ * With no workloads ticked, the selected majors' default workloads and the
+ * workloads of catalogued required programs are used.
+ */
+export const BuildGenerator: React.FC<BuildGeneratorProps> = ({
+  budgetMMK,
+  majors,
+  programs,
+  workloads,
+  onWorkloadsChange,
+  results,
+  onGenerate,
+  onUseBuild,
+  isInCompare,
+  canAddToCompare,
+  onToggleCompare,
+  language,
+  numberFormat
+}) => {
+  const { t, mmk } = createTranslator(language, numberFormat);
+
+  const toggleWorkload = (id: WorkloadId) => {
+    onWorkloadsChange(workloads.includes(id) ? workloads.filter(w => w !== id) : [...workloads, id]);
+  };
+
+  const programTargets = programWorkloads(programs).map(id => performanceBenchmarksData.workloads[id].name);
+  const vars = { majors: majors.join(', '), programs: programTargets.join(', ') };
+  const defaultsNote = majors.length > 0 && programTargets.length > 0
+    ? t('generator_using_both', vars)
+    : majors.length > 0
+      ? t('generator_using_majors', vars)
+      : programTargets.length > 0
+        ? t('generator_using_programs', vars)
+        : t('generator_core');
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-4">
+      <div className="flex items-center gap-2 text-xs font-bold text-cyan-400 uppercase tracking-wider">
+        <Sparkles size={14} /> {t('generator_title')}
+      </div>
+
+      <div>
+        <div className="text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">{t('generator_workloads')}</div>
+        <div className="flex flex-wrap gap-2">
+          {WORKLOAD_IDS.map(id => (
+            <label key={id} className="flex items-center gap-2 cursor-pointer bg-slate-950 px-2 py-1 rounded border border-slate-800 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                className="rounded border-slate-700 bg-slate-900 text-cyan-500 focus:ring-cyan-900"
+                checked={workloads.includes(id)}
+                onChange={() => toggleWorkload(id)}
+              />
+              {performanceBenchmarksData.workloads[id].name}
+            </label>
+          ))}
+        </div>
+        {workloads.length === 0 && (
+          <p className="text-[10px] text-slate-500 mt-1">{defaultsNote}</p>
+        )}
+      </div>
+
+      <button
+        onClick={onGenerate}
+        className="w-full text-sm font-bold py-2 rounded-md bg-cyan-900/40 text-cyan-300 border border-cyan-800 hover:bg-cyan-900/70 transition-colors"
+      >
+        {t('btn_generate', { budget: mmk(budgetMMK) })}
+      </button>
+
+      {results && results.length === 0 && (
+        <p className="text-xs text-slate-500">{t('generator_none')}</p>
+      )}
+
+      {results?.map((generated, i) => (
+        <div key={i} className="bg-slate-950 border border-slate-800 rounded-lg p-4">
+          <div className="flex justify-between items-start mb-3">
+            <div>
+              <div className="text-xs font-bold text-cyan-400 uppercase tracking-widest">{t('generator_build', { number: i + 1 })}</div>
+              <div className="text-[10px] text-slate-500 font-mono mt-1">
+                {generated.workloads.map(w => `${w.name}: ${w.score}`).join(' · ')}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-lg font-black text-white">{generated.score}<span className="text-xs text-slate-500">/100</span></div>
+              <div className="text-xs font-mono text-emerald-400">{mmk(generated.totalMMK)}</div>
+            </div>
+          </div>
+
+          <ul className="space-y-1.5 mb-3">
+            {generated.billOfMaterials.map(line => (
+              <li key={line.slot} className="text-xs">
+                <div className="flex justify-between gap-2">
+                  <span className="text-slate-200">
+                    <span className="text-slate-500 uppercase text-[10px] font-bold mr-2">{line.slot}</span>
+                    {line.part.name}
+                  </span>
+                  <span className="font-mono text-slate-500 shrink-0">${line.priceUSD}</span>
+                </div>
+                <div className="text-[10px] text-slate-500 ml-1">{line.reason}</div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onUseBuild(generated)}
+              className="flex-1 flex items-center justify-center gap-2 text-xs font-bold py-2 rounded-md bg-slate-900 text-slate-300 border border-slate-800 hover:bg-slate-800 transition-colors"
+            >
+              <PcCase size={14} /> {t('btn_open_builder')}
+            </button>
+            <button
+              onClick={() => onToggleCompare(generated)}
+              disabled={!canAddToCompare && !isInCompare(generated)}
+              className={`flex items-center gap-2 text-xs font-bold px-3 py-2 rounded-md border transition-colors disabled:opacity-30 ${isInCompare(generated) ? 'bg-purple-900/40 text-purple-300 border-purple-800' : 'bg-slate-900 text-slate-400 border-slate-800 hover:border-purple-500/50'}`}
+            >
+              <BarChart3 size={14} /> {isInCompare(generated) ? t('lbl_comparing') : t('lbl_compare')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
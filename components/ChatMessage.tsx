@@ -1,36 +1,31 @@
 import React from 'react';
-import { Message } from '../types';
+import { BuildVerdict, Language, Message } from '../types';
+import { Markdown } from './Markdown';
+import { parseAnalysisStatus } from '../utils/analysisParser';
+import { translate } from '../utils/i18n';
 import { User, Cpu, AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
 
 interface ChatMessageProps {
   message: Message;
+  language: Language;
+  /** Status from the validated StructuredAnalysis; Markdown-only replies fall back to the status line */
+  status?: BuildVerdict | null;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
-  const isUser = message.role === 'user';
+const STATUS_ICON: Record<BuildVerdict, React.ReactNode> = {
+  compatible: <CheckCircle2 className="w-5 h-5 text-green-400 mt-1 flex-shrink-0" />,
+  incompatible: <XCircle className="w-5 h-5 text-red-500 mt-1 flex-shrink-0" />,
+  issues: <AlertTriangle className="w-5 h-5 text-yellow-400 mt-1 flex-shrink-0" />
+};
 
-  // Helper to determine status icon based on text content (simple heuristic for the "Expert" persona)
-  const getStatusIcon = (text: string) => {
-    if (text.includes("✅ COMPATIBLE")) return <CheckCircle2 className="w-5 h-5 text-green-400 mt-1 flex-shrink-0" />;
-    if (text.includes("❌ INCOMPATIBLE")) return <XCircle className="w-5 h-5 text-red-500 mt-1 flex-shrink-0" />;
-    if (text.includes("⚠️ WARNING")) return <AlertTriangle className="w-5 h-5 text-yellow-400 mt-1 flex-shrink-0" />;
-    return <Cpu className="w-5 h-5 text-cyan-400 mt-1 flex-shrink-0" />;
-  };
+export const ChatMessage: React.FC<ChatMessageProps> = ({ message, language, status: knownStatus }) => {
+  const isUser = message.role === 'user';
 
-  // Basic markdown parser for bolding and newlines
-  const renderContent = (text: string) => {
-    return text.split('\n').map((line, i) => (
-      <React.Fragment key={i}>
-        {line.split(/(\*\*.*?\*\*)/).map((part, j) => {
-            if (part.startsWith('**') && part.endsWith('**')) {
-                return <strong key={j} className="text-white font-bold">{part.slice(2, -2)}</strong>;
-            }
-            return <span key={j}>{part}</span>;
-        })}
-        <br />
-      </React.Fragment>
-    ));
-  };
+  // Markdown fallback: status line parsed from the AI response ("✅ COMPATIBLE", "⚠️ ISSUES", ...)
+  const status = React.useMemo(
+    () => (isUser ? null : knownStatus ?? parseAnalysisStatus(message.text)),
+    [isUser, knownStatus, message.text]
+  );
 
   return (
     <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -48,19 +43,19 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
         <div className={`flex flex-col p-4 rounded-lg border text-sm md:text-base shadow-sm
           ${isUser 
             ? 'bg-indigo-900/50 border-indigo-700/50 text-indigo-50 rounded-tr-none' 
-            : 'bg-slate-900 border-slate-800 text-slate-300 rounded-tl-none font-mono'
+            : 'bg-slate-900 border-slate-800 text-slate-300 rounded-tl-none'
           }`}>
           
           {/* Header for AI response to show visual status immediately */}
           {!isUser && (
             <div className="flex items-center gap-2 mb-2 pb-2 border-b border-slate-800">
-               {getStatusIcon(message.text)}
-               <span className="text-xs font-semibold tracking-wider text-slate-500 uppercase">Analysis Result</span>
+               {status ? STATUS_ICON[status] : <Cpu className="w-5 h-5 text-cyan-400 mt-1 flex-shrink-0" />}
+               <span className="text-xs font-semibold tracking-wider text-slate-500 uppercase">{translate('analysis_result', language)}</span>
             </div>
           )}
 
           <div className="leading-relaxed opacity-90">
-            {renderContent(message.text)}
+            {isUser ? <span className="whitespace-pre-wrap">{message.text}</span> : <Markdown text={message.text} />}
           </div>
           
           <span className="text-[10px] opacity-40 mt-2 text-right w-full block">
@@ -0,0 +1,80 @@
+import React from 'react';
+import { CompareItem, CompareResult, Language } from '../types';
+import { createTranslator } from '../utils/i18n';
+import { Laptop, PcCase, Trophy, X } from 'lucide-react';
+
+interface CompareTableProps {
+  items: CompareItem[];
+  result: CompareResult;
+  onRemove: (item: CompareItem) => void;
+  language: Language;
+}
+
+/**
+ * Attribute-aligned comparison of laptops and desktop builds.
+ * The best cell in each row is highlighted; ties share the highlight.
+ */
+export const CompareTable: React.FC<CompareTableProps> = ({ items, result, onRemove, language }) => {
+  const { t } = createTranslator(language);
+
+  return (
+    <div className="space-y-4">
+      {result.winner !== null && (
+        <div className="flex items-start gap-3 bg-purple-950/30 border border-purple-800/50 rounded-xl p-4">
+          <Trophy className="text-yellow-400 flex-shrink-0 mt-0.5" size={20} />
+          <div>
+            <div className="text-xs font-bold text-purple-400 uppercase tracking-widest">{t('compare_winner')}</div>
+            <div className="text-sm font-bold text-white">{items[result.winner].name}</div>
+            <div className="text-xs text-slate-400 mt-1">{result.reason}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-slate-800 rounded-xl">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-slate-900">
+              <th className="p-3 text-left text-[10px] text-slate-500 uppercase tracking-wider font-bold w-28">{t('compare_attribute')}</th>
+              {items.map((item, idx) => (
+                <th key={item.key} className="p-3 text-left align-top min-w-[140px]">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="flex items-center gap-1 text-[10px] font-bold text-purple-400 uppercase tracking-widest">
+                        {item.kind === 'Laptop' ? <Laptop size={12} /> : <PcCase size={12} />} {t('compare_option', { number: idx + 1 })}
+                      </div>
+                      <div className={`font-bold mt-1 line-clamp-2 ${result.winner === idx ? 'text-yellow-300' : 'text-slate-200'}`} title={item.name}>
+                        {item.name}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onRemove(item)}
+                      className="text-slate-500 hover:text-red-400 transition-colors flex-shrink-0"
+                      aria-label={t('aria_remove', { name: item.name })}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {result.rows.map(row => (
+              <tr key={row.id} className={`border-t border-slate-800 ${row.id.startsWith('workload-') ? 'bg-slate-950/40' : ''}`}>
+                <td className="p-3 text-[10px] text-slate-500 uppercase tracking-wider font-bold">{row.label}</td>
+                {row.cells.map((cell, idx) => (
+                  <td
+                    key={items[idx].key}
+                    className={`p-3 ${row.winners.includes(idx) ? 'text-emerald-400 font-bold bg-emerald-900/10' : 'text-slate-300'}`}
+                  >
+                    {cell.display}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Language } from '../types';
+import { ChatMessage } from './ChatMessage';
+import { createTranslator } from '../utils/i18n';
+import { Scale, X } from 'lucide-react';
+
+interface CompareVerdictProps {
+  verdict: string | null;
+  isLoading: boolean;
+  canRun: boolean;
+  language: Language;
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * "Which should I buy?" action and the AI's head-to-head verdict for the Compare tab.
+ */
+export const CompareVerdict: React.FC<CompareVerdictProps> = ({ verdict, isLoading, canRun, language, onRun, onCancel }) => {
+  const { t } = createTranslator(language);
+  return (
+    <div className="space-y-4 mt-4">
+      <div className="flex gap-2">
+        <button
+          onClick={onRun}
+          disabled={!canRun || isLoading}
+          className="flex-1 flex items-center justify-center gap-2 bg-purple-700 hover:bg-purple-600 disabled:bg-slate-800 disabled:text-slate-600 text-white font-bold py-3 rounded-lg transition-colors"
+        >
+          <Scale size={18} /> {isLoading ? t('btn_comparing') : t('btn_which_to_buy')}
+        </button>
+        {isLoading && (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1 px-4 rounded-lg border border-slate-700 text-xs font-bold text-slate-400 hover:text-white hover:border-slate-500 transition-colors"
+          >
+            <X size={14} /> {t('btn_cancel')}
+          </button>
+        )}
+      </div>
+
+      {verdict && (
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-xl p-1">
+          <ChatMessage message={{ id: 'compare-verdict', role: 'model', text: verdict, timestamp: new Date() }} language={language} />
+        </div>
+      )}
+    </div>
+  );
+};
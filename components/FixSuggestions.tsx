@@ -0,0 +1,72 @@
+import React from 'react';
+import { FixRanking, FixSuggestion, Language } from '../types';
+import { createTranslator } from '../utils/i18n';
+import { Wrench, ArrowRight } from 'lucide-react';
+
+interface FixSuggestionsProps {
+  suggestions: FixSuggestion[];
+  rankBy: FixRanking;
+  onRankChange: (rankBy: FixRanking) => void;
+  onApply: (suggestion: FixSuggestion) => void;
+  language: Language;
+}
+
+const formatDelta = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+/**
+ * Minimal-swap fixes for an invalid desktop build, applied in one click
+ */
+export const FixSuggestions: React.FC<FixSuggestionsProps> = ({ suggestions, rankBy, onRankChange, onApply, language }) => {
+  const { t } = createTranslator(language);
+
+  return (
+    <div className="bg-slate-900 border border-amber-900/50 rounded-xl p-4 mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-xs font-semibold tracking-wider text-amber-400 uppercase">
+          <Wrench size={14} /> {t('fix_title')}
+        </div>
+        <div className="flex gap-1 text-[10px] font-bold">
+          {(['price', 'score'] as FixRanking[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onRankChange(option)}
+              className={`px-2 py-1 rounded border transition-colors ${rankBy === option ? 'bg-amber-900/40 border-amber-700 text-amber-300' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+            >
+              {option === 'price' ? t('fix_rank_price') : t('fix_rank_score')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('fix_none')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {suggestions.map((suggestion, i) => (
+            <li key={i} className="flex items-center justify-between gap-3 p-3 bg-slate-950 rounded-lg border border-slate-800">
+              <div className="space-y-1 min-w-0">
+                {suggestion.swaps.map(swap => (
+                  <div key={swap.slot} className="flex items-center gap-1 text-xs text-slate-300 flex-wrap">
+                    <span className="text-slate-500 uppercase text-[10px] font-bold w-20 shrink-0">{swap.slot}</span>
+                    <span className="line-through text-slate-500">{swap.from.name}</span>
+                    <ArrowRight size={12} className="text-amber-400" />
+                    <span>{swap.to.name}</span>
+                  </div>
+                ))}
+                <div className="text-[10px] font-mono text-slate-500">
+                  {t('fix_deltas', { price: formatDelta(suggestion.priceDelta), score: formatDelta(suggestion.scoreDelta) })}
+                </div>
+              </div>
+              <button
+                onClick={() => onApply(suggestion)}
+                className="shrink-0 text-xs font-bold px-3 py-2 rounded-md bg-amber-900/40 text-amber-300 border border-amber-800 hover:bg-amber-900/70 transition-colors"
+              >
+                {t('btn_apply')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Language, Message } from '../types';
+import { ChatMessage } from './ChatMessage';
+import { translate } from '../utils/i18n';
+import { MessageSquare, Send } from 'lucide-react';
+
+interface FollowUpChatProps {
+  messages: Message[];
+  isSending: boolean;
+  language: Language;
+  onSend: (text: string) => void;
+}
+
+/**
+ * Follow-up conversation about the analysed build.
+ * The build and the original analysis are kept as hidden context by the parent.
+ */
+export const FollowUpChat: React.FC<FollowUpChatProps> = ({ messages, isSending, language, onSend }) => {
+  const [draft, setDraft] = useState("");
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || isSending) return;
+    onSend(text);
+    setDraft("");
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800/50 rounded-xl p-4 mt-6">
+      <div className="flex items-center gap-2 mb-4 text-xs font-semibold tracking-wider text-slate-400 uppercase">
+        <MessageSquare size={14} className="text-cyan-400" /> {translate('followup_title', language)}
+      </div>
+
+      {messages.map(message => (
+        <ChatMessage key={message.id} message={message} language={language} />
+      ))}
+
+      {isSending && (
+        <div className="h-10 bg-slate-800 rounded w-2/3 mb-4 animate-pulse"></div>
+      )}
+
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          type="text"
+          className="flex-1 bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-600 focus:ring-1 focus:ring-cyan-900"
+          placeholder={translate('placeholder_followup', language)}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={isSending}
+        />
+        <button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="px-3 rounded bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-800 disabled:text-slate-600 text-white transition-colors"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
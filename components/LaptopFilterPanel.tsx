@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { GpuClass, Language, LaptopFilters, LaptopSortKey, MatchMode, NumberFormatOptions, NumericRange } from '../types';
+import { DEFAULT_LAPTOP_FILTERS, GPU_CLASS_LABELS, LaptopFacets } from '../utils/laptopFilter';
+import { createTranslator, MessageKey, Translator } from '../utils/i18n';
+import { matchProgram, programWorkloads } from '../utils/programRequirements';
+import { performanceBenchmarksData } from '../utils/dataLoader';
+import { RotateCcw, X } from 'lucide-react';
+
+interface LaptopFilterPanelProps {
+  filters: LaptopFilters;
+  facets: LaptopFacets;
+  onChange: (filters: LaptopFilters) => void;
+  sortBy: LaptopSortKey;
+  onSortChange: (sortBy: LaptopSortKey) => void;
+  resultCount: number;
+  language: Language;
+  numberFormat?: NumberFormatOptions;
+}
+
+const SORT_OPTIONS: { key: LaptopSortKey; label: MessageKey }[] = [
+  { key: 'price', label: 'sort_price' },
+  { key: 'specScore', label: 'sort_spec_score' },
+  { key: 'suitability', label: 'sort_suitability' },
+  { key: 'value', label: 'sort_value' }
+];
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">{children}</div>
+);
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`text-xs px-2 py-1 rounded border transition-colors ${active ? 'bg-emerald-900/40 text-emerald-300 border-emerald-700' : 'bg-slate-950 text-slate-400 border-slate-800 hover:border-slate-600'}`}
+  >
+    {children}
+  </button>
+);
+
+const ModeToggle: React.FC<{ mode: MatchMode; onChange: (mode: MatchMode) => void }> = ({ mode, onChange }) => (
+  <div className="flex bg-slate-950 rounded border border-slate-800 text-[10px] font-bold">
+    {(['any', 'all'] as MatchMode[]).map(m => (
+      <button
+        key={m}
+        onClick={() => onChange(m)}
+        className={`px-2 py-0.5 rounded ${mode === m ? 'bg-slate-800 text-emerald-400' : 'text-slate-500'}`}
+      >
+        {m === 'any' ? 'OR' : 'AND'}
+      </button>
+    ))}
+  </div>
+);
+
+interface RangeSelectProps {
+  label: string;
+  unit: string;
+  options: number[];
+  range: NumericRange;
+  onChange: (range: NumericRange) => void;
+  i18n: Translator;
+}
+
+const RangeSelect: React.FC<RangeSelectProps> = ({ label, unit, options, range, onChange, i18n }) => {
+  const parse = (value: string) => (value === '' ? null : Number(value));
+  const selectClass = 'flex-1 bg-slate-950 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <div>
+      <SectionLabel>{label}</SectionLabel>
+      <div className="flex items-center gap-2">
+        <select className={selectClass} value={range.min ?? ''} onChange={(e) => onChange({ ...range, min: parse(e.target.value) })}>
+          <option value="">{i18n.t('label_min')}</option>
+          {options.filter(o => range.max === null || o <= range.max).map(o => <option key={o} value={o}>{o}{unit}</option>)}
+        </select>
+        <span className="text-slate-600 text-xs">–</span>
+        <select className={selectClass} value={range.max ?? ''} onChange={(e) => onChange({ ...range, max: parse(e.target.value) })}>
+          <option value="">{i18n.t('label_max')}</option>
+          {options.filter(o => range.min === null || o >= range.min).map(o => <option key={o} value={o}>{o}{unit}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+/**
+ * Budget & Major tab filter controls.
+ * Empty multi-selects and unset range bounds mean "any".
+ */
+export const LaptopFilterPanel: React.FC<LaptopFilterPanelProps> = ({
+  filters,
+  facets,
+  onChange,
+  sortBy,
+  onSortChange,
+  resultCount,
+  language,
+  numberFormat
+}) => {
+  const [programInput, setProgramInput] = useState('');
+  const i18n = createTranslator(language, numberFormat);
+  const { t } = i18n;
+  const update = (patch: Partial<LaptopFilters>) => onChange({ ...filters, ...patch });
+
+  const catalogued = programWorkloads(filters.programs).map(id => performanceBenchmarksData.workloads[id].name);
+  const uncatalogued = filters.programs.filter(p => matchProgram(p) === null);
+
+  const addPrograms = () => {
+    const added = programInput.split(',').map(p => p.trim()).filter(p => p && !filters.programs.includes(p));
+    if (added.length > 0) update({ programs: [...filters.programs, ...added] });
+    setProgramInput('');
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-5">
+
+      {/* Price Slider */}
+      <div>
+        <div className="flex justify-between text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">
+          <span>{t('label_max_budget')}</span>
+          <span className="text-emerald-400">{i18n.mmk(filters.maxPriceMMK)}</span>
+        </div>
+        <input
+          type="range"
+          min="500000"
+          max="10000000"
+          step="100000"
+          value={filters.maxPriceMMK}
+          onChange={(e) => update({ maxPriceMMK: parseInt(e.target.value) })}
+          className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+        />
+        <div className="flex justify-between text-[10px] text-slate-600 mt-1 font-mono">
+          <span>{t('label_budget_min')}</span>
+          <span>{t('label_budget_max')}</span>
+        </div>
+      </div>
+
+      {/* Majors */}
+      <div>
+        <div className="flex items-center justify-between">
+          <SectionLabel>{t('label_major')}</SectionLabel>
+          <ModeToggle mode={filters.majorMode} onChange={(majorMode) => update({ majorMode })} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {facets.majors.map(m => (
+            <Chip key={m} active={filters.majors.includes(m)} onClick={() => update({ majors: toggle(filters.majors, m) })}>{m}</Chip>
+          ))}
+        </div>
+      </div>
+
+      {/* Programs */}
+      <div>
+        <div className="flex items-center justify-between">
+          <SectionLabel>{t('label_programs')}</SectionLabel>
+          <ModeToggle mode={filters.programMode} onChange={(programMode) => update({ programMode })} />
+        </div>
+        <input
+          type="text"
+          className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500"
+          placeholder={t('placeholder_programs')}
+          value={programInput}
+          onChange={(e) => setProgramInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addPrograms()}
+          onBlur={addPrograms}
+        />
+        {filters.programs.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {filters.programs.map(p => (
+              <span key={p} className="flex items-center gap-1 text-xs px-2 py-1 rounded border bg-emerald-900/40 text-emerald-300 border-emerald-700">
+                {p}
+                <button onClick={() => update({ programs: filters.programs.filter(x => x !== p) })} aria-label={`Remove ${p}`}>
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        {catalogued.length > 0 && (
+          <p className="text-[10px] text-slate-500 mt-2">{t('programs_catalogued', { programs: catalogued.join(', ') })}</p>
+        )}
+        {uncatalogued.length > 0 && (
+          <p className="text-[10px] text-slate-500 mt-1">{t('programs_uncatalogued', { programs: uncatalogued.join(', ') })}</p>
+        )}
+      </div>
+
+      {/* Numeric Ranges */}
+      <div className="grid grid-cols-2 gap-4">
+        <RangeSelect label="RAM" unit="GB" options={facets.ram} range={filters.ram} onChange={(ram) => update({ ram })} i18n={i18n} />
+        <RangeSelect label="SSD" unit="GB" options={facets.ssd} range={filters.ssd} onChange={(ssd) => update({ ssd })} i18n={i18n} />
+        <RangeSelect label={t('label_cpu_cores')} unit="" options={facets.cores} range={filters.cores} onChange={(cores) => update({ cores })} i18n={i18n} />
+        <RangeSelect label={t('label_screen')} unit={'"'} options={facets.screen} range={filters.screen} onChange={(screen) => update({ screen })} i18n={i18n} />
+      </div>
+
+      {/* Multi-selects */}
+      <div>
+        <SectionLabel>{t('label_gpu_class')}</SectionLabel>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(GPU_CLASS_LABELS) as GpuClass[]).map(c => (
+            <Chip key={c} active={filters.gpuClasses.includes(c)} onClick={() => update({ gpuClasses: toggle(filters.gpuClasses, c) })}>
+              {GPU_CLASS_LABELS[c]}
+            </Chip>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <SectionLabel>{t('label_os')}</SectionLabel>
+        <div className="flex flex-wrap gap-2">
+          {facets.os.map(os => (
+            <Chip key={os} active={filters.os.includes(os)} onClick={() => update({ os: toggle(filters.os, os) })}>{os}</Chip>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <SectionLabel>{t('label_brand')}</SectionLabel>
+        <div className="flex flex-wrap gap-2">
+          {facets.brands.map(b => (
+            <Chip key={b} active={filters.brands.includes(b)} onClick={() => update({ brands: toggle(filters.brands, b) })}>{b}</Chip>
+          ))}
+        </div>
+      </div>
+
+      {/* Gaming Toggle */}
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          id="gaming"
+          checked={filters.gamingOnly}
+          onChange={(e) => update({ gamingOnly: e.target.checked })}
+          className="w-4 h-4 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-900"
+        />
+        <label htmlFor="gaming" className="text-sm font-medium text-slate-300 cursor-pointer select-none">
+          {t('label_gaming')} {t('label_gaming_note')}
+        </label>
+      </div>
+
+      {/* Sort + Reset */}
+      <div className="flex items-center gap-3 pt-4 border-t border-slate-800">
+        <select
+          value={sortBy}
+          onChange={(e) => onSortChange(e.target.value as LaptopSortKey)}
+          className="flex-1 bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500"
+        >
+          {SORT_OPTIONS.map(o => <option key={o.key} value={o.key}>{t('sort_prefix')} {t(o.label)}</option>)}
+        </select>
+        <button
+          onClick={() => onChange({ ...DEFAULT_LAPTOP_FILTERS, maxPriceMMK: filters.maxPriceMMK })}
+          className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+        >
+          <RotateCcw size={12} /> {t('btn_clear')}
+        </button>
+      </div>
+      <div className="text-[10px] text-slate-500 font-mono">{t('laptops_match', { count: resultCount })}</div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownProps {
+  text: string;
+}
+
+const HEADING_CLASS: Record<number, string> = {
+  1: 'text-lg font-bold text-white mt-4 mb-2',
+  2: 'text-base font-bold text-white mt-4 mb-2',
+  3: 'text-sm font-bold text-cyan-300 mt-3 mb-1 uppercase tracking-wider'
+};
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'strong': return <strong key={i} className="text-white font-bold">{renderInline(node.children)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-950 border border-slate-800 text-cyan-300 text-[0.85em] font-mono">{node.text}</code>;
+    case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-cyan-400 underline hover:text-cyan-300">{renderInline(node.children)}</a>;
+    case 'break': return <br key={i} />;
+  }
+});
+
+// List items holding a single paragraph render tight, without paragraph spacing
+const renderItem = (blocks: MarkdownBlock[]) =>
+  blocks.length > 0 && blocks[0].type === 'paragraph'
+    ? <>{renderInline(blocks[0].children)}{renderBlocks(blocks.slice(1))}</>
+    : renderBlocks(blocks);
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'heading': {
+      // Nested under the panel's own headings, so "#" starts at h3
+      const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+      return <Tag key={i} className={HEADING_CLASS[block.level] || HEADING_CLASS[3]}>{renderInline(block.children)}</Tag>;
+    }
+    case 'paragraph':
+      return <p key={i} className="my-2">{renderInline(block.children)}</p>;
+    case 'list': {
+      const className = `my-2 pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-slate-500`;
+      const items = block.items.map((item, j) => <li key={j}>{renderItem(item)}</li>);
+      return block.ordered
+        ? <ol key={i} start={block.start} className={className}>{items}</ol>
+        : <ul key={i} className={className}>{items}</ul>;
+    }
+    case 'table':
+      return (
+        <div key={i} className="my-3 overflow-x-auto border border-slate-800 rounded">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-950">
+              <tr>
+                {block.header.map((cell, c) => (
+                  <th key={c} className="p-2 font-bold text-slate-400 border-b border-slate-800" style={{ textAlign: block.align[c] || 'left' }}>{renderInline(cell)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="border-t border-slate-800">
+                  {row.map((cell, c) => <td key={c} className="p-2" style={{ textAlign: block.align[c] || 'left' }}>{renderInline(cell)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'code':
+      return (
+        <pre key={i} className="my-3 p-3 rounded bg-slate-950 border border-slate-800 overflow-x-auto text-xs font-mono text-slate-300">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'blockquote':
+      return <blockquote key={i} className="my-2 pl-3 border-l-2 border-cyan-800 text-slate-400">{renderBlocks(block.children)}</blockquote>;
+    case 'rule':
+      return <hr key={i} className="my-4 border-slate-800" />;
+  }
+});
+
+/**
+ * Renders Markdown from AI responses as React elements.
+ * Parsing never produces HTML strings, so model output cannot inject markup.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  const blocks = React.useMemo(() => parseMarkdown(text), [text]);
+  return <>{renderBlocks(blocks)}</>;
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Language, NumberFormatOptions, ProgramCheck, ProgramShortfall } from '../types';
+import { createTranslator, MessageKey, Translator } from '../utils/i18n';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface ProgramFitProps {
+  check: ProgramCheck;
+  language: Language;
+  numberFormat?: NumberFormatOptions;
+  // Laptop cards show one line per program and only the first shortfall
+  compact?: boolean;
+}
+
+const COMPONENT_LABELS: Record<ProgramShortfall['component'], MessageKey> = {
+  cpu: 'slot_cpu',
+  ram: 'slot_ram',
+  storage: 'slot_storage',
+  gpu: 'slot_gpu',
+  os: 'label_os'
+};
+
+const describe = (shortfall: ProgramShortfall, { t }: Translator) =>
+  t(shortfall.level === 'minimum' ? 'program_shortfall_minimum' : 'program_shortfall_recommended', {
+    component: t(COMPONENT_LABELS[shortfall.component]),
+    actual: shortfall.actual,
+    required: shortfall.required
+  });
+
+/**
+ * Fit of a laptop or desktop build for the programs in "Required Programs",
+ * checked against performance-benchmarks.json (utils/programRequirements.ts)
+ */
+export const ProgramFit: React.FC<ProgramFitProps> = ({ check, language, numberFormat, compact = false }) => {
+  const i18n = createTranslator(language, numberFormat);
+  const { t } = i18n;
+  if (check.fits.length === 0) return null;
+
+  if (compact) {
+    return (
+      <div className="space-y-0.5">
+        {check.fits.map(fit => (
+          <p key={fit.program} className={fit.meetsMinimum ? 'text-slate-400' : 'text-red-400'}>
+            <span className="font-bold">{fit.workload.name}</span> {i18n.number(fit.workload.score)}/100
+            {fit.shortfalls.length > 0 && <span className="text-slate-500"> · {describe(fit.shortfalls[0], i18n)}</span>}
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 mb-6">
+      <div className="text-xs font-semibold tracking-wider text-slate-400 uppercase mb-3">{t('label_programs')}</div>
+      <div className="space-y-3">
+        {check.fits.map(fit => (
+          <div key={fit.program}>
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="flex items-center gap-1.5 text-slate-300">
+                {fit.meetsMinimum ? <CheckCircle2 size={14} className="text-green-500" /> : <XCircle size={14} className="text-red-500" />}
+                {fit.workload.name}
+                {fit.program.toLowerCase() !== fit.workload.name.toLowerCase() && <span className="text-slate-500">({fit.program})</span>}
+              </span>
+              <span className="font-mono text-slate-400">{i18n.number(fit.workload.score)}</span>
+            </div>
+            <p className={`text-[10px] font-bold ${fit.meetsMinimum ? 'text-green-400' : 'text-red-400'}`}>
+              {fit.meetsMinimum ? t('program_meets_minimum') : t('program_below_minimum')}
+            </p>
+            {fit.shortfalls.length > 0 ? (
+              <ul className="mt-1 space-y-0.5">
+                {fit.shortfalls.map((shortfall, i) => (
+                  <li key={i} className={`text-[11px] ${shortfall.level === 'minimum' ? 'text-red-300' : 'text-yellow-300'}`}>
+                    {describe(shortfall, i18n)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-[11px] text-slate-500 mt-1">{t('program_meets_recommended')}</p>
+            )}
+          </div>
+        ))}
+      </div>
+      {check.unknown.length > 0 && (
+        <p className="text-[10px] text-slate-500 mt-3">{t('programs_uncatalogued', { programs: check.unknown.join(', ') })}</p>
+      )}
+    </div>
+  );
+};
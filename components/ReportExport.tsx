@@ -0,0 +1,48 @@
+import React from 'react';
+import { Language } from '../types';
+import { createTranslator } from '../utils/i18n';
+import { Download, Printer } from 'lucide-react';
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'print';
+
+interface ReportExportProps {
+  language: Language;
+  onExport: (format: ExportFormat) => void;
+}
+
+const FILE_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' }
+];
+
+/**
+ * Export actions for the Specialist Analysis panel.
+ * Print opens the print-styled HTML page so it can be saved as PDF.
+ */
+export const ReportExport: React.FC<ReportExportProps> = ({ language, onExport }) => {
+  const { t } = createTranslator(language);
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+      <span className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-widest mr-1">
+        <Download size={12} /> {t('btn_export')}
+      </span>
+      {FILE_FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          className="px-2 py-1 text-xs font-bold text-slate-300 bg-slate-900 border border-slate-800 rounded hover:border-cyan-700 hover:text-cyan-300 transition-colors"
+        >
+          {label}
+        </button>
+      ))}
+      <button
+        onClick={() => onExport('print')}
+        className="flex items-center gap-1 px-2 py-1 text-xs font-bold text-slate-300 bg-slate-900 border border-slate-800 rounded hover:border-cyan-700 hover:text-cyan-300 transition-colors"
+      >
+        <Printer size={12} /> {t('btn_print')}
+      </button>
+    </div>
+  );
+};
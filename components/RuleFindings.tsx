@@ -0,0 +1,96 @@
+import React from 'react';
+import { RuleReport, RuleFinding, FindingSeverity, Language, SlotStatus } from '../types';
+import { createTranslator, MessageKey } from '../utils/i18n';
+import { AlertTriangle, CheckCircle2, XCircle, ShieldCheck } from 'lucide-react';
+
+interface RuleFindingsProps {
+  report: RuleReport;
+  language: Language;
+}
+
+const VERDICT_STYLE: Record<RuleReport['verdict'], { label: MessageKey; className: string }> = {
+  compatible: { label: 'verdict_compatible', className: 'text-green-400 border-green-800 bg-green-900/20' },
+  issues: { label: 'verdict_issues', className: 'text-yellow-400 border-yellow-800 bg-yellow-900/20' },
+  incompatible: { label: 'verdict_incompatible', className: 'text-red-400 border-red-800 bg-red-900/20' }
+};
+
+const failIcon = (severity: FindingSeverity) =>
+  severity === 'critical'
+    ? <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+    : <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />;
+
+/**
+ * Deterministic verdict from the local rule engine.
+ * Rendered independently of the AI analysis so it survives backend outages.
+ */
+export const RuleFindings: React.FC<RuleFindingsProps> = ({ report, language }) => {
+  const { t } = createTranslator(language);
+  const verdict = VERDICT_STYLE[report.verdict];
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-xs font-semibold tracking-wider text-slate-400 uppercase">
+          <ShieldCheck size={14} className="text-cyan-400" /> {t('rules_title')}
+        </div>
+        <span className={`text-xs font-bold px-2 py-1 rounded border ${verdict.className}`}>{t(verdict.label)}</span>
+      </div>
+
+      {report.findings.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('report_no_findings')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {report.findings.map(finding => (
+            <li key={finding.ruleId} className="flex items-start gap-2 text-xs">
+              {finding.passed
+                ? <CheckCircle2 className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+                : failIcon(finding.severity)}
+              <div>
+                <span className="font-bold text-slate-200">{finding.name}</span>
+                <span className="text-slate-600 font-mono ml-1">[{finding.ruleId}]</span>
+                <div className={finding.passed ? 'text-slate-500' : 'text-slate-300'}>{finding.message}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface SlotBadgeProps {
+  status: SlotStatus;
+  findings: RuleFinding[];
+  language: Language;
+}
+
+const BADGE_STYLE: Record<Exclude<SlotStatus, 'unchecked'>, { label: MessageKey; className: string }> = {
+  ok: { label: 'badge_ok', className: 'text-green-400 border-green-800 bg-green-900/20' },
+  warning: { label: 'badge_warning', className: 'text-yellow-400 border-yellow-800 bg-yellow-900/20' },
+  incompatible: { label: 'badge_incompatible', className: 'text-red-400 border-red-800 bg-red-900/20' }
+};
+
+/**
+ * Live per-slot status shown on each Desktop Builder card.
+ * Lists the exact reason for every failed rule touching the slot.
+ */
+export const SlotBadge: React.FC<SlotBadgeProps> = ({ status, findings, language }) => {
+  const { t } = createTranslator(language);
+  if (status === 'unchecked') return null;
+  const badge = BADGE_STYLE[status];
+  const failed = findings.filter(f => !f.passed);
+
+  return (
+    <div className="mt-2 space-y-1">
+      <span className={`inline-block text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${badge.className}`}>
+        {t(badge.label)}
+      </span>
+      {failed.map(finding => (
+        <div key={finding.ruleId} className="flex items-start gap-1 text-[10px] text-slate-400">
+          {failIcon(finding.severity)}
+          <span>{finding.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
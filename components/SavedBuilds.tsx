@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Language, SavedBuild } from '../types';
+import { createTranslator } from '../utils/i18n';
+import { Bookmark, Copy, Laptop, PcCase, Pencil, RotateCcw, Trash2 } from 'lucide-react';
+
+interface SavedBuildsProps {
+  saved: SavedBuild[];
+  canSave: boolean;
+  defaultName: string;
+  language: Language;
+  onSave: (name: string) => void;
+  onRestore: (saved: SavedBuild) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Saved tab: named desktop builds and laptop picks kept in browser storage.
+ * Click a name to rename it; Restore loads the parts and any saved analysis.
+ */
+export const SavedBuilds: React.FC<SavedBuildsProps> = ({
+  saved,
+  canSave,
+  defaultName,
+  language,
+  onSave,
+  onRestore,
+  onRename,
+  onDuplicate,
+  onDelete
+}) => {
+  const { t } = createTranslator(language);
+  const [name, setName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const save = () => {
+    onSave(name);
+    setName('');
+  };
+
+  const startRename = (entry: SavedBuild) => {
+    setEditingId(entry.id);
+    setDraft(entry.name);
+  };
+
+  const finishRename = () => {
+    if (editingId) onRename(editingId, draft);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-4 mb-8">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="flex-1 bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-amber-500"
+          placeholder={defaultName}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && canSave && save()}
+        />
+        <button
+          onClick={save}
+          disabled={!canSave}
+          className="flex items-center gap-2 px-4 bg-amber-700 hover:bg-amber-600 disabled:bg-slate-800 disabled:text-slate-600 text-white text-xs font-bold rounded transition-colors"
+        >
+          <Bookmark size={14} /> {t('btn_save')}
+        </button>
+      </div>
+
+      {saved.length === 0 ? (
+        <div className="p-6 text-center text-sm text-slate-500 border-2 border-dashed border-slate-800 rounded-xl">
+          {t('saved_empty')}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {saved.map(entry => (
+            <div key={entry.id} className="bg-slate-900 border border-slate-800 rounded-lg p-3 hover:border-amber-500/40 transition-colors">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  {editingId === entry.id ? (
+                    <input
+                      autoFocus
+                      className="w-full bg-slate-950 border border-amber-600 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none"
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      onBlur={finishRename}
+                    />
+                  ) : (
+                    <button
+                      onClick={() => startRename(entry)}
+                      className="flex items-center gap-2 text-sm font-bold text-slate-200 hover:text-amber-300 text-left"
+                      title={t('btn_rename')}
+                    >
+                      {entry.build.type === 'Laptop' ? <Laptop size={14} className="flex-shrink-0" /> : <PcCase size={14} className="flex-shrink-0" />}
+                      <span className="truncate">{entry.name}</span>
+                      <Pencil size={10} className="flex-shrink-0 text-slate-600" />
+                    </button>
+                  )}
+                  <div className="text-[10px] text-slate-500 font-mono mt-1">
+                    {new Date(entry.savedAt).toLocaleString()}
+                    {entry.score !== null && <> · {entry.score}/100</>}
+                    {entry.analysis && <> · {t('saved_has_analysis')}</>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => onRestore(entry)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs font-bold text-amber-400 bg-slate-950 border border-slate-800 rounded hover:border-amber-600 transition-colors"
+                  >
+                    <RotateCcw size={12} /> {t('btn_restore')}
+                  </button>
+                  <button onClick={() => onDuplicate(entry.id)} className="p-1.5 text-slate-500 hover:text-slate-200 transition-colors" aria-label={t('aria_duplicate', { name: entry.name })}>
+                    <Copy size={14} />
+                  </button>
+                  <button onClick={() => onDelete(entry.id)} className="p-1.5 text-slate-500 hover:text-red-400 transition-colors" aria-label={t('aria_delete', { name: entry.name })}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Language, NumberFormatOptions, SuitabilityScore } from '../types';
+import { createTranslator } from '../utils/i18n';
+
+interface ScoreBreakdownProps {
+  suitability: SuitabilityScore;
+  language: Language;
+  numberFormat?: NumberFormatOptions;
+}
+
+const barColor = (score: number) => score >= 80 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-500' : 'bg-red-500';
+
+/**
+ * Per-workload suitability scores computed from performance-benchmarks.json
+ */
+export const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ suitability, language, numberFormat }) => {
+  const i18n = createTranslator(language, numberFormat);
+  const { t } = i18n;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 mb-6">
+      <div className="text-xs font-semibold tracking-wider text-slate-400 uppercase mb-3">{t('report_workloads')}</div>
+      <div className="space-y-2">
+        {suitability.workloads.map(workload => (
+          <div key={workload.id} title={`CPU ${workload.breakdown.cpu} · RAM ${workload.breakdown.ram} · ${t('slot_storage')} ${workload.breakdown.storage} · GPU ${workload.breakdown.gpu}`}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-slate-300">{workload.name}</span>
+              <span className="font-mono text-slate-400">{i18n.number(workload.score)}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div className={`h-full ${barColor(workload.score)}`} style={{ width: `${workload.score}%` }}></div>
+            </div>
+          </div>
+        ))}
+      </div>
+      {suitability.cappedReason && (
+        <p className="text-[10px] text-red-400 mt-3">{t('report_capped')}: {t(suitability.cappedReason)}</p>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { formatComponentsForUI } from './utils/dataLoader';
-import { ComponentPart } from './types';
+import { ComponentPart, LocalizedText } from './types';
 
 /**
  * Application Title
@@ -13,60 +13,16 @@ export const APP_TITLE = "UIT Hardware Specialist";
  */
 export const APP_SUBTITLE = "Student Rig Validator & Analyzer";
 
-/**
- * System Instruction for AI
- * 
- * This comprehensive prompt defines the role, context, and expected output
- * format for the Mistral AI model. It acts as the "expert system persona"
- * that guides the LLM's analysis and recommendations.
- * 
- * The instruction covers:
- * - Role definition (UIT Hardware Specialist)
- * - Context about UIT student workloads
- * - Analysis instructions (compatibility, performance, bottlenecks)
- * - Response format requirements (score, markdown structure)
- */
-export const SYSTEM_INSTRUCTION = `
-ROLE:
-You are the "UIT Hardware Specialist," an expert system for the University of Information Technology. 
-Your goal is to validate PC builds and Laptop choices for Students who need to run demanding software.
-
-CONTEXT - UIT STUDENT WORKLOADS:
-1. **Software Engineering**: Visual Studio, IntelliJ, VS Code (Large projects, compiling).
-2. **Mobile Dev**: Android Studio (Heavy RAM & CPU usage for emulators).
-3. **Game/Multimedia**: Unity, Unreal Engine, Blender (Requires strong GPU).
-4. **DevOps/Networking**: Docker, Kubernetes, Virtual Machines (High RAM/Core count).
-5. **Data Science**: Python, Jupyter, Local LLMs (VRAM & CUDA cores preferred).
-
-INSTRUCTIONS:
-Analyze the provided configuration (Desktop Build or Laptop Model).
-1. **Compatibility Check (Desktops)**: (Sockets, RAM type DDR4/5, PSU Wattage, Dimensions).
-2. **Performance Analysis**: Can it handle the workloads above?
-3. **Bottleneck Detection**: Are components balanced?
-4. **Laptop Analysis**: If a laptop is selected, check if thermal throttling or battery life might be issues for a student campus life.
-
-RESPONSE FORMAT (Markdown):
-Start with a strict metadata line: "SCORE: [0-100]" (Overall suitability for a UIT student).
-
-Then provide:
-**✅ COMPATIBLE** (or ❌ INCOMPATIBLE / ⚠️ ISSUES)
-**Summary**: [1-2 sentences]
-
-**Workload Suitability**:
-*   💻 **Coding & Compiling**: [Rating/Comment]
-*   📱 **Mobile Emulation**: [Rating/Comment]
-*   🎨 **Graphics & AI**: [Rating/Comment]
-
-**Expert Verdict**: Detailed advice on what to change or why it's great.
-`;
-
 /**
  * UI Text Translations
  * 
  * Bilingual text content for the user interface.
  * Supports English (en) and Burmese (my) languages.
  * 
- * Each key contains an object with 'en' and 'my' properties.
+ * Each key contains an object with 'en' and 'my' properties. Values may use
+ * {name} placeholders, and counted messages give { one, other } plural forms.
+ * Read them through utils/i18n.ts; the `satisfies` check below fails the
+ * type-check when a key is missing either language.
  */
 export const UI_TEXT = {
   header_subtitle: { en: "Student Rig Validator & Analyzer", my: "ကျောင်းသားသုံး ကွန်ပျူတာ အထောက်အကူပြုစနစ်" },
@@ -77,6 +33,8 @@ export const UI_TEXT = {
   section_desktop: { en: "Component Selection", my: "ပစ္စည်းများ ရွေးချယ်ရန်" },
   section_laptop: { en: "Model Selection", my: "မော်ဒယ် ရွေးချယ်ရန်" },
   btn_reset: { en: "Reset", "my": "ပြန်စမည်" },
+  btn_copy_link: { en: "Copy link", my: "လင့်ခ် ကူးမည်" },
+  link_copied: { en: "Link copied", my: "လင့်ခ် ကူးပြီးပါပြီ" },
   btn_analyze: { en: "VALIDATE & CHECK SUITABILITY", "my": "စစ်ဆေးမည်" },
   btn_analyzing: { en: "Analyzing System...", "my": "စစ်ဆေးနေပါသည်..." },
   select_prefix: { en: "Select", "my": "ရွေးချယ်ပါ" },
@@ -90,11 +48,11 @@ export const UI_TEXT = {
 
   // Filter Controls
   label_max_budget: { en: "Max Budget", my: "အများဆုံး ဘတ်ဂျက်" },
-  label_major: { en: "Your Major", my: "သင့် မေဂျာ" },
+  label_major: { en: "Your Majors", my: "သင့် မေဂျာများ" },
   label_programs: { en: "Required Programs", my: "လိုအပ်သော ပရိုဂရမ်များ" },
   label_gaming: { en: "I also want to play games", my: "ဂိမ်းဆော့ရန်အတွက်ပါ လိုချင်သည်" },
   label_gaming_note: { en: "(Requires dedicated GPU)", my: "(သီးသန့် GPU လိုအပ်သည်)" },
-  placeholder_programs: { en: "e.g. AutoCAD, Adobe Premiere...", my: "ဥပမာ - AutoCAD, Adobe Premiere..." },
+  placeholder_programs: { en: "e.g. Unity, Webots — press Enter to add", my: "ဥပမာ - Unity, Webots — Enter နှိပ်၍ ထည့်ပါ" },
   option_any_major: { en: "Any Major", my: "မေဂျာ အားလုံး" },
 
   // Results & Cards
@@ -104,18 +62,177 @@ export const UI_TEXT = {
   lbl_compare: { en: "Compare", my: "နှိုင်းယှဉ်မည်" },
 
   // Compare View
-  compare_empty: { en: "Select laptops from the Budget or Laptop tabs to compare.", my: "နှိုင်းယှဉ်ရန် Laptop များကို Budget (သို့) Laptop တက်ဘ်မှ ရွေးချယ်ပါ။" },
+  compare_empty: { en: "Select laptops from the Budget tab or add desktop builds to compare (up to {max}).", my: "နှိုင်းယှဉ်ရန် Laptop များကို Budget တက်ဘ်မှ ရွေးပါ (သို့) Desktop Build များ ထည့်ပါ (အများဆုံး {max} ခု)။" },
   verdict_gaming: { en: "Gaming Verdict", my: "ဂိမ်းကစားနိုင်စွမ်း" },
   verdict_capable: { en: "Capable", my: "အဆင်ပြေသည်" },
   verdict_basic: { en: "Basic / Casual Only", my: "သာမန်အသုံးပြုမှုသာ" },
+  compare_winner: { en: "Overall Winner", my: "အကောင်းဆုံး ရွေးချယ်မှု" },
+  compare_attribute: { en: "Attribute", my: "အချက်" },
+  compare_option: { en: "Option {number}", my: "ရွေးချယ်မှု {number}" },
+  aria_remove: { en: "Remove {name}", my: "{name} ကို ဖယ်မည်" },
 
   label_price: { en: "Price", my: "ဈေးနှုန်း" },
   label_specs: { en: "Specs", my: "အသေးစိတ်" },
   label_program_list: { en: "Programs", my: "ပရိုဂရမ်များ" },
 
   battery_est: { en: "Est. Battery Life", "my": "ဘက်ထရီကြာချိန် (ခန့်မှန်း)" },
-  btn_translate: { en: "Translate to Burmese", "my": "မြန်မာဘာသာသို့ ပြန်ဆိုရန်" }
-};
+  btn_translate: { en: "Translate to Burmese", "my": "မြန်မာဘာသာသို့ ပြန်ဆိုရန်" },
+  btn_translate_en: { en: "Translate to English", my: "အင်္ဂလိပ်ဘာသာသို့ ပြန်ဆိုရန်" },
+  btn_translating: { en: "Translating...", my: "ဘာသာပြန်နေပါသည်..." },
+  lang_en: { en: "English", my: "အင်္ဂလိပ်" },
+  lang_my: { en: "Burmese", my: "မြန်မာ" },
+  translation_terms_altered: { en: "The translation may have changed these technical terms: {terms}", my: "ဘာသာပြန်ရာတွင် ဤနည်းပညာဆိုင်ရာ စကားလုံးများ ပြောင်းသွားနိုင်သည် - {terms}" },
+  btn_which_to_buy: { en: "Which should I buy?", my: "ဘယ်ဟာ ဝယ်သင့်သလဲ?" },
+  btn_comparing: { en: "Comparing options...", my: "နှိုင်းယှဉ်နေပါသည်..." },
+  cached_result: { en: "Cached result from", my: "Cache မှ ရလဒ်၊ သိမ်းခဲ့ချိန်" },
+
+  // Report Export
+  btn_export: { en: "Export", my: "ထုတ်ယူမည်" },
+  btn_print: { en: "Print / PDF", my: "ပရင့် / PDF" },
+  report_title: { en: "UIT Hardware Suitability Report", my: "UIT ကွန်ပျူတာ သင့်လျော်မှု အစီရင်ခံစာ" },
+  report_generated: { en: "Generated", my: "ထုတ်ယူသည့်အချိန်" },
+  report_device: { en: "Device Type", my: "စက်အမျိုးအစား" },
+  report_components: { en: "Components", my: "အစိတ်အပိုင်းများ" },
+  report_component: { en: "Component", my: "အစိတ်အပိုင်း" },
+  report_total: { en: "Estimated Total", my: "ခန့်မှန်း စုစုပေါင်း" },
+  report_compatibility: { en: "Compatibility Findings", my: "ကိုက်ညီမှု စစ်ဆေးချက်များ" },
+  report_no_findings: { en: "No compatibility rules apply to this selection.", my: "ဤရွေးချယ်မှုအတွက် သက်ဆိုင်သော စည်းမျဉ်း မရှိပါ။" },
+  report_workloads: { en: "Workload Breakdown", my: "အလုပ်အမျိုးအစားအလိုက် ရမှတ်" },
+  report_score: { en: "Score", my: "ရမှတ်" },
+  report_capped: { en: "Overall score capped", my: "စုစုပေါင်းရမှတ်ကို ကန့်သတ်ထားသည်" },
+  capped_incompatible: { en: "Build has critical compatibility errors", my: "Build တွင် ပြင်းထန်သော ကိုက်ညီမှု အမှားများ ရှိသည်" },
+  report_ai_verdict: { en: "Specialist Analysis", my: "ကျွမ်းကျင်သူ သုံးသပ်ချက်" },
+  slot_cpu: { en: "Processor (CPU)", my: "ပရိုဆက်ဆာ (CPU)" },
+  slot_gpu: { en: "Graphics (GPU)", my: "ဂရပ်ဖစ် (GPU)" },
+  slot_motherboard: { en: "Motherboard", my: "မားသားဘုတ်" },
+  slot_ram: { en: "Memory (RAM)", my: "မှတ်ဉာဏ် (RAM)" },
+  slot_storage: { en: "Storage", my: "သိုလှောင်မှု" },
+  slot_psu: { en: "Power Supply", my: "ပါဝါ ထောက်ပံ့ကိရိယာ" },
+  slot_pcCase: { en: "Case", my: "ကေ့စ်" },
+  slot_laptop: { en: "Laptop", my: "Laptop" },
+  verdict_compatible: { en: "✅ COMPATIBLE", my: "✅ ကိုက်ညီသည်" },
+  verdict_issues: { en: "⚠️ ISSUES", my: "⚠️ ပြဿနာများ ရှိသည်" },
+  verdict_incompatible: { en: "❌ INCOMPATIBLE", my: "❌ မကိုက်ညီပါ" },
+
+  // Rule Engine
+  rules_title: { en: "Rule Engine", my: "စည်းမျဉ်း စစ်ဆေးမှု" },
+  badge_ok: { en: "Compatible", my: "ကိုက်ညီသည်" },
+  badge_warning: { en: "Warning", my: "သတိပေးချက်" },
+  badge_incompatible: { en: "Incompatible", my: "မကိုက်ညီပါ" },
+  fix_title: { en: "Fix My Build", my: "Build ကို ပြင်ရန်" },
+  fix_rank_price: { en: "Cheapest", my: "အသက်သာဆုံး" },
+  fix_rank_score: { en: "Best Score", my: "ရမှတ် အကောင်းဆုံး" },
+  fix_none: { en: "No fix found within three part swaps. Try choosing a different CPU or motherboard.", my: "ပစ္စည်း သုံးခုအထိ လဲကြည့်သော်လည်း ပြင်ဆင်နည်း မတွေ့ပါ။ အခြား CPU သို့မဟုတ် Motherboard ကို ရွေးကြည့်ပါ။" },
+  fix_deltas: { en: "Price {price} USD · Score {score}", my: "ဈေးနှုန်း {price} USD · ရမှတ် {score}" },
+  btn_apply: { en: "Apply", my: "အသုံးချမည်" },
+
+  // Saved Builds
+  tab_saved: { en: "Saved", my: "သိမ်းထားသည်များ" },
+  btn_save: { en: "Save", my: "သိမ်းမည်" },
+  btn_restore: { en: "Restore", my: "ပြန်ဖွင့်မည်" },
+  btn_rename: { en: "Rename", my: "အမည်ပြောင်းမည်" },
+  saved_has_analysis: { en: "AI analysis saved", my: "AI သုံးသပ်ချက် သိမ်းထားသည်" },
+  aria_duplicate: { en: "Duplicate {name}", my: "{name} ကို ပွားမည်" },
+  aria_delete: { en: "Delete {name}", my: "{name} ကို ဖျက်မည်" },
+  saved_empty: { en: "No saved builds yet. Save a desktop build or laptop pick to keep it after a refresh.", my: "သိမ်းထားသော Build မရှိသေးပါ။ Refresh လုပ်ပြီးနောက် ပြန်ရရန် Desktop Build သို့မဟုတ် Laptop ကို သိမ်းပါ။" },
+
+  // Header & Navigation
+  btn_language: { en: "MM / မြန်မာ", my: "EN / English" },
+  btn_numerals: { en: "Myanmar numerals", my: "မြန်မာ ဂဏန်း" },
+  db_active: { en: "DB: ACTIVE", my: "DB: အသုံးပြုနေသည်" },
+  title_desktop: { en: "Desktop Builder", my: "Desktop တပ်ဆင်ရန်" },
+  title_laptop: { en: "Laptop Search", my: "Laptop ရှာဖွေရန်" },
+  title_saved: { en: "Saved Builds", my: "သိမ်းထားသော Build များ" },
+  share_problems: { en: "Shared link opened with problems", my: "မျှဝေထားသော လင့်ခ်တွင် ပြဿနာအချို့ ရှိသည်" },
+  share_bad_version: { en: "This link uses format version {version}; this app reads version {supported}. Nothing was restored.", my: "ဤလင့်ခ်သည် ပုံစံ ဗားရှင်း {version} ကို သုံးထားပြီး ဤ App သည် ဗားရှင်း {supported} ကိုသာ ဖတ်နိုင်သည်။ မည်သည့်အရာမျှ ပြန်မဖွင့်ရပါ။" },
+  share_unknown_part: { en: "Unknown or retired part ({part}) - left empty", my: "မသိသော (သို့) ရပ်ဆိုင်းထားသော ပစ္စည်း ({part}) - ဗလာ ထားခဲ့သည်" },
+  share_bad_budget: { en: "Unreadable budget \"{value}\" - using {budget} MMK", my: "ဖတ်မရသော ဘတ်ဂျက် \"{value}\" - {budget} ကျပ်ကို သုံးထားသည်" },
+  share_bad_range: { en: "Unreadable {field} range \"{value}\" - ignored", my: "ဖတ်မရသော {field} အပိုင်းအခြား \"{value}\" - ချန်လှပ်ထားသည်" },
+  share_unknown_gpu: { en: "Unknown GPU class \"{value}\" - ignored", my: "မသိသော GPU အဆင့် \"{value}\" - ချန်လှပ်ထားသည်" },
+  share_unknown_sort: { en: "Unknown sort \"{value}\" - ignored", my: "မသိသော စီစဉ်ပုံ \"{value}\" - ချန်လှပ်ထားသည်" },
+  btn_dismiss: { en: "Dismiss", my: "ပိတ်မည်" },
+  btn_cancel: { en: "Cancel", my: "ပယ်ဖျက်မည်" },
+
+  // Desktop & Laptop Pickers
+  btn_add_build_compare: { en: "Add Build to Compare ({count}/{max})", my: "Build ကို နှိုင်းယှဉ်ရန် ထည့်မည် ({count}/{max})" },
+  btn_remove_build_compare: { en: "Remove Build from Compare", my: "Build ကို နှိုင်းယှဉ်မှုမှ ဖယ်မည်" },
+  placeholder_laptop_search: { en: "Search by name, specs, or brand...", my: "အမည်၊ အသေးစိတ် (သို့) Brand ဖြင့် ရှာပါ..." },
+  label_best_for: { en: "Best for:", my: "အသင့်တော်ဆုံး -" },
+  laptop_scores: { en: "Spec Score {spec} · Suitability {score}/100 · Value {value} pts / 1M MMK", my: "Spec ရမှတ် {spec} · သင့်လျော်မှု {score}/100 · တန်ဖိုး {value} မှတ် / ကျပ် ၁၀ သိန်း" },
+
+  // Build Generator
+  generator_title: { en: "Desktop Build Generator", my: "Desktop Build ဖန်တီးစနစ်" },
+  generator_workloads: { en: "Workloads", my: "အလုပ်အမျိုးအစားများ" },
+  generator_using_majors: { en: "Using the default workloads for {majors}.", my: "{majors} ၏ မူလ အလုပ်အမျိုးအစားများကို သုံးထားသည်။" },
+  generator_using_programs: { en: "Using the requirements of {programs}.", my: "{programs} ၏ လိုအပ်ချက်များကို သုံးထားသည်။" },
+  generator_using_both: { en: "Using the default workloads for {majors} and the requirements of {programs}.", my: "{majors} ၏ မူလ အလုပ်အမျိုးအစားများနှင့် {programs} ၏ လိုအပ်ချက်များကို သုံးထားသည်။" },
+  generator_core: { en: "Optimising for the core UIT workloads.", my: "UIT ၏ အဓိက အလုပ်အမျိုးအစားများအတွက် ရွေးချယ်ထားသည်။" },
+  btn_generate: { en: "Generate Builds under {budget}", my: "{budget} အောက် Build များ ဖန်တီးမည်" },
+  generator_none: { en: "No compatible desktop build fits this budget. Try raising the budget.", my: "ဤဘတ်ဂျက်အတွင်း ကိုက်ညီသော Desktop Build မရှိပါ။ ဘတ်ဂျက်ကို မြှင့်ကြည့်ပါ။" },
+  generator_build: { en: "Build {number}", my: "Build {number}" },
+  btn_open_builder: { en: "Open in Desktop Builder", my: "Desktop Builder တွင် ဖွင့်မည်" },
+  lbl_comparing: { en: "Comparing", my: "နှိုင်းယှဉ်နေသည်" },
+
+  // Filter Panel
+  label_budget_min: { en: "5 Lakhs", my: "၅ သိန်း" },
+  label_budget_max: { en: "100 Lakhs", my: "၁၀၀ သိန်း" },
+  label_cpu_cores: { en: "CPU Cores", my: "CPU Core အရေအတွက်" },
+  label_screen: { en: "Screen", my: "မျက်နှာပြင်" },
+  label_gpu_class: { en: "GPU Class", my: "GPU အဆင့်" },
+  label_os: { en: "Operating System", my: "Operating System" },
+  label_brand: { en: "Brand", my: "Brand" },
+  label_min: { en: "Min", my: "အနည်းဆုံး" },
+  label_max: { en: "Max", my: "အများဆုံး" },
+  sort_prefix: { en: "Sort:", my: "စီရန် -" },
+  sort_price: { en: "Price (low → high)", my: "ဈေးနှုန်း (နည်း → များ)" },
+  sort_spec_score: { en: "Spec Score", my: "Spec ရမှတ်" },
+  sort_suitability: { en: "UIT Suitability", my: "UIT သင့်လျော်မှု" },
+  sort_value: { en: "Value per MMK", my: "ကျပ်တစ်ကျပ်လျှင် တန်ဖိုး" },
+  btn_clear: { en: "Clear", my: "ရှင်းမည်" },
+  laptops_match: {
+    en: { one: "{count} laptop matches", other: "{count} laptops match" },
+    my: { other: "ကိုက်ညီသော Laptop {count} လုံး" }
+  },
+
+  // Program Requirements
+  programs_catalogued: { en: "Checked against hardware requirements: {programs}", my: "Hardware လိုအပ်ချက်များဖြင့် စစ်ဆေးထားသည် - {programs}" },
+  programs_uncatalogued: { en: "Not in the requirements catalogue, matched by laptop program lists: {programs}", my: "လိုအပ်ချက် စာရင်းတွင် မပါဝင်သဖြင့် Laptop ပရိုဂရမ်စာရင်းဖြင့် စစ်ထားသည် - {programs}" },
+  program_meets_minimum: { en: "Meets minimum", my: "အနည်းဆုံး လိုအပ်ချက် ပြည့်မီသည်" },
+  program_below_minimum: { en: "Below minimum", my: "အနည်းဆုံး လိုအပ်ချက် မပြည့်မီပါ" },
+  program_meets_recommended: { en: "Meets every recommended requirement", my: "အကြံပြု လိုအပ်ချက်အားလုံး ပြည့်မီသည်" },
+  program_shortfall_minimum: { en: "{component}: {actual}, needs {required}", my: "{component} - {actual} သာရှိသည်၊ {required} လိုအပ်သည်" },
+  program_shortfall_recommended: { en: "{component}: {actual}, {required} recommended", my: "{component} - {actual} ရှိသည်၊ {required} အကြံပြုသည်" },
+
+  // Analysis Panel
+  ai_score_mismatch: { en: "AI reported {score}/100 - computed score shown", my: "AI က {score}/100 ဟု ဖော်ပြသည် - တွက်ချက်ထားသော ရမှတ်ကို ပြထားသည်" },
+  analysis_result: { en: "Analysis Result", my: "စစ်ဆေးမှု ရလဒ်" },
+  analysis_workloads: { en: "Workload Suitability", my: "အလုပ်အမျိုးအစားအလိုက် သင့်လျော်မှု" },
+  analysis_issues: { en: "Issues", my: "ပြဿနာများ" },
+  analysis_verdict: { en: "Expert Verdict", my: "ကျွမ်းကျင်သူ အကြံပြုချက်" },
+  rating_excellent: { en: "Excellent", my: "အလွန်ကောင်း" },
+  rating_good: { en: "Good", my: "ကောင်း" },
+  rating_adequate: { en: "Adequate", my: "လုံလောက်" },
+  rating_poor: { en: "Poor", my: "အားနည်း" },
+  rating_unusable: { en: "Unusable", my: "မသုံးနိုင်" },
+  analysis_cancelled: { en: "(Analysis cancelled)", my: "(စစ်ဆေးမှုကို ပယ်ဖျက်လိုက်သည်)" },
+  comparison_cancelled: { en: "(Comparison cancelled)", my: "(နှိုင်းယှဉ်မှုကို ပယ်ဖျက်လိုက်သည်)" },
+  error_analysis: { en: "Error analyzing build. Please try again.", my: "Build ကို စစ်ဆေးရာတွင် အမှားဖြစ်သည်။ ထပ်ကြိုးစားပါ။" },
+  error_comparison: { en: "Error comparing options. Please try again.", my: "နှိုင်းယှဉ်ရာတွင် အမှားဖြစ်သည်။ ထပ်ကြိုးစားပါ။" },
+  error_message: { en: "Error: {message}", my: "အမှား - {message}" },
+  followup_title: { en: "Follow-up Questions", my: "ထပ်မံ မေးမြန်းရန်" },
+  placeholder_followup: { en: "e.g. \"What if I swap to 32GB?\"", my: "ဥပမာ - \"32GB သို့ ပြောင်းလျှင် ဘယ်လိုလဲ?\"" },
+
+  // Alerts & Prompts
+  alert_select_desktop: { en: "Please select at least a CPU, Motherboard, and RAM.", my: "CPU၊ Motherboard နှင့် RAM ကို အနည်းဆုံး ရွေးချယ်ပါ။" },
+  alert_select_laptop: { en: "Please select a Laptop model.", my: "Laptop မော်ဒယ် တစ်ခု ရွေးချယ်ပါ။" },
+  alert_translate_failed: { en: "Translation failed. Please try again.", my: "ဘာသာပြန်ခြင်း မအောင်မြင်ပါ။ ထပ်ကြိုးစားပါ။" },
+  alert_popup_blocked: { en: "Pop-ups are blocked. Use the HTML export and print it instead.", my: "Pop-up များကို ပိတ်ထားသည်။ HTML အဖြစ် ထုတ်ယူပြီး ပရင့်ထုတ်ပါ။" },
+  alert_missing_parts: {
+    en: { one: "A part is no longer in the database and was left empty:\n{parts}", other: "Some parts are no longer in the database and were left empty:\n{parts}" },
+    my: { other: "အောက်ပါ ပစ္စည်းများသည် database တွင် မရှိတော့သဖြင့် ဗလာ ထားခဲ့သည် -\n{parts}" }
+  },
+  prompt_copy_link: { en: "Copy this link:", my: "ဤလင့်ခ်ကို ကူးယူပါ -" }
+} satisfies Record<string, LocalizedText>;
 
 /**
  * Component Database
@@ -1,7 +1,15 @@
 const express = require('express');
 const cors = require('cors');
-const { Mistral } = require('@mistralai/mistralai');
 const dotenv = require('dotenv');
+const path = require('path');
+const { createProvider } = require('./server/providers');
+const { createResponseCache, chatCacheKey } = require('./server/cache');
+const { parseChatRequest, LIMITS } = require('./server/validation');
+const { createConversationStore } = require('./server/conversations');
+const { renderChat, listTemplates } = require('./server/prompts');
+const { validateStructuredAnalysis } = require('./server/analysisSchema');
+const { technicalTerms, missingTerms } = require('./server/terms');
+const { reject, corsAllowlist, createRateLimiter, requireAdminToken, bodyErrorHandler } = require('./server/security');
 
 // Load environment variables
 dotenv.config();
@@ -9,76 +17,196 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy, set TRUST_PROXY (e.g. "1") so rate limits see the client IP
+if (process.env.TRUST_PROXY) app.set('trust proxy', process.env.TRUST_PROXY);
+
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+    .split(',').map(o => o.trim()).filter(Boolean);
+
 // Middleware
-app.use(cors());
-app.use(express.json());
+app.use(corsAllowlist(CORS_ORIGINS));
+app.use(cors({ origin: CORS_ORIGINS }));
+app.use(express.json({ limit: process.env.BODY_LIMIT || '100kb' }));
+app.use(bodyErrorHandler);
+
+const chatRateLimit = createRateLimiter({
+    windowMs: Number(process.env.RATE_LIMIT_WINDOW_SECONDS || 60) * 1000,
+    max: Number(process.env.RATE_LIMIT_MAX || 20)
+});
 
-// Initialize Mistral client
-let mistralClient = null;
+// Initialize the LLM provider (see server/providers for LLM_PROVIDER / LLM_MODEL)
+let provider = null;
 
-const initializeMistral = () => {
-    const apiKey = process.env.MISTRAL_API_KEY;
-    if (!apiKey) {
-        console.error('MISTRAL_API_KEY is not set in environment variables');
-        return false;
-    }
+const initializeProvider = () => {
     try {
-        mistralClient = new Mistral({ apiKey });
-        console.log('✅ Mistral client initialized successfully');
+        provider = createProvider();
+        console.log(`✅ LLM provider initialized: ${provider.name} (${provider.model})`);
         return true;
     } catch (error) {
-        console.error('❌ Failed to initialize Mistral client:', error.message);
+        console.error('❌ Failed to initialize LLM provider:', error.message);
         return false;
     }
 };
 
 // Initialize on startup
-initializeMistral();
+initializeProvider();
+
+// Analysis response cache (CACHE_FILE="" keeps it in memory only)
+const responseCache = createResponseCache({
+    ttlMs: Number(process.env.CACHE_TTL_HOURS || 24) * 60 * 60 * 1000,
+    maxEntries: Number(process.env.CACHE_MAX_ENTRIES || 500),
+    filePath: process.env.CACHE_FILE === '' ? null : path.resolve(process.env.CACHE_FILE || '.cache/responses.json')
+});
+
+// Follow-up threads (server/conversations.js), in memory only
+const conversations = createConversationStore({
+    ttlMs: 2 * 60 * 60 * 1000,
+    maxEntries: 1000,
+    maxTurns: LIMITS.historyTurns
+});
+
+['SIGINT', 'SIGTERM'].forEach(signal => process.on(signal, () => {
+    responseCache.flush();
+    process.exit(0);
+}));
+
+/**
+ * Validate the body and render it into a provider call. A follow-up is
+ * attached to its stored thread, which the prompt replays.
+ * Sends the 4xx/5xx response itself and returns null when the request cannot proceed.
+ */
+const prepareChat = (req, res, body = req.body) => {
+    if (!provider && !initializeProvider()) {
+        res.status(500).json({
+            error: 'LLM provider not initialized. Please check server configuration.'
+        });
+        return null;
+    }
+
+    const { request, errors } = parseChatRequest(body);
+    if (errors) {
+        reject(req, res, 400, `invalid ${body?.task || 'chat'} request: ${errors.join('; ')}`,
+            { error: 'Invalid request', details: errors });
+        return null;
+    }
+
+    if (request.task === 'followup') {
+        request.thread = conversations.get(request.analysisId);
+        if (!request.thread) {
+            reject(req, res, 404, 'unknown or expired analysisId',
+                { error: 'This analysis has expired. Run the analysis again to ask follow-up questions.' });
+            return null;
+        }
+    }
+
+    return { request, ...renderChat(request) };
+};
+
+// Most validation errors quoted back to the model in a JSON repair turn
+const MAX_REPAIR_ERRORS = 30;
+
+/**
+ * Check a JSON-mode analysis reply against the StructuredAnalysis contract and,
+ * when it fails, ask the provider once to fix it. The repair turn replays the
+ * model's own reply with the server's error list, never text from the client.
+ *
+ * @returns { text, analysis } with the first or the repaired reply and its
+ *          normalised analysis, or analysis null when it is still invalid
+ */
+const repairStructured = async (request, text, signal) => {
+    const { analysis, errors } = validateStructuredAnalysis(text);
+    if (analysis) return { text, analysis };
+
+    console.warn(`⚠️  Structured analysis failed validation, repairing: ${errors.join('; ')}`);
+    const { system, messages } = renderChat(request, { previous: text, errors: errors.slice(0, MAX_REPAIR_ERRORS) });
+    const repaired = await provider.complete({ system, messages, json: true, signal });
+    const result = validateStructuredAnalysis(repaired || '');
+    if (!result.analysis) console.warn(`⚠️  Structured analysis still invalid after repair: ${result.errors.join('; ')}`);
+    return { text: repaired, analysis: result.analysis };
+};
+
+// Final-event fields of a reply: JSON-mode requests also get the server-validated
+// analysis (null when the reply does not meet the contract)
+const analysisFields = (request, text) =>
+    request.json ? { analysis: validateStructuredAnalysis(text).analysis } : {};
+
+// Final-event fields that keep the conversation on the server: an analysis reply
+// starts a follow-up thread and returns its analysisId, a follow-up answer is
+// added to its thread
+const threadFields = (request, text) => {
+    if (request.task === 'analysis') return { analysisId: conversations.start(request, text) };
+    if (request.task === 'followup') conversations.append(request.analysisId, request.question, text);
+    return {};
+};
+
+// Cache key of a prepared chat under the current provider (see chatCacheKey), or
+// null for the mock provider: its replies cost nothing, and its "translations" are
+// the untranslated source text, which must never reach the persisted cache
+const resolveCacheKey = (chat) => provider.name === 'mock'
+    ? null
+    : chatCacheKey(chat.request, { ...chat, model: `${provider.name}/${provider.model}` });
+
+// Admin endpoints need ADMIN_TOKEN in the x-admin-token header; they are
+// disabled while no token is configured
+const requireAdmin = requireAdminToken(process.env.ADMIN_TOKEN);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
     res.json({
         status: 'ok',
-        mistralConnected: mistralClient !== null,
+        providerReady: provider !== null,
+        provider: provider ? provider.name : (process.env.LLM_PROVIDER || null),
+        model: provider ? provider.model : null,
         timestamp: new Date().toISOString()
     });
 });
 
-// Chat endpoint - proxy to Mistral API
-app.post('/api/chat', async (req, res) => {
+// Chat endpoint - renders the structured request and proxies it to the LLM provider.
+// An analysis reply carries `analysisId`, which follow-up requests send back.
+app.post('/api/chat', chatRateLimit, async (req, res) => {
     try {
-        if (!mistralClient) {
-            const initialized = initializeMistral();
-            if (!initialized) {
-                return res.status(500).json({
-                    error: 'Mistral client not initialized. Please check server configuration.'
-                });
-            }
-        }
+        const chat = prepareChat(req, res);
+        if (!chat) return;
+        const { request, system, messages, promptVersion } = chat;
 
-        const { message, systemInstruction } = req.body;
+        console.log(`📨 Received ${request.task} request (${messages.length} turn(s)${request.json ? ', JSON mode' : ''}, prompt ${promptVersion})`);
 
-        if (!message) {
-            return res.status(400).json({ error: 'Message is required' });
+        const cache = resolveCacheKey(chat);
+        const hit = cache ? responseCache.get(cache.key) : null;
+        if (hit) {
+            console.log('🗄️  Chat response served from cache');
+            return res.json({
+                response: hit.response,
+                cached: true,
+                cachedAt: hit.createdAt,
+                promptVersion,
+                ...analysisFields(request, hit.response),
+                ...threadFields(request, hit.response)
+            });
         }
 
-        console.log('📨 Received chat request');
-
-        const chatResponse = await mistralClient.chat.complete({
-            model: 'mistral-large-latest',
-            messages: [
-                { role: 'system', content: systemInstruction || 'You are a helpful assistant.' },
-                { role: 'user', content: message }
-            ],
+        let responseText = await provider.complete({
+            system,
+            messages,
+            // "json" asks the model for a single JSON object (structured analyses)
+            json: Boolean(request.json)
         });
 
-        if (chatResponse.choices && chatResponse.choices.length > 0 && chatResponse.choices[0].message.content) {
-            const responseText = chatResponse.choices[0].message.content;
+        // An invalid JSON reply is still returned with analysis null but never cached
+        let extra = {};
+        if (responseText && request.json) {
+            const repaired = await repairStructured(request, responseText);
+            responseText = repaired.text;
+            extra = { analysis: repaired.analysis };
+        }
+
+        if (responseText) {
             console.log('✅ Chat response received');
-            return res.json({ response: responseText });
+            if (cache && extra.analysis !== null) responseCache.set(cache.key, responseText, cache.meta);
+            return res.json({ response: responseText, cached: false, promptVersion, ...extra, ...threadFields(request, responseText) });
         }
 
-        return res.status(500).json({ error: 'Received empty response from Mistral' });
+        return res.status(500).json({ error: `Received empty response from ${provider.name}` });
 
     } catch (error) {
         console.error('❌ Chat error:', error.message);
@@ -89,7 +217,159 @@ app.post('/api/chat', async (req, res) => {
     }
 });
 
+// Streaming chat endpoint - same body as /api/chat, replies as server-sent events.
+// Each event is `data: {"delta": "..."}`; the stream ends with `data: {"done": true}`
+// or `data: {"error": "..."}`. A JSON analysis that needed the repair turn gets
+// `data: {"replace": "..."}` with the repaired reply before `done`, and its `done`
+// event carries `analysis`: the validated StructuredAnalysis, or null. The `done`
+// event of an analysis also carries `analysisId` for follow-up questions.
+app.post('/api/chat/stream', chatRateLimit, async (req, res) => {
+    let chat;
+    try {
+        chat = prepareChat(req, res);
+    } catch (error) {
+        // Nothing has been streamed yet, so this can still be a plain JSON error
+        console.error('❌ Streaming chat error:', error.message);
+        return res.status(500).json({ error: 'Failed to get response from AI', details: error.message });
+    }
+    if (!chat) return;
+    const { request, system, messages, promptVersion } = chat;
+
+    console.log(`📨 Received streaming ${request.task} request (${messages.length} turn(s)${request.json ? ', JSON mode' : ''}, prompt ${promptVersion})`);
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+    });
+
+    const send = (payload) => res.write(`data: ${JSON.stringify(payload)}\n\n`);
+
+    const cache = resolveCacheKey(chat);
+    const hit = cache ? responseCache.get(cache.key) : null;
+    if (hit) {
+        console.log('🗄️  Streaming response served from cache');
+        send({ delta: hit.response });
+        send({
+            done: true,
+            cached: true,
+            cachedAt: hit.createdAt,
+            promptVersion,
+            ...analysisFields(request, hit.response),
+            ...threadFields(request, hit.response)
+        });
+        return res.end();
+    }
+
+    // Stop pulling tokens from the provider when the browser cancels the request
+    const abortController = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) {
+            console.log('⏹️  Client cancelled streaming request');
+            abortController.abort();
+        }
+    });
+
+    try {
+        const stream = provider.stream({
+            system,
+            messages,
+            json: Boolean(request.json),
+            signal: abortController.signal
+        });
+
+        let responseText = '';
+        for await (const delta of stream) {
+            responseText += delta;
+            send({ delta });
+        }
+
+        let extra = request.json ? { analysis: null } : {};
+        if (responseText && request.json) {
+            const repaired = await repairStructured(request, responseText, abortController.signal);
+            if (repaired.text !== responseText) send({ replace: repaired.text });
+            responseText = repaired.text;
+            extra = { analysis: repaired.analysis };
+        }
+
+        console.log('✅ Streaming chat response completed');
+        if (cache && responseText && extra.analysis !== null) responseCache.set(cache.key, responseText, cache.meta);
+        send({ done: true, cached: false, promptVersion, ...extra, ...(responseText && threadFields(request, responseText)) });
+    } catch (error) {
+        if (abortController.signal.aborted) return;
+        console.error('❌ Streaming chat error:', error.message);
+        send({ error: 'Failed to get response from AI', details: error.message });
+    }
+    res.end();
+});
+
+// Translation endpoint - body { text, language } translates a finished analysis
+// into language. Replies { response, language, cached, cachedAt?, promptVersion,
+// missingTerms }; missingTerms lists technical terms the translation altered.
+app.post('/api/translate', chatRateLimit, async (req, res) => {
+    try {
+        const chat = prepareChat(req, res, { ...req.body, task: 'translation' });
+        if (!chat) return;
+        const { request, system, messages, promptVersion } = chat;
+
+        console.log(`📨 Received translation request (${request.text.length} chars to ${request.language}, prompt ${promptVersion})`);
+
+        const terms = technicalTerms(request.text);
+        const reply = (response, cachedAt) => res.json({
+            response,
+            language: request.language,
+            cached: Boolean(cachedAt),
+            ...(cachedAt && { cachedAt }),
+            promptVersion,
+            missingTerms: missingTerms(terms, response)
+        });
+
+        const cache = resolveCacheKey(chat);
+        const hit = cache ? responseCache.get(cache.key) : null;
+        if (hit) {
+            console.log('🗄️  Translation served from cache');
+            return reply(hit.response, hit.createdAt);
+        }
+
+        const responseText = await provider.complete({ system, messages });
+        if (!responseText) return res.status(500).json({ error: `Received empty response from ${provider.name}` });
+
+        const missing = missingTerms(terms, responseText);
+        if (missing.length > 0) console.warn(`⚠️  Translation altered ${missing.length} technical term(s): ${missing.join(', ')}`);
+        console.log('✅ Translation received');
+        if (cache) responseCache.set(cache.key, responseText, cache.meta);
+        return reply(responseText, null);
+
+    } catch (error) {
+        console.error('❌ Translation error:', error.message);
+        return res.status(500).json({
+            error: 'Failed to get response from AI',
+            details: error.message
+        });
+    }
+});
+
+// Admin: list cached analyses (metadata only) and hit/miss counters
+app.get('/api/admin/cache', requireAdmin, (req, res) => {
+    res.json(responseCache.inspect());
+});
+
+// Admin: purge one entry (?key=<hash>) or the whole cache
+app.delete('/api/admin/cache', requireAdmin, (req, res) => {
+    const removed = responseCache.purge(req.query.key);
+    console.log(`🗑️  Purged ${removed} cached response(s)`);
+    res.json({ removed });
+});
+
+// Admin: registered prompt templates, their versions and the active one
+app.get('/api/admin/prompts', requireAdmin, (req, res) => {
+    res.json({ templates: listTemplates() });
+});
+
 app.listen(PORT, () => {
     console.log(`🚀 Server running on http://localhost:${PORT}`);
     console.log(`📡 API endpoint: http://localhost:${PORT}/api/chat`);
+    console.log(`📡 Streaming endpoint: http://localhost:${PORT}/api/chat/stream`);
+    console.log(`📡 Translation endpoint: http://localhost:${PORT}/api/translate`);
+    console.log(`🔒 Allowed origins: ${CORS_ORIGINS.join(', ')}`);
 });
@@ -0,0 +1,98 @@
+/**
+ * Structured analysis contract.
+ *
+ * The only validator of the StructuredAnalysis JSON: the server runs it on
+ * JSON-mode replies so the repair turn quotes its own error list, only replies
+ * that pass are cached, and the client receives the normalised analysis (or
+ * null) with the final stream event instead of checking the text itself.
+ */
+
+const STATUSES = ['compatible', 'issues', 'incompatible'];
+const RATINGS = ['excellent', 'good', 'adequate', 'poor', 'unusable'];
+const SEVERITIES = ['critical', 'warning', 'info'];
+
+// Parse a JSON reply, tolerating a ```json fence or text around the object
+const parseJsonReply = (text) => {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end <= start) return undefined;
+    try {
+        return JSON.parse(text.slice(start, end + 1));
+    } catch {
+        return undefined;
+    }
+};
+
+const isString = (v) => typeof v === 'string' && v.trim().length > 0;
+const isNullableString = (v) => v === null || v === undefined || typeof v === 'string';
+
+/**
+ * Check a reply against the StructuredAnalysis contract.
+ *
+ * @returns One message per violated field; empty when the reply is valid
+ */
+const structuredAnalysisErrors = (text) => {
+    const v = parseJsonReply(text);
+    if (!v || typeof v !== 'object' || Array.isArray(v)) return ['Reply is not a JSON object'];
+
+    const errors = [];
+    if (typeof v.score !== 'number' || !Number.isFinite(v.score) || v.score < 0 || v.score > 100) {
+        errors.push('score: expected a number from 0 to 100');
+    }
+    if (!STATUSES.includes(v.status)) errors.push(`status: expected one of ${STATUSES.join(', ')}`);
+    if (!isString(v.summary)) errors.push('summary: expected a non-empty string');
+    if (!isString(v.verdict)) errors.push('verdict: expected a non-empty string');
+
+    if (!Array.isArray(v.workloads) || v.workloads.length === 0) {
+        errors.push('workloads: expected a non-empty array');
+    } else {
+        v.workloads.forEach((w, i) => {
+            if (!w || !isString(w.workload)) errors.push(`workloads[${i}].workload: expected a non-empty string`);
+            if (!w || !RATINGS.includes(w.rating)) errors.push(`workloads[${i}].rating: expected one of ${RATINGS.join(', ')}`);
+            if (!w || typeof w.comment !== 'string') errors.push(`workloads[${i}].comment: expected a string`);
+        });
+    }
+
+    if (!Array.isArray(v.issues)) {
+        errors.push('issues: expected an array (empty when there are none)');
+    } else {
+        v.issues.forEach((issue, i) => {
+            if (!issue || !SEVERITIES.includes(issue.severity)) errors.push(`issues[${i}].severity: expected one of ${SEVERITIES.join(', ')}`);
+            if (!issue || !isString(issue.message)) errors.push(`issues[${i}].message: expected a non-empty string`);
+            if (!issue || !isNullableString(issue.component)) errors.push(`issues[${i}].component: expected a string or null`);
+            if (!issue || !isNullableString(issue.fix)) errors.push(`issues[${i}].fix: expected a string or null`);
+        });
+    }
+    return errors;
+};
+
+/**
+ * Validate a reply and normalise it to the StructuredAnalysis type.
+ *
+ * @returns { analysis, errors }; analysis keeps only the contract fields and is null when errors is not empty
+ */
+const validateStructuredAnalysis = (text) => {
+    const errors = structuredAnalysisErrors(text);
+    if (errors.length > 0) return { analysis: null, errors };
+
+    // Copy only the contract fields so extra keys from the model are dropped
+    const v = parseJsonReply(text);
+    return {
+        analysis: {
+            score: Math.round(v.score),
+            status: v.status,
+            summary: v.summary.trim(),
+            workloads: v.workloads.map(w => ({ workload: w.workload, rating: w.rating, comment: w.comment })),
+            issues: v.issues.map(issue => ({
+                severity: issue.severity,
+                component: issue.component || null,
+                message: issue.message,
+                fix: issue.fix || null
+            })),
+            verdict: v.verdict.trim()
+        },
+        errors: []
+    };
+};
+
+module.exports = { structuredAnalysisErrors, validateStructuredAnalysis };
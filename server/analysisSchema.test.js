@@ -0,0 +1,48 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { structuredAnalysisErrors, validateStructuredAnalysis } = require('./analysisSchema');
+
+const analysis = {
+    score: 72,
+    status: 'issues',
+    summary: 'Good for coding, weak for Unity.',
+    workloads: [{ workload: 'Coding & Compiling', rating: 'good', comment: 'Enough cores [r1].' }],
+    issues: [{ severity: 'warning', component: 'GPU', message: 'Only 4GB VRAM', fix: null }],
+    verdict: 'Buy it for coding.'
+};
+
+test('accepts a valid analysis, also inside a ```json fence', () => {
+    assert.deepEqual(structuredAnalysisErrors(JSON.stringify(analysis)), []);
+    assert.deepEqual(structuredAnalysisErrors('```json\n' + JSON.stringify(analysis) + '\n```'), []);
+});
+
+test('reports replies that are not a JSON object', () => {
+    ['SCORE: 72', '[1, 2]', '{"score": 72,'].forEach(text => {
+        assert.deepEqual(structuredAnalysisErrors(text), ['Reply is not a JSON object'], text);
+    });
+});
+
+test('lists every violated field', () => {
+    const broken = { ...analysis, score: 140, status: 'fine', workloads: [{ workload: 'Unity', rating: 'meh' }], issues: undefined };
+    assert.deepEqual(structuredAnalysisErrors(JSON.stringify(broken)), [
+        'score: expected a number from 0 to 100',
+        'status: expected one of compatible, issues, incompatible',
+        'workloads[0].rating: expected one of excellent, good, adequate, poor, unusable',
+        'workloads[0].comment: expected a string',
+        'issues: expected an array (empty when there are none)'
+    ]);
+});
+
+test('normalises a valid analysis to the contract fields', () => {
+    const reply = { ...analysis, score: 71.6, summary: '  Good for coding.  ', extra: 'dropped', issues: [{ ...analysis.issues[0], component: '', note: 'x' }] };
+    const { analysis: normalised, errors } = validateStructuredAnalysis(JSON.stringify(reply));
+    assert.deepEqual(errors, []);
+    assert.equal(normalised.score, 72);
+    assert.equal(normalised.summary, 'Good for coding.');
+    assert.equal('extra' in normalised, false);
+    assert.deepEqual(normalised.issues, [{ severity: 'warning', component: null, message: 'Only 4GB VRAM', fix: null }]);
+});
+
+test('returns no analysis for an invalid reply', () => {
+    assert.deepEqual(validateStructuredAnalysis('SCORE: 72'), { analysis: null, errors: ['Reply is not a JSON object'] });
+});
@@ -0,0 +1,177 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Analysis and translation response cache.
+ *
+ * Entries are keyed by a SHA-256 of the canonical JSON of
+ * { build, language, systemInstruction, messages, model, format } (translations:
+ * the source text and target language), so the same laptop analysed by a whole
+ * class costs one provider call. Entries expire after
+ * the TTL; beyond maxEntries the least recently used entry is evicted. With
+ * a filePath the cache is written to disk (debounced) and reloaded on start.
+ */
+
+// JSON with object keys sorted at every level, so key order never changes the hash
+const canonicalJson = (value) => {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => value[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const cacheKey = (fields) => crypto.createHash('sha256').update(canonicalJson(fields)).digest('hex');
+
+/**
+ * Cache key for an analysis or a translation, or null for requests that are
+ * never cached (follow-ups and comparisons).
+ * Analyses are keyed on the rendered messages, which carry the client's facts,
+ * so requests only share an entry when the provider would see the same prompt.
+ *
+ * @param request - Validated request (server/validation.js)
+ * @param chat - { system, messages, promptVersion } from renderChat, plus `model` ("provider/model")
+ * @returns { key, meta }, where meta is the admin view of the entry
+ */
+const chatCacheKey = (request, { system, messages, promptVersion, model }) => {
+    if (request.task === 'translation') {
+        // The source text stays out of the metadata shown by the admin endpoint
+        const meta = { task: 'translation', language: request.language, promptVersion, model };
+        return { key: cacheKey({ ...meta, text: request.text, systemInstruction: system }), meta };
+    }
+    if (request.task !== 'analysis') return null;
+    const meta = {
+        build: request.buildRef,
+        language: request.language,
+        promptVersion,
+        model,
+        format: request.json ? 'json' : 'text'
+    };
+    return { key: cacheKey({ ...meta, systemInstruction: system, messages }), meta };
+};
+
+const createResponseCache = ({ ttlMs, maxEntries, filePath }) => {
+    // Map insertion order doubles as LRU order: a hit re-inserts the entry at the end
+    const entries = new Map();
+    const stats = { hits: 0, misses: 0, evictions: 0 };
+    let saveTimer = null;
+
+    const isExpired = (entry) => Date.parse(entry.expiresAt) <= Date.now();
+
+    const save = () => {
+        if (!filePath) return;
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify({ version: 1, entries: [...entries.values()] }));
+        } catch (error) {
+            console.error('⚠️  Failed to write response cache:', error.message);
+        }
+    };
+
+    const scheduleSave = () => {
+        if (!filePath || saveTimer) return;
+        saveTimer = setTimeout(() => {
+            saveTimer = null;
+            save();
+        }, 1000);
+        saveTimer.unref();
+    };
+
+    const load = () => {
+        if (!filePath || !fs.existsSync(filePath)) return;
+        try {
+            const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            (stored.entries || []).forEach(entry => {
+                if (entry && entry.key && typeof entry.response === 'string' && !isExpired(entry)) {
+                    entries.set(entry.key, entry);
+                }
+            });
+            console.log(`🗄️  Loaded ${entries.size} cached response(s) from ${filePath}`);
+        } catch (error) {
+            console.error('⚠️  Ignoring unreadable response cache file:', error.message);
+        }
+    };
+
+    load();
+
+    return {
+        key: cacheKey,
+
+        get(key) {
+            const entry = entries.get(key);
+            if (!entry || isExpired(entry)) {
+                if (entry) entries.delete(key);
+                stats.misses++;
+                return null;
+            }
+            entries.delete(key);
+            entry.hits++;
+            entries.set(key, entry);
+            stats.hits++;
+            return entry;
+        },
+
+        /**
+         * Store a reply; `meta` (build, language, model, format) is kept for the admin view
+         */
+        set(key, response, meta) {
+            entries.delete(key);
+            const now = Date.now();
+            entries.set(key, {
+                key,
+                response,
+                ...meta,
+                createdAt: new Date(now).toISOString(),
+                expiresAt: new Date(now + ttlMs).toISOString(),
+                hits: 0
+            });
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value);
+                stats.evictions++;
+            }
+            scheduleSave();
+        },
+
+        /**
+         * Drop one entry, or everything when key is omitted
+         *
+         * @returns Number of entries removed
+         */
+        purge(key) {
+            let removed;
+            if (key) {
+                removed = entries.delete(key) ? 1 : 0;
+            } else {
+                removed = entries.size;
+                entries.clear();
+            }
+            if (removed > 0) save();
+            return removed;
+        },
+
+        inspect() {
+            for (const [key, entry] of entries) {
+                if (isExpired(entry)) entries.delete(key);
+            }
+            return {
+                size: entries.size,
+                maxEntries,
+                ttlSeconds: Math.round(ttlMs / 1000),
+                persistedTo: filePath || null,
+                ...stats,
+                entries: [...entries.values()].reverse().map(({ response, ...entry }) => ({
+                    ...entry,
+                    responseLength: response.length
+                }))
+            };
+        },
+
+        flush: save
+    };
+};
+
+module.exports = { createResponseCache, cacheKey, chatCacheKey, canonicalJson };
@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createResponseCache, chatCacheKey, cacheKey } = require('./cache');
+const { parseChatRequest } = require('./validation');
+const { renderChat } = require('./prompts');
+const { createConversationStore } = require('./conversations');
+
+const MODEL = 'mock/mock-analyst';
+const build = { type: 'Desktop', parts: { cpu: 'c-14900k', motherboard: 'm-z790', ram: 'r-32-d5' } };
+const facts = {
+    score: 82,
+    workloads: [{ name: 'Android Studio', score: 90 }]
+};
+
+// Cache key of a body as the server would compute it
+const keyOf = (body) => {
+    const { request, errors } = parseChatRequest(body);
+    assert.equal(errors, undefined);
+    return chatCacheKey(request, { ...renderChat(request), model: MODEL });
+};
+
+test('same analysis request gives the same key', () => {
+    const reordered = { facts, build: { parts: { ram: 'r-32-d5', motherboard: 'm-z790', cpu: 'c-14900k' }, type: 'Desktop' }, task: 'analysis' };
+    assert.equal(keyOf({ task: 'analysis', build, facts }).key, keyOf(reordered).key);
+});
+
+test('different facts for the same build give different keys', () => {
+    const base = keyOf({ task: 'analysis', build, facts }).key;
+    const workloads = [{ name: 'Android Studio', score: 40 }];
+    assert.notEqual(keyOf({ task: 'analysis', build, facts: { ...facts, score: 12 } }).key, base);
+    assert.notEqual(keyOf({ task: 'analysis', build, facts: { ...facts, workloads } }).key, base);
+});
+
+test('language, format and model are part of the key', () => {
+    const base = keyOf({ task: 'analysis', build, facts });
+    assert.notEqual(keyOf({ task: 'analysis', build, facts, language: 'my' }).key, base.key);
+    assert.notEqual(keyOf({ task: 'analysis', build, facts, responseFormat: 'json' }).key, base.key);
+    const { request } = parseChatRequest({ task: 'analysis', build, facts });
+    assert.notEqual(chatCacheKey(request, { ...renderChat(request), model: 'mistral/mistral-large-latest' }).key, base.key);
+});
+
+test('translations are keyed per provider and model', () => {
+    const { request } = parseChatRequest({ task: 'translation', text: 'SCORE: 80', language: 'my' });
+    const chat = renderChat(request);
+    const mock = chatCacheKey(request, { ...chat, model: 'mock/mock-analyst' });
+    const mistral = chatCacheKey(request, { ...chat, model: 'mistral/mistral-large-latest' });
+    assert.notEqual(mock.key, mistral.key);
+    assert.equal(mistral.meta.model, 'mistral/mistral-large-latest');
+});
+
+test('metadata leaves out the prompt text', () => {
+    const { meta } = keyOf({ task: 'analysis', build, facts });
+    assert.deepEqual(Object.keys(meta).sort(), ['build', 'format', 'language', 'model', 'promptVersion']);
+});
+
+test('follow-ups are not cached', () => {
+    const conversations = createConversationStore({ ttlMs: 60000, maxEntries: 10, maxTurns: 20 });
+    const analysisId = conversations.start(parseChatRequest({ task: 'analysis', build, facts }).request, 'Solid build.');
+    const { request } = parseChatRequest({ task: 'followup', analysisId, question: 'Why?' });
+    request.thread = conversations.get(analysisId);
+    assert.equal(chatCacheKey(request, { ...renderChat(request), model: MODEL }), null);
+});
+
+test('evicts the least recently used entry past maxEntries', () => {
+    const cache = createResponseCache({ ttlMs: 60000, maxEntries: 2, filePath: null });
+    const [a, b, c] = ['a', 'b', 'c'].map(id => cacheKey({ id }));
+    cache.set(a, 'A', {});
+    cache.set(b, 'B', {});
+    assert.equal(cache.get(a).response, 'A');
+    cache.set(c, 'C', {});
+    assert.equal(cache.get(b), null);
+    assert.equal(cache.get(a).response, 'A');
+    assert.equal(cache.inspect().evictions, 1);
+});
+
+test('expired entries are not served', () => {
+    const cache = createResponseCache({ ttlMs: -1, maxEntries: 10, filePath: null });
+    cache.set('k', 'stale', {});
+    assert.equal(cache.get('k'), null);
+});
@@ -0,0 +1,125 @@
+const fs = require('fs');
+const path = require('path');
+const Papa = require('papaparse');
+
+/**
+ * Server-side view of the knowledge base.
+ *
+ * Requests only carry part ids; names and specs used in prompts are looked up
+ * here so a client cannot smuggle its own text into a prompt through a part.
+ * Desktop parts come from components.json, laptops from the bundled CSV
+ * (first, unnamed column = id, as in utils/laptopSchema.ts). The graph edges,
+ * workload requirements and PSU/pairing tables feed the grounding block
+ * (server/grounding.js); the compatibility tables also drive the rule engine
+ * (server/rules.js) and the prices the comparison table (server/comparison.js).
+ */
+
+const ROOT = path.join(__dirname, '..');
+const readJson = (file) => JSON.parse(fs.readFileSync(path.join(ROOT, file), 'utf8'));
+
+// Desktop build slot -> components.json category (same mapping as SLOT_CATEGORY in utils/ruleEngine.ts)
+const SLOT_CATEGORY = {
+    cpu: 'CPU',
+    gpu: 'GPU',
+    motherboard: 'Motherboard',
+    ram: 'RAM',
+    storage: 'Storage',
+    psu: 'PSU',
+    pcCase: 'Case'
+};
+
+// Below this a dataset price cannot be rupees for a laptop, so it is read as lakhs (utils/laptopSchema.ts)
+const LAKH_THRESHOLD = 100;
+const LAKH = 100000;
+
+const loadCatalog = () => {
+    const components = readJson('knowledge-base/datasets/components.json');
+    const graph = readJson('knowledge-base/ontology/knowledge-graph.json');
+    const benchmarks = readJson('knowledge-base/datasets/performance-benchmarks.json');
+    const compatibility = readJson('knowledge-base/datasets/compatibility-rules.json');
+    const { pricing } = components.metadata;
+
+    const parts = {};
+    Object.entries(SLOT_CATEGORY).forEach(([slot, category]) => {
+        parts[slot] = new Map(components[category].components.map(c => [c.id, c]));
+    });
+
+    const csv = Papa.parse(fs.readFileSync(path.join(ROOT, 'dataset/merged_laptop_data_cleaned.csv'), 'utf8'), {
+        header: true,
+        skipEmptyLines: true
+    });
+    const laptops = new Map(csv.data.filter(row => row[''] !== undefined && row.model_name).map(row => {
+        const hdd = Number(row['Hard Disk(GB)']) || 0;
+        const storage = hdd > 0 ? `${row['ssd(GB)']}GB SSD + ${hdd}GB HDD` : `${row['ssd(GB)']}GB SSD`;
+        const price = Number(row['Price(In Lakhs)']) || 0;
+        const inr = price > 0 && price < LAKH_THRESHOLD ? price * LAKH : price;
+        return [String(row['']).trim(), {
+            id: String(row['']).trim(),
+            name: row.model_name,
+            // Same conversion as inrToMmk in utils/laptopSchema.ts
+            priceMMK: inr > 0 ? Math.round((inr / pricing.inrPerUsd) * pricing.mmkPerUsd / 1000) * 1000 : null,
+            specs: `${row.processor_name} | ${row['ram(GB)']}GB RAM | ${storage} | ${row.graphics} | ${row['screen_size(inches)']}" ${row['resolution (pixels)']}`,
+            // Raw dataset columns quoted in the grounding block
+            record: {
+                brand: row.brand,
+                processor: row.processor_name,
+                cores: row.no_of_cores,
+                threads: row.no_of_threads,
+                ramGB: row['ram(GB)'],
+                ssdGB: row['ssd(GB)'],
+                hddGB: row['Hard Disk(GB)'],
+                graphics: row.graphics,
+                screenInches: row['screen_size(inches)'],
+                resolution: row['resolution (pixels)'],
+                os: row['Operating System']
+            }
+        }];
+    }));
+
+    return {
+        parts,
+        laptops,
+        rules: new Map(graph.inferenceRules.rules.map(r => [r.id, r])),
+        edges: graph.edges,
+        workloads: new Map(Object.entries(benchmarks.workloads).map(([id, w]) => [w.name, { id, ...w }])),
+        workloadNames: new Set(Object.values(benchmarks.workloads).map(w => w.name)),
+        workloadsById: benchmarks.workloads,
+        suitabilityWorkloads: benchmarks.suitability.workloads,
+        compatibility,
+        mmkPerUsd: pricing.mmkPerUsd,
+        gpuPower: compatibility.powerRequirements.gpuRequirements,
+        cpuGpuPairing: compatibility.bottleneckDetection.cpuGpuPairing,
+        majors: new Set(Object.keys(benchmarks.majors.workloads))
+    };
+};
+
+const catalog = loadCatalog();
+
+/**
+ * Resolve a { type, parts } build reference to catalogue records.
+ *
+ * @returns { build, unknown } where unknown lists "slot=id" pairs not in the catalogue
+ */
+const resolveBuildRef = (ref) => {
+    const unknown = [];
+    if (ref.type === 'Laptop') {
+        const laptop = catalog.laptops.get(String(ref.parts.laptop));
+        if (!laptop) unknown.push(`laptop=${ref.parts.laptop}`);
+        return { build: { type: 'Laptop', laptop }, unknown };
+    }
+
+    const build = { type: 'Desktop' };
+    Object.keys(SLOT_CATEGORY).forEach(slot => {
+        const id = ref.parts[slot];
+        if (id === undefined || id === null) return;
+        const part = catalog.parts[slot].get(id);
+        if (part) build[slot] = part;
+        else unknown.push(`${slot}=${id}`);
+    });
+    Object.keys(ref.parts).forEach(slot => {
+        if (!(slot in SLOT_CATEGORY)) unknown.push(`${slot} (not a desktop slot)`);
+    });
+    return { build, unknown };
+};
+
+module.exports = { catalog, resolveBuildRef, SLOT_CATEGORY };
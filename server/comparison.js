@@ -0,0 +1,123 @@
+const { catalog, SLOT_CATEGORY } = require('./catalog');
+
+/**
+ * Server-side comparison table for the "Which should I buy?" prompt.
+ *
+ * Rows are built from catalogue records looked up by part id, plus the
+ * computed suitability scores the client sends as integers; labels, cells,
+ * row winners and the overall winner are all produced here, so no text from
+ * the request body reaches the comparison prompt. Winners follow
+ * compareItems in utils/comparison.ts: most row wins, then the higher
+ * suitability, then the lower price. The Battery and Gaming rows are left
+ * out: they come from the client's laptop-name heuristics, not the dataset.
+ */
+
+// Midpoint of a components.json priceRange such as "$589-$649" (estimatePrice in utils/dataLoader.ts)
+const estimatePrice = (priceRange) => {
+    const bounds = (priceRange || '').match(/\d+(\.\d+)?/g)?.map(Number) || [];
+    if (bounds.length === 0) return 0;
+    return Math.round(bounds.reduce((sum, n) => sum + n, 0) / bounds.length);
+};
+
+const laptopAttributes = ({ laptop }) => {
+    const { record } = laptop;
+    const ssd = Number(record.ssdGB) || 0;
+    const hdd = Number(record.hddGB) || 0;
+    return {
+        kind: 'Laptop',
+        name: laptop.name,
+        price: laptop.priceMMK,
+        cpu: record.processor,
+        cores: Number(record.cores) || null,
+        ramGB: Number(record.ramGB) || null,
+        // HDD capacity does not count towards the storage win
+        storageGB: ssd,
+        storage: hdd > 0 ? `${ssd}GB SSD + ${hdd}GB HDD` : `${ssd}GB SSD`,
+        gpu: record.graphics || '—',
+        // "4 GB NVIDIA GeForce GTX 1650" -> 4; integrated graphics count as 0
+        gpuVram: Number(String(record.graphics).match(/(\d+)\s*GB/i)?.[1]) || 0
+    };
+};
+
+const desktopAttributes = (build) => {
+    const priceUSD = Object.keys(SLOT_CATEGORY).reduce((sum, slot) => sum + (build[slot] ? estimatePrice(build[slot].priceRange) : 0), 0);
+    return {
+        kind: 'Desktop',
+        name: [build.cpu?.name, build.gpu?.name].filter(Boolean).join(' + ') || 'Desktop Build',
+        price: priceUSD > 0 ? Math.round(priceUSD * catalog.mmkPerUsd) : null,
+        cpu: build.cpu?.name || '—',
+        cores: build.cpu?.cores ?? null,
+        ramGB: build.ram?.capacity ?? null,
+        storageGB: build.storage?.capacity ?? null,
+        storage: build.storage ? `${build.storage.capacity}GB ${build.storage.interface}` : '—',
+        gpu: build.gpu ? `${build.gpu.name} ${build.gpu.vram}GB` : 'None',
+        gpuVram: build.gpu?.vram ?? 0
+    };
+};
+
+const winnersOf = (values, better) => {
+    if (!better) return [];
+    const known = values.filter(v => v !== null);
+    if (known.length < 2) return [];
+    const best = better === 'higher' ? Math.max(...known) : Math.min(...known);
+    // No winner when every item is equal
+    if (known.every(v => v === best)) return [];
+    return values.map((v, i) => (v === best ? i : -1)).filter(i => i >= 0);
+};
+
+// cells are [display, value] pairs, one per option
+const row = (label, better, cells) => ({
+    label,
+    better,
+    cells: cells.map(([display]) => display),
+    winners: winnersOf(cells.map(([, value]) => value), better)
+});
+
+/**
+ * Compare resolved builds attribute by attribute.
+ *
+ * @param builds - Builds resolved from the catalogue, one per option
+ * @param scores - Validated { score, workloads: [{ name, score }] } per option, workloads in the same order
+ * @returns { items: [{ kind, name }], rows: [{ label, cells, winners }], winner, reason }
+ */
+const compareBuilds = (builds, scores) => {
+    const attrs = builds.map(build => (build.type === 'Laptop' ? laptopAttributes(build) : desktopAttributes(build)));
+
+    const rows = [
+        row('Price', 'lower', attrs.map(a => [a.price !== null ? `${a.price.toLocaleString('en-US')} MMK` : '—', a.price])),
+        row('CPU', null, attrs.map(a => [a.cpu, null])),
+        row('CPU Cores', 'higher', attrs.map(a => [a.cores !== null ? String(a.cores) : 'Unknown', a.cores])),
+        row('RAM', 'higher', attrs.map(a => [a.ramGB !== null ? `${a.ramGB}GB` : '—', a.ramGB])),
+        row('Storage', 'higher', attrs.map(a => [a.storage, a.storageGB])),
+        row('GPU', 'higher', attrs.map(a => [a.gpu, a.gpuVram])),
+        row('UIT Suitability', 'higher', scores.map(s => [`${s.score}/100`, s.score])),
+        ...scores[0].workloads.map((workload, w) =>
+            ({ ...row(workload.name, 'higher', scores.map(s => [String(s.workloads[w].score), s.workloads[w].score])), workload: true }))
+    ];
+
+    const wins = builds.map((_, i) => rows.filter(r => r.winners.includes(i)));
+    const ranked = builds.map((_, i) => i).sort((a, b) =>
+        wins[b].length - wins[a].length ||
+        scores[b].score - scores[a].score ||
+        (attrs[a].price ?? Infinity) - (attrs[b].price ?? Infinity)
+    );
+    const winner = ranked[0];
+    const won = wins[winner];
+    const highlights = won.filter(r => !r.workload).map(r => r.label);
+    const workloadWins = won.length - highlights.length;
+
+    const reason = [
+        `Best in ${won.length} of ${rows.filter(r => r.better).length} rows`,
+        highlights.length > 0 ? `(${highlights.join(', ')}${workloadWins > 0 ? ` and ${workloadWins} workloads` : ''})` : workloadWins > 0 ? `(${workloadWins} workloads)` : '',
+        `with a suitability of ${scores[winner].score}/100.`
+    ].filter(Boolean).join(' ');
+
+    return {
+        items: attrs.map(({ kind, name }) => ({ kind, name })),
+        rows: rows.map(({ label, cells, winners }) => ({ label, cells, winners })),
+        winner,
+        reason
+    };
+};
+
+module.exports = { compareBuilds };
@@ -0,0 +1,69 @@
+const crypto = require('crypto');
+
+/**
+ * Follow-up threads.
+ *
+ * Every analysis reply starts a thread holding the validated analysis request,
+ * the reply and the follow-up turns asked since; the client only gets the
+ * thread id back (analysisId) and sends it with each question, so the build,
+ * the analysis and the earlier answers replayed to the model are never taken
+ * from the request body. Threads live in memory, expire after the TTL and,
+ * beyond maxEntries, the least recently used one is dropped.
+ */
+
+const createConversationStore = ({ ttlMs, maxEntries, maxTurns }) => {
+    // Map insertion order doubles as LRU order, as in server/cache.js
+    const threads = new Map();
+
+    const isExpired = (thread) => thread.expiresAt <= Date.now();
+
+    const touch = (id, thread) => {
+        threads.delete(id);
+        thread.expiresAt = Date.now() + ttlMs;
+        threads.set(id, thread);
+        while (threads.size > maxEntries) threads.delete(threads.keys().next().value);
+    };
+
+    return {
+        /**
+         * Start a thread for an analysis reply
+         *
+         * @param request - Validated analysis request (server/validation.js)
+         * @returns The thread id the client sends as analysisId
+         */
+        start(request, reply) {
+            const id = crypto.randomUUID();
+            touch(id, { request, reply, turns: [] });
+            return id;
+        },
+
+        /**
+         * @returns { request, reply, turns }, or null for an unknown or expired id
+         */
+        get(id) {
+            const thread = threads.get(id);
+            if (!thread || isExpired(thread)) {
+                if (thread) threads.delete(id);
+                return null;
+            }
+            touch(id, thread);
+            return thread;
+        },
+
+        /**
+         * Record a follow-up question and its answer; only the last maxTurns turns are replayed
+         */
+        append(id, question, answer) {
+            const thread = threads.get(id);
+            if (!thread) return;
+            thread.turns = [
+                ...thread.turns,
+                { role: 'user', content: question },
+                { role: 'assistant', content: answer }
+            ].slice(-maxTurns);
+            touch(id, thread);
+        }
+    };
+};
+
+module.exports = { createConversationStore };
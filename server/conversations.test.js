@@ -0,0 +1,38 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createConversationStore } = require('./conversations');
+
+const analysis = { task: 'analysis', language: 'en' };
+
+test('keeps the analysis reply and follow-up turns under the returned id', () => {
+    const store = createConversationStore({ ttlMs: 60000, maxEntries: 10, maxTurns: 20 });
+    const id = store.start(analysis, 'Solid build.');
+    store.append(id, 'Is the PSU enough?', 'Yes.');
+    const thread = store.get(id);
+    assert.equal(thread.request, analysis);
+    assert.equal(thread.reply, 'Solid build.');
+    assert.deepEqual(thread.turns, [
+        { role: 'user', content: 'Is the PSU enough?' },
+        { role: 'assistant', content: 'Yes.' }
+    ]);
+});
+
+test('replays only the last maxTurns turns', () => {
+    const store = createConversationStore({ ttlMs: 60000, maxEntries: 10, maxTurns: 2 });
+    const id = store.start(analysis, 'Solid build.');
+    store.append(id, 'First?', 'One.');
+    store.append(id, 'Second?', 'Two.');
+    assert.deepEqual(store.get(id).turns.map(t => t.content), ['Second?', 'Two.']);
+});
+
+test('unknown, expired and evicted threads are not found', () => {
+    assert.equal(createConversationStore({ ttlMs: 60000, maxEntries: 10, maxTurns: 20 }).get('missing'), null);
+
+    const expired = createConversationStore({ ttlMs: -1, maxEntries: 10, maxTurns: 20 });
+    assert.equal(expired.get(expired.start(analysis, 'Old.')), null);
+
+    const small = createConversationStore({ ttlMs: 60000, maxEntries: 1, maxTurns: 20 });
+    const first = small.start(analysis, 'First.');
+    small.start(analysis, 'Second.');
+    assert.equal(small.get(first), null);
+});
@@ -0,0 +1,101 @@
+const { catalog, SLOT_CATEGORY } = require('./catalog');
+
+/**
+ * Knowledge-base grounding for analysis prompts.
+ *
+ * Gathers what the knowledge base knows about the selected build: the full
+ * component records (sockets, RAM type, TDP, VRAM, case clearance, ...), the
+ * inference rules and graph edges that connect the selected slots, the PSU and
+ * CPU-GPU pairing tables, and the requirements of the scored workloads. Each
+ * fact carries an id in square brackets that the model is told to cite.
+ */
+
+// A laptop integrates these parts, so rules and edges between them still apply
+const LAPTOP_SLOTS = ['cpu', 'gpu', 'ram', 'storage'];
+
+// Record fields that repeat the name or are already covered by computed scores
+const SKIPPED_FIELDS = ['id', 'name', 'specs', 'workloadSuitability'];
+
+const formatRecord = (record) => Object.entries(record)
+    .filter(([key, value]) => !SKIPPED_FIELDS.includes(key) && value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('/') : value}`)
+    .join(', ');
+
+// Slots a graph rule condition refers to, e.g. "IF gpu.length > case.maxGpuLength" -> gpu, pcCase
+const conditionSlots = (condition) =>
+    [...new Set([...condition.matchAll(/\b(cpu|gpu|motherboard|ram|storage|psu|case)\./g)].map(m => m[1] === 'case' ? 'pcCase' : m[1]))];
+
+const gpuNotes = (gpu) => {
+    const notes = [];
+    const power = catalog.gpuPower[gpu.id];
+    if (power) notes.push(`minimumPSU=${power.minimumPSU}W, recommendedPSU=${power.recommendedPSU}W`);
+    const pairing = Object.entries(catalog.cpuGpuPairing).find(([, p]) => p.gpus.includes(gpu.id));
+    if (pairing) {
+        const [tier, { recommendedCPUs, bottleneckCPUs }] = pairing;
+        notes.push(`pairing=${tier}, recommendedCPUs=${recommendedCPUs.join('/')}${bottleneckCPUs.length > 0 ? `, bottleneckCPUs=${bottleneckCPUs.join('/')}` : ''}`);
+    }
+    return notes.length > 0 ? `; ${notes.join('; ')}` : '';
+};
+
+const componentLines = (build) => {
+    if (build.type === 'Laptop') {
+        const { laptop } = build;
+        return [`- [laptop-${laptop.id}] Laptop ${laptop.name}: ${formatRecord(laptop.record)}`];
+    }
+    return Object.entries(SLOT_CATEGORY)
+        .filter(([slot]) => build[slot])
+        .map(([slot, category]) => {
+            const part = build[slot];
+            return `- [${part.id}] ${category} ${part.name}: ${formatRecord(part)}${slot === 'gpu' ? gpuNotes(part) : ''}`;
+        });
+};
+
+const describeRequirements = ({ cpu, ram, storage, gpu, os }) => {
+    const parts = [
+        `CPU ${cpu.minCores}+ cores (${cpu.recommendedCores} recommended${cpu.preferredFeatures?.length ? `; ${cpu.preferredFeatures.join(', ')}` : ''})`,
+        `RAM ${ram.minimum} GB minimum / ${ram.recommended} GB recommended / ${ram.optimal} GB optimal`,
+        `storage ${storage.type} ${storage.minimumCapacity}+ GB (${storage.speed})`
+    ];
+    parts.push(gpu.required
+        ? `GPU required, ${gpu.minimumVRAM}+ GB VRAM (${gpu.recommendedVRAM} GB recommended${gpu.features?.length ? `; ${gpu.features.join(', ')}` : ''})`
+        : `GPU optional${gpu.notes ? ` (${gpu.notes})` : ''}`);
+    if (os) parts.push(`OS ${os.supported.join('/')}${os.notes ? ` (${os.notes})` : ''}`);
+    return parts.join(', ');
+};
+
+/**
+ * Render the grounding block for an analysis or follow-up prompt.
+ *
+ * @param build - Build resolved from the catalogue (request.build)
+ * @param facts - Validated facts; their workload names pick the requirements to include
+ * @returns Multi-line text block, one cited fact per line
+ */
+const buildGroundingBlock = (build, facts) => {
+    const present = new Set(build.type === 'Laptop'
+        ? LAPTOP_SLOTS
+        : Object.keys(SLOT_CATEGORY).filter(slot => build[slot]));
+
+    const rules = [...catalog.rules.values()]
+        .filter(rule => conditionSlots(rule.condition).every(slot => present.has(slot)))
+        .map(rule => `- [${rule.id}] ${rule.name}: ${rule.condition} ${rule.conclusion}`);
+
+    // "workload" edges apply to every build, since the workloads are always scored
+    const edges = catalog.edges
+        .filter(edge => [edge.from, edge.to].every(node => node === 'workload' || present.has(node)))
+        .map(edge => `- [${edge.id}] ${edge.from} -> ${edge.to} ${edge.relationship}${edge.critical ? ' (critical)' : ''}: ${edge.description}`);
+
+    const workloads = facts.workloads
+        .map(w => catalog.workloads.get(w.name))
+        .filter(Boolean)
+        .map(w => `- [${w.id}] ${w.name}: ${describeRequirements(w.requirements)}`);
+
+    const sections = [
+        `COMPONENT RECORDS:\n${componentLines(build).join('\n')}`,
+        rules.length > 0 ? `COMPATIBILITY RULES:\n${rules.join('\n')}` : '',
+        edges.length > 0 ? `GRAPH EDGES:\n${edges.join('\n')}` : '',
+        workloads.length > 0 ? `WORKLOAD REQUIREMENTS:\n${workloads.join('\n')}` : ''
+    ].filter(Boolean);
+    return `KNOWLEDGE BASE CONTEXT (cite the [id] of every fact you use):\n${sections.join('\n\n')}`;
+};
+
+module.exports = { buildGroundingBlock };
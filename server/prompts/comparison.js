@@ -0,0 +1,54 @@
+/**
+ * "Which should I buy?" verdict for the Compare tab.
+ *
+ * The prompt already carries computed workload scores and per-row winners,
+ * so the model is asked to explain and weigh them rather than re-score.
+ */
+
+const SYSTEM = `
+ROLE:
+You are the "UIT Hardware Specialist," an expert system for the University of Information Technology.
+A student has shortlisted several laptops and/or desktop builds and asks: "Which should I buy?"
+
+INSTRUCTIONS:
+1. Treat the COMPUTED SCORES and ROW WINNERS in the prompt as ground truth. Do not invent benchmark numbers.
+2. Name one winner per workload and explain it in a few words.
+3. Spell out the real trade-offs between the options (price, portability, battery, upgradeability, GPU).
+4. Recommend ONE option for the student's major(s). If no major is given, recommend for general UIT coursework.
+5. Refer to options as "Option N (name)".
+
+RESPONSE FORMAT (Markdown):
+**🏆 RECOMMENDATION**: Option N (name)
+**Summary**: [1-2 sentences]
+
+**Workload Winners**:
+*   [Workload]: Option N - [reason]
+
+**Trade-offs**:
+*   Option N: [strengths] / [weaknesses]
+
+**For Your Major**: [Why the recommended option fits the student's major, and when another option would be better]
+`;
+
+// {{overall}} is empty or "\n\nOVERALL BY ROW WINS: ..." (read by the mock provider)
+const USER = 'Compare these {{count}} options for a UIT student and tell them which to buy.\n\n' +
+    'STUDENT MAJOR(S): {{majors}}\n\n' +
+    'OPTIONS (COMPUTED SCORES are from benchmark data, do not change them):\n{{options}}\n\n' +
+    'ROW WINNERS (deterministic):\n{{winners}}{{overall}}';
+
+const templates = [
+    {
+        id: 'comparison',
+        version: 'v1',
+        system: {
+            en: SYSTEM,
+            my: `${SYSTEM}\nYou MUST reply in Burmese (Myanmar) language.\n`
+        },
+        user: {
+            en: USER,
+            my: `${USER}\n\nIMPORTANT: YOU MUST PROVIDE THE ENTIRE RESPONSE IN BURMESE (MYANMAR) LANGUAGE. Do not use English except for technical specifications and product names (like CPU names, GB, etc).`
+        }
+    }
+];
+
+module.exports = { templates };
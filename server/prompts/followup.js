@@ -0,0 +1,32 @@
+const { analysisSystem } = require('./analysis');
+
+/**
+ * Follow-up questions on a finished analysis.
+ *
+ * The conversation replays the analysis prompt and reply first, so the system
+ * instruction is the analysis one plus rules for short answers. The user text
+ * wraps the newest question.
+ */
+
+const FOLLOW_UP = `FOLLOW-UP:
+The student is asking follow-up questions about the analysis above.
+Answer the latest question directly in a few short paragraphs. Do not repeat the SCORE line or the full report.
+Keep citing the [id]s from the KNOWLEDGE BASE CONTEXT for every spec or requirement you mention.
+`;
+
+const templates = [
+    {
+        id: 'followup',
+        version: 'v1',
+        system: {
+            en: `${analysisSystem('en')}\n${FOLLOW_UP}`,
+            my: `${analysisSystem('my')}\n${FOLLOW_UP}Answer in Burmese (Myanmar) language.\n`
+        },
+        user: {
+            en: '{{question}}',
+            my: '{{question}}\n\n(Answer in Burmese.)'
+        }
+    }
+];
+
+module.exports = { templates };
@@ -0,0 +1,137 @@
+const { SLOT_CATEGORY } = require('../catalog');
+const { buildGroundingBlock } = require('../grounding');
+const { technicalTerms } = require('../terms');
+const { renderTemplate, listTemplates } = require('./registry');
+
+/**
+ * Server-side prompts.
+ *
+ * The client sends a validated, structured request (see server/validation.js);
+ * renderChat fills the matching template from the registry (./registry.js)
+ * with values taken from the request and the catalogue. Rule findings and
+ * comparison rows are computed on the server (server/rules.js,
+ * server/comparison.js) and follow-ups replay a stored thread, so the only
+ * client prose in a prompt is the follow-up question. Analysis prompts also
+ * carry the knowledge-base grounding block from server/grounding.js. The
+ * markers "COMPUTED SUITABILITY SCORE", "VERDICT:", "MODEL:", "ORIGINAL TEXT:"
+ * and "OVERALL BY ROW WINS:" in the templates are also read by the mock provider.
+ */
+
+const verdictOf = (findings) => {
+    const failed = findings.filter(f => !f.passed);
+    if (failed.some(f => f.severity === 'critical')) return 'INCOMPATIBLE';
+    if (failed.length > 0) return 'ISSUES';
+    return 'COMPATIBLE';
+};
+
+const formatFindings = (findings) => {
+    if (findings.length === 0) return 'No rule findings.';
+    const lines = findings.map(f =>
+        `- [${f.ruleId}] ${f.name}: ${f.passed ? 'PASS' : f.severity.toUpperCase()} - ${f.message}`
+    );
+    return `VERDICT: ${verdictOf(findings)}\n${lines.join('\n')}`;
+};
+
+const analysisTemplate = (build) => build.type === 'Desktop' ? 'analysis-desktop' : 'analysis-laptop';
+
+const analysisVars = ({ build, facts, findings }) => {
+    const vars = {
+        grounding: buildGroundingBlock(build, facts),
+        score: facts.score,
+        workloadScores: facts.workloads.map(w => `- ${w.name}: ${w.score}/100`).join('\n')
+    };
+    if (build.type === 'Desktop') {
+        vars.parts = Object.keys(SLOT_CATEGORY)
+            .map(slot => `${slot.toUpperCase()}: ${build[slot] ? `${build[slot].name} (${build[slot].specs})` : 'Not Selected'}`)
+            .join('\n');
+        vars.findings = formatFindings(findings);
+    } else {
+        vars.model = build.laptop.name;
+        vars.specs = build.laptop.specs;
+        vars.battery = facts.battery || 'Unknown';
+    }
+    return vars;
+};
+
+const comparisonVars = ({ comparison }) => {
+    const label = (i) => `Option ${i + 1} (${comparison.items[i].name})`;
+
+    const options = comparison.items.map((item, i) => {
+        const lines = comparison.rows.map(r => `  - ${r.label}: ${r.cells[i]}`);
+        return `${label(i)} [${item.kind}]\n${lines.join('\n')}`;
+    });
+
+    const winners = comparison.rows
+        .filter(r => r.winners.length > 0)
+        .map(r => `- ${r.label}: ${r.winners.map(label).join(', ')}`);
+
+    return {
+        count: comparison.items.length,
+        majors: comparison.majors.length > 0 ? comparison.majors.join(', ') : 'Not specified',
+        options: options.join('\n\n'),
+        winners: winners.join('\n') || '- None',
+        overall: comparison.winner !== null ? `\n\nOVERALL BY ROW WINS: ${label(comparison.winner)} - ${comparison.reason}` : ''
+    };
+};
+
+/**
+ * Render a validated chat request into the provider call.
+ *
+ * @param repair - JSON analyses only: { previous, errors } when the server
+ *                 asks the model to fix its own invalid reply (server.js)
+ * @returns { system, messages, promptVersion } ready for provider.complete /
+ *          provider.stream; promptVersion names the template that produced it,
+ *          e.g. "analysis-desktop@v1/en"
+ */
+const renderChat = (request, repair = null) => {
+    switch (request.task) {
+        case 'analysis': {
+            const id = analysisTemplate(request.build);
+            const parts = ['system', 'user', ...(request.json ? ['json'] : []), ...(repair ? ['repair'] : [])];
+            const vars = {
+                ...analysisVars(request),
+                errors: repair ? repair.errors.map(e => `- ${e}`).join('\n') : undefined
+            };
+            const prompt = renderTemplate(id, request.language, vars, parts);
+
+            const messages = [{ role: 'user', content: prompt.user }];
+            if (repair) {
+                messages.push(
+                    { role: 'assistant', content: repair.previous },
+                    { role: 'user', content: prompt.repair }
+                );
+            }
+            return { system: prompt.system + (prompt.json || ''), messages, promptVersion: prompt.version };
+        }
+        case 'followup': {
+            // Replay the stored analysis thread (server.js) so the model keeps the build as context
+            const { thread } = request;
+            const analysis = renderTemplate(analysisTemplate(thread.request.build), request.language, analysisVars(thread.request), ['user']);
+            const prompt = renderTemplate('followup', request.language, { question: request.question });
+            return {
+                system: prompt.system,
+                messages: [
+                    { role: 'user', content: analysis.user },
+                    { role: 'assistant', content: thread.reply },
+                    ...thread.turns,
+                    { role: 'user', content: prompt.user }
+                ],
+                promptVersion: `${prompt.version}+${analysis.version}`
+            };
+        }
+        case 'comparison': {
+            const prompt = renderTemplate('comparison', request.language, comparisonVars(request));
+            return { system: prompt.system, messages: [{ role: 'user', content: prompt.user }], promptVersion: prompt.version };
+        }
+        case 'translation': {
+            // request.language is the target language
+            const terms = technicalTerms(request.text).map(term => `- ${term}`).join('\n') || '- (none)';
+            const prompt = renderTemplate('translation', request.language, { text: request.text, terms });
+            return { system: prompt.system, messages: [{ role: 'user', content: prompt.user }], promptVersion: prompt.version };
+        }
+        default:
+            throw new Error(`Unknown task "${request.task}"`);
+    }
+};
+
+module.exports = { renderChat, listTemplates };
@@ -0,0 +1,113 @@
+const analysis = require('./analysis');
+const comparison = require('./comparison');
+const followup = require('./followup');
+const translation = require('./translation');
+
+/**
+ * Prompt template registry.
+ *
+ * Every template has this shape:
+ *   id        Task name, e.g. "analysis-desktop"
+ *   version   Wording version, e.g. "v1"; bump it (and keep the old entry to
+ *             A/B test) whenever the text changes
+ *   system    { en, my } system instruction
+ *   user      { en, my } user message
+ *   ...       Optional extra parts in the same { en, my } form (e.g. json, repair)
+ *
+ * Text uses {{name}} placeholders filled by renderTemplate. At load time each
+ * template must provide every language, and each language must use the same
+ * placeholders, so the English and Burmese variants cannot drift apart.
+ *
+ * The newest registered version of a template is used unless PROMPT_VERSIONS
+ * pins one, e.g. PROMPT_VERSIONS="analysis-desktop=v1,comparison=v1".
+ */
+
+const LANGUAGES = ['en', 'my'];
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+const placeholders = (text) => [...new Set([...text.matchAll(PLACEHOLDER)].map(m => m[1]))].sort().join(',');
+
+const textParts = (template) => Object.keys(template).filter(key => !['id', 'version'].includes(key));
+
+const checkTemplate = (template) => {
+    const label = `${template.id}@${template.version}`;
+    if (!template.system || !template.user) throw new Error(`Prompt template ${label} needs system and user text`);
+    textParts(template).forEach(part => {
+        LANGUAGES.forEach(language => {
+            if (typeof template[part]?.[language] !== 'string') {
+                throw new Error(`Prompt template ${label} has no ${language} ${part} text`);
+            }
+        });
+        const expected = placeholders(template[part].en);
+        LANGUAGES.forEach(language => {
+            if (placeholders(template[part][language]) !== expected) {
+                throw new Error(`Prompt template ${label}: ${language} ${part} placeholders differ from en`);
+            }
+        });
+    });
+};
+
+const TEMPLATES = new Map();
+[analysis, comparison, followup, translation].flatMap(m => m.templates).forEach(template => {
+    checkTemplate(template);
+    if (!TEMPLATES.has(template.id)) TEMPLATES.set(template.id, new Map());
+    const versions = TEMPLATES.get(template.id);
+    if (versions.has(template.version)) throw new Error(`Duplicate prompt template ${template.id}@${template.version}`);
+    versions.set(template.version, template);
+});
+
+const parsePins = (value) => Object.fromEntries((value || '').split(',')
+    .map(pin => pin.trim().split('='))
+    .filter(([id, version]) => id && version));
+
+const pins = parsePins(process.env.PROMPT_VERSIONS);
+Object.entries(pins).forEach(([id, version]) => {
+    if (!TEMPLATES.get(id)?.has(version)) throw new Error(`PROMPT_VERSIONS pins unknown template ${id}@${version}`);
+});
+
+/**
+ * Active version of a template (pinned, otherwise the newest registered)
+ */
+const getTemplate = (id) => {
+    const versions = TEMPLATES.get(id);
+    if (!versions) throw new Error(`Unknown prompt template "${id}"`);
+    return versions.get(pins[id]) || [...versions.values()].pop();
+};
+
+const interpolate = (text, vars, label) => text.replace(PLACEHOLDER, (_, name) => {
+    if (vars[name] === undefined || vars[name] === null) throw new Error(`Prompt template ${label} is missing "${name}"`);
+    return String(vars[name]);
+});
+
+/**
+ * Render the active version of a template.
+ *
+ * @param id - Template id
+ * @param language - 'en' | 'my'
+ * @param vars - Placeholder values
+ * @param parts - Text parts to render
+ * @returns The rendered parts plus version, "<id>@<version>/<language>"
+ * @example
+ * const { system, user, version } = renderTemplate('comparison', 'my', { options, winners });
+ */
+const renderTemplate = (id, language, vars = {}, parts = ['system', 'user']) => {
+    const template = getTemplate(id);
+    const label = `${template.id}@${template.version}`;
+    const rendered = { version: `${label}/${language}` };
+    parts.forEach(part => {
+        if (!template[part]) throw new Error(`Prompt template ${label} has no ${part} text`);
+        rendered[part] = interpolate(template[part][language], vars, label);
+    });
+    return rendered;
+};
+
+/**
+ * Registered templates for the admin listing
+ */
+const listTemplates = () => [...TEMPLATES.entries()].map(([id, versions]) => ({
+    id,
+    versions: [...versions.keys()],
+    active: getTemplate(id).version
+}));
+
+module.exports = { renderTemplate, listTemplates, LANGUAGES };
@@ -0,0 +1,50 @@
+/**
+ * Translation of a finished analysis. The language variant is the target
+ * language; the original text ends the prompt after "ORIGINAL TEXT:" (read
+ * by the mock provider).
+ *
+ * v2 lists the technical terms found in the text (server/terms.js) that must
+ * be copied unchanged.
+ */
+
+const SYSTEM = `
+ROLE:
+You translate reports written by the "UIT Hardware Specialist," an expert system for the University of Information Technology.
+Translate faithfully. Do not add, drop or re-score anything.
+`;
+
+const user = (target, short) => `Translate the following technical analysis into ${target} language. \n\n` +
+    'IMPORTANT:\n1. Keep all Markdown formatting (**bold**, *lists*, etc).\n2. Keep the "SCORE: [number]" exactly as is.\n' +
+    `3. Translate everything else to ${short}.\n\nORIGINAL TEXT:\n{{text}}`;
+
+const SYSTEM_V2 = `${SYSTEM.trimEnd()}
+Technical terms stay exactly as written: product and model names (CPUs, GPUs, laptops, motherboards), software names, numbers with their units (16 GB, 650W, 5.6 GHz), acronyms (CPU, GPU, RAM, SSD, VRAM) and [id] citations.
+`;
+
+const userV2 = (target, short) => `Translate the following technical analysis into ${target} language.\n\n` +
+    'IMPORTANT:\n1. Keep all Markdown formatting (**bold**, *lists*, tables, etc).\n2. Keep the "SCORE: [number]" line exactly as is.\n' +
+    '3. Copy every term under KEEP UNCHANGED character for character. Do not translate, transliterate or reformat them.\n' +
+    `4. Translate everything else to ${short}.\n\nKEEP UNCHANGED:\n{{terms}}\n\nORIGINAL TEXT:\n{{text}}`;
+
+const templates = [
+    {
+        id: 'translation',
+        version: 'v1',
+        system: { en: SYSTEM, my: SYSTEM },
+        user: {
+            en: user('English', 'English'),
+            my: user('Burmese (Myanmar)', 'Burmese')
+        }
+    },
+    {
+        id: 'translation',
+        version: 'v2',
+        system: { en: SYSTEM_V2, my: SYSTEM_V2 },
+        user: {
+            en: userV2('English', 'English'),
+            my: userV2('Burmese (Myanmar)', 'Burmese')
+        }
+    }
+];
+
+module.exports = { templates };
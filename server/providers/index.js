@@ -0,0 +1,32 @@
+const { createMistralProvider } = require('./mistral');
+const { createOpenAICompatibleProvider } = require('./openaiCompatible');
+const { createMockProvider } = require('./mock');
+
+/**
+ * LLM provider registry.
+ *
+ * Every provider exposes the same shape:
+ *   name, model
+ *   complete({ system, messages, json, signal }) -> Promise<string>
+ *   stream({ system, messages, json, signal })   -> AsyncIterable<string>
+ *
+ * LLM_PROVIDER picks one (mistral | openai | mock); LLM_MODEL overrides the
+ * provider's default model. Without LLM_PROVIDER the server uses Mistral when
+ * MISTRAL_API_KEY is set and the offline mock otherwise.
+ */
+const PROVIDERS = {
+    mistral: createMistralProvider,
+    openai: createOpenAICompatibleProvider,
+    mock: createMockProvider
+};
+
+const createProvider = () => {
+    const name = (process.env.LLM_PROVIDER || (process.env.MISTRAL_API_KEY ? 'mistral' : 'mock')).toLowerCase();
+    const factory = PROVIDERS[name];
+    if (!factory) {
+        throw new Error(`Unknown LLM_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(', ')})`);
+    }
+    return factory({ model: process.env.LLM_MODEL });
+};
+
+module.exports = { createProvider, PROVIDERS };
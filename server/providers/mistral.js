@@ -0,0 +1,42 @@
+const { Mistral } = require('@mistralai/mistralai');
+
+/**
+ * Mistral AI provider (hosted API, needs MISTRAL_API_KEY).
+ */
+const createMistralProvider = ({ model }) => {
+    const apiKey = process.env.MISTRAL_API_KEY;
+    if (!apiKey) {
+        throw new Error('MISTRAL_API_KEY is not set in environment variables');
+    }
+    const client = new Mistral({ apiKey });
+
+    return {
+        name: 'mistral',
+        model: model || 'mistral-large-latest',
+
+        async complete({ system, messages, json, signal }) {
+            const chatResponse = await client.chat.complete({
+                model: this.model,
+                messages: [{ role: 'system', content: system }, ...messages],
+                // "json" asks Mistral for a single JSON object (structured analyses)
+                ...(json && { responseFormat: { type: 'json_object' } }),
+            }, { signal });
+            return chatResponse.choices?.[0]?.message?.content || '';
+        },
+
+        async *stream({ system, messages, json, signal }) {
+            const stream = await client.chat.stream({
+                model: this.model,
+                messages: [{ role: 'system', content: system }, ...messages],
+                ...(json && { responseFormat: { type: 'json_object' } }),
+            }, { signal });
+
+            for await (const event of stream) {
+                const content = event.data.choices[0]?.delta?.content;
+                if (typeof content === 'string' && content.length > 0) yield content;
+            }
+        }
+    };
+};
+
+module.exports = { createMistralProvider };
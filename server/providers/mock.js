@@ -0,0 +1,180 @@
+const path = require('path');
+const fs = require('fs');
+
+/**
+ * Deterministic local "LLM" for offline labs, demos and tests.
+ *
+ * It never calls a network. Analysis prompts are answered from what the
+ * frontend already put in them (rule engine findings, computed suitability
+ * scores) plus the workload requirements in performance-benchmarks.json, so
+ * the same build always gets the same reply. Like a grounded model, it cites
+ * rule and workload ids in square brackets. Other prompts get a short
+ * canned answer; translation requests return the original text.
+ */
+
+const BENCHMARKS_PATH = path.join(__dirname, '..', '..', 'knowledge-base', 'datasets', 'performance-benchmarks.json');
+
+const STATUS_LINE = {
+    compatible: '✅ COMPATIBLE',
+    issues: '⚠️ ISSUES',
+    incompatible: '❌ INCOMPATIBLE'
+};
+
+const loadWorkloads = () => {
+    try {
+        return Object.entries(JSON.parse(fs.readFileSync(BENCHMARKS_PATH, 'utf8')).workloads).map(([id, w]) => ({ id, ...w }));
+    } catch (error) {
+        console.error('⚠️  Mock provider could not read performance benchmarks:', error.message);
+        return [];
+    }
+};
+
+const rate = (score) =>
+    score >= 85 ? 'excellent' : score >= 70 ? 'good' : score >= 50 ? 'adequate' : score >= 30 ? 'poor' : 'unusable';
+
+const describeRequirements = (workload) => {
+    const { cpu, ram, gpu } = workload.requirements;
+    const parts = [`${cpu.minCores}+ cores`, `${ram.minimum} GB RAM (${ram.recommended} GB recommended)`];
+    if (gpu.required) parts.push(`${gpu.minimumVRAM} GB+ VRAM`);
+    return parts.join(', ');
+};
+
+/**
+ * Read the facts the analysis prompt carries.
+ * Returns null when the prompt is not a build analysis.
+ */
+const parseAnalysisPrompt = (prompt) => {
+    const scoreMatch = prompt.match(/COMPUTED SUITABILITY SCORE[^:]*:\s*(\d+)\/100/);
+    if (!scoreMatch) return null;
+
+    const afterScore = prompt.slice(scoreMatch.index);
+    const workloads = [...afterScore.matchAll(/^- (.+?): (\d+)\/100$/gm)].map(m => ({ name: m[1], score: Number(m[2]) }));
+
+    const verdictMatch = prompt.match(/^VERDICT: (COMPATIBLE|ISSUES|INCOMPATIBLE)$/m);
+    const findings = [...prompt.matchAll(/^- \[(\w+)\] (.+?): (CRITICAL|WARNING|INFO) - (.+)$/gm)]
+        .map(m => ({ ruleId: m[1], name: m[2], severity: m[3].toLowerCase(), message: m[4] }));
+
+    const model = prompt.match(/^MODEL: (.+)$/m);
+    return {
+        deviceType: /Analyze this Laptop/.test(prompt) ? 'Laptop' : 'Desktop',
+        name: model ? model[1] : 'this build',
+        score: Number(scoreMatch[1]),
+        workloads,
+        verdict: verdictMatch ? verdictMatch[1].toLowerCase() : null,
+        findings
+    };
+};
+
+const buildAnalysis = (facts, benchmarks) => {
+    const status = facts.verdict || (facts.score >= 40 ? 'compatible' : 'issues');
+
+    const workloads = facts.workloads.map(w => {
+        const benchmark = benchmarks.find(b => b.name === w.name);
+        const needs = benchmark ? ` ${benchmark.description}; needs ${describeRequirements(benchmark)} [${benchmark.id}].` : '';
+        return { workload: w.name, rating: rate(w.score), comment: `${w.score}/100.${needs}` };
+    });
+
+    const issues = facts.findings.map(f => ({
+        severity: f.severity,
+        component: null,
+        message: `${f.name}: ${f.message} [${f.ruleId}]`,
+        fix: null
+    }));
+    facts.workloads.filter(w => w.score < 50).forEach(w => {
+        const benchmark = benchmarks.find(b => b.name === w.name);
+        issues.push({
+            severity: 'warning',
+            component: null,
+            message: `${w.name} scores only ${w.score}/100.`,
+            fix: benchmark ? `Aim for ${describeRequirements(benchmark)} [${benchmark.id}].` : null
+        });
+    });
+
+    const best = [...facts.workloads].sort((a, b) => b.score - a.score)[0];
+    const worst = [...facts.workloads].sort((a, b) => a.score - b.score)[0];
+    const subject = facts.deviceType === 'Laptop' ? facts.name : 'This desktop build';
+
+    const summary = status === 'incompatible'
+        ? `${subject} has a critical compatibility problem that must be fixed before buying.`
+        : `${subject} earns ${facts.score}/100 for UIT coursework${status === 'issues' ? ', with some issues to review' : ''}.`;
+
+    const verdict = [
+        best ? `Strongest at **${best.name}** (${best.score}/100)` : null,
+        worst && worst !== best ? `weakest at **${worst.name}** (${worst.score}/100)` : null
+    ].filter(Boolean).join(', ') + '. ' + (issues.length > 0
+        ? `Address the ${issues.length} issue(s) listed above, starting with the most severe.`
+        : 'No changes are needed for the listed workloads.');
+
+    return { score: facts.score, status, summary, workloads, issues, verdict };
+};
+
+const analysisToMarkdown = (analysis) => [
+    `SCORE: ${analysis.score}`,
+    '',
+    `**${STATUS_LINE[analysis.status]}**`,
+    `**Summary**: ${analysis.summary}`,
+    '',
+    '**Workload Suitability**:',
+    ...analysis.workloads.map(w => `*   **${w.workload}** (${w.rating}): ${w.comment}`),
+    ...(analysis.issues.length > 0
+        ? ['', '**Issues**:', ...analysis.issues.map(i => `*   ${i.message}${i.fix ? ` → ${i.fix}` : ''}`)]
+        : []),
+    '',
+    `**Expert Verdict**: ${analysis.verdict}`
+].join('\n');
+
+const reply = (messages, json, benchmarks) => {
+    const prompt = messages[messages.length - 1].content;
+
+    const facts = parseAnalysisPrompt(prompt);
+    if (facts) {
+        const analysis = buildAnalysis(facts, benchmarks);
+        return json ? JSON.stringify(analysis) : analysisToMarkdown(analysis);
+    }
+
+    const original = prompt.match(/ORIGINAL TEXT:\n([\s\S]*)$/);
+    if (original) return original[1];
+
+    const overall = prompt.match(/^OVERALL BY ROW WINS: (.+)$/m);
+    const text = overall
+        ? `**Recommendation**: ${overall[1]}.\n\n(Offline mock provider - comparison based on the deterministic row winners only.)`
+        : 'The offline mock provider only analyses builds. Set LLM_PROVIDER to mistral or openai for free-form answers.';
+    return json ? JSON.stringify({ reply: text }) : text;
+};
+
+const wait = (ms, signal) => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const createMockProvider = ({ model }) => {
+    const benchmarks = loadWorkloads();
+
+    return {
+        name: 'mock',
+        model: model || 'mock-analyst',
+
+        async complete({ messages, json }) {
+            return reply(messages, json, benchmarks);
+        },
+
+        // Emit word-sized chunks so the streaming UI behaves as with a real model
+        async *stream({ messages, json, signal }) {
+            const chunks = reply(messages, json, benchmarks).match(/\S+\s*|\s+/g) || [];
+            for (const chunk of chunks) {
+                await wait(5, signal);
+                yield chunk;
+            }
+        }
+    };
+};
+
+module.exports = { createMockProvider, parseAnalysisPrompt };
@@ -0,0 +1,73 @@
+/**
+ * Provider for any endpoint that speaks the OpenAI chat-completions API
+ * (OpenAI, Groq, OpenRouter, or local servers like Ollama and LM Studio).
+ *
+ * OPENAI_BASE_URL defaults to https://api.openai.com/v1. OPENAI_API_KEY is
+ * optional because most local servers do not check it.
+ */
+const createOpenAICompatibleProvider = ({ model }) => {
+    const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!model) {
+        throw new Error('LLM_MODEL must be set when LLM_PROVIDER=openai');
+    }
+
+    const post = async (body, signal) => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+            },
+            body: JSON.stringify({ model, ...body }),
+            signal
+        });
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            throw new Error(`${baseUrl} responded with status ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+        }
+        return response;
+    };
+
+    return {
+        name: 'openai',
+        model,
+
+        async complete({ system, messages, json, signal }) {
+            const response = await post({
+                messages: [{ role: 'system', content: system }, ...messages],
+                ...(json && { response_format: { type: 'json_object' } })
+            }, signal);
+            const data = await response.json();
+            return data.choices?.[0]?.message?.content || '';
+        },
+
+        async *stream({ system, messages, json, signal }) {
+            const response = await post({
+                messages: [{ role: 'system', content: system }, ...messages],
+                stream: true,
+                ...(json && { response_format: { type: 'json_object' } })
+            }, signal);
+
+            const decoder = new TextDecoder();
+            let buffer = '';
+            for await (const chunk of response.body) {
+                buffer += decoder.decode(chunk, { stream: true });
+
+                // One "data: {...}" line per event; "data: [DONE]" ends the stream
+                let newline;
+                while ((newline = buffer.indexOf('\n')) !== -1) {
+                    const line = buffer.slice(0, newline).trim();
+                    buffer = buffer.slice(newline + 1);
+                    if (!line.startsWith('data:')) continue;
+                    const payload = line.slice(5).trim();
+                    if (payload === '[DONE]') return;
+                    const content = JSON.parse(payload).choices?.[0]?.delta?.content;
+                    if (typeof content === 'string' && content.length > 0) yield content;
+                }
+            }
+        }
+    };
+};
+
+module.exports = { createOpenAICompatibleProvider };
@@ -0,0 +1,162 @@
+const { catalog } = require('./catalog');
+
+/**
+ * Server-side rule engine.
+ *
+ * Evaluates the knowledge-graph inference rules (r1-r8) on catalogue records
+ * with the same conditions and messages as utils/ruleEngine.ts, so the rule
+ * findings quoted in analysis prompts are computed here from part ids and
+ * never taken from the request body.
+ */
+
+const ACTION_SEVERITY = {
+    report_critical_error: 'critical',
+    report_warning: 'warning'
+};
+
+const { socketCompatibility, ramCompatibility, formFactorCompatibility, bottleneckDetection, powerRequirements } = catalog.compatibility;
+
+const workloadNames = (ids) => ids.map(id => catalog.workloadsById[id].name).join(', ');
+
+// Estimated peak system draw: CPU max TDP + GPU TDP + platform baseline
+const estimateSystemPower = (cpu, gpu) =>
+    (cpu?.maxTdp || cpu?.tdp || 0) + (gpu?.tdp || 0) + powerRequirements.systemBaselineWattage.typical;
+
+// Executable form of each rule; returns null when the rule does not apply
+const RULES = {
+    // IF cpu.socket != motherboard.socket
+    r1: ({ parts: { cpu, motherboard } }) => {
+        if (!cpu || !motherboard) return null;
+        const listed = socketCompatibility.rules[cpu.socket]?.compatibleMotherboards;
+        const passed = cpu.socket === motherboard.socket && (!listed || listed.includes(motherboard.id));
+        return {
+            passed,
+            message: passed
+                ? `${cpu.name} (${cpu.socket}) fits ${motherboard.name} (${motherboard.socket})`
+                : `${cpu.name} uses ${cpu.socket}, but ${motherboard.name} has socket ${motherboard.socket}`
+        };
+    },
+    // IF ram.type != motherboard.ramType
+    r2: ({ parts: { ram, motherboard } }) => {
+        if (!ram || !motherboard) return null;
+        const listed = ramCompatibility.rules[ram.type]?.compatibleMotherboards;
+        const passed = ram.type === motherboard.ramType && (!listed || listed.includes(motherboard.id));
+        return {
+            passed,
+            message: passed
+                ? `${ram.type} memory matches ${motherboard.name}`
+                : `${ram.name} is ${ram.type}, but ${motherboard.name} only supports ${motherboard.ramType}`
+        };
+    },
+    // IF (cpu.tdp + gpu.tdp + baseline) > psu.wattage * 0.8
+    r3: ({ parts: { cpu, gpu, psu } }) => {
+        if (!psu || (!cpu && !gpu)) return null;
+        const totalPower = estimateSystemPower(cpu, gpu);
+        const safeThreshold = psu.wattage * 0.8;
+        const passed = totalPower <= safeThreshold;
+        return {
+            passed,
+            message: passed
+                ? `${totalPower}W ≤ ${safeThreshold}W (80% of ${psu.wattage}W)`
+                : `${totalPower}W > ${safeThreshold}W (80% of ${psu.wattage}W) - Insufficient!`
+        };
+    },
+    // IF motherboard.formFactor NOT IN case.supportedFormFactors
+    r4: ({ parts: { motherboard, pcCase } }) => {
+        if (!motherboard || !pcCase) return null;
+        const cases = formFactorCompatibility.rules[motherboard.formFactor]?.cases;
+        const passed = !!cases && cases.includes(pcCase.id);
+        return {
+            passed,
+            message: passed
+                ? `${motherboard.formFactor} board fits in ${pcCase.name}`
+                : `${motherboard.formFactor} board (${motherboard.name}) does not fit in ${pcCase.name} (${pcCase.formFactor} case)`
+        };
+    },
+    // IF (cpu.tier == 'entry-level' AND gpu.tier == 'high-end')
+    r5: ({ parts: { cpu, gpu } }) => {
+        if (!cpu || !gpu) return null;
+        const pairing = Object.values(bottleneckDetection.cpuGpuPairing).find(group => group.gpus.includes(gpu.id));
+        const listedBottleneck = !!pairing && pairing.bottleneckCPUs.includes(cpu.id);
+        const passed = !(cpu.tier === 'entry-level' && gpu.tier === 'high-end') && !listedBottleneck;
+        return {
+            passed,
+            message: passed
+                ? `${cpu.name} is balanced with ${gpu.name}`
+                : `${cpu.name} (${cpu.tier}) will bottleneck ${gpu.name} (${gpu.tier})`
+        };
+    },
+    // IF ram.capacity < workload.recommendedRAM
+    r6: ({ parts: { ram }, workloads }) => {
+        if (!ram || workloads.length === 0) return null;
+        const short = workloads.filter(id => ram.capacity < catalog.workloadsById[id].requirements.ram.recommended);
+        return {
+            passed: short.length === 0,
+            message: short.length === 0
+                ? `${ram.capacity}GB meets the recommended RAM for all checked workloads`
+                : `${ram.capacity}GB is below the recommended RAM for ${workloadNames(short)}`
+        };
+    },
+    // IF storage.interface == 'SATA' AND workload.requiresNVMe
+    r7: ({ parts: { storage }, workloads }) => {
+        if (!storage || workloads.length === 0) return null;
+        const needsNVMe = workloads.filter(id => catalog.workloadsById[id].requirements.storage.speed.includes('NVMe required'));
+        const passed = storage.interface !== 'SATA' || needsNVMe.length === 0;
+        return {
+            passed,
+            message: passed
+                ? `${storage.interface} storage is fast enough for the checked workloads`
+                : `${storage.name} is SATA, but ${workloadNames(needsNVMe)} require NVMe`
+        };
+    },
+    // IF gpu.length > case.maxGpuLength
+    r8: ({ parts: { gpu, pcCase } }) => {
+        if (!gpu || !pcCase || !gpu.length) return null;
+        const passed = gpu.length <= pcCase.maxGpuLength;
+        return {
+            passed,
+            message: passed
+                ? `${gpu.length}mm card fits ${pcCase.name} (max ${pcCase.maxGpuLength}mm)`
+                : `${gpu.name} is ${gpu.length}mm, but ${pcCase.name} only fits ${pcCase.maxGpuLength}mm`
+        };
+    }
+};
+
+/**
+ * Evaluate the inference rules against a build resolved from the catalogue.
+ *
+ * @param build - request.build (server/catalog.js resolveBuildRef); laptops yield no findings
+ * @param workloads - Workload ids checked by r6 / r7 (defaults to the suitability workloads)
+ * @returns Findings { ruleId, name, severity, passed, message } for every applicable rule, by priority
+ */
+const evaluateRules = (build, workloads = catalog.suitabilityWorkloads) => {
+    if (build.type === 'Laptop') return [];
+    const ctx = {
+        parts: {
+            cpu: build.cpu || null,
+            gpu: build.gpu || null,
+            motherboard: build.motherboard || null,
+            ram: build.ram || null,
+            storage: build.storage || null,
+            psu: build.psu || null,
+            pcCase: build.pcCase || null
+        },
+        workloads
+    };
+
+    return [...catalog.rules.values()]
+        .sort((a, b) => a.priority - b.priority)
+        .flatMap(rule => {
+            const outcome = RULES[rule.id]?.(ctx);
+            if (!outcome) return [];
+            return [{
+                ruleId: rule.id,
+                name: rule.name,
+                severity: ACTION_SEVERITY[rule.action] || 'info',
+                passed: outcome.passed,
+                message: outcome.message
+            }];
+        });
+};
+
+module.exports = { evaluateRules };
@@ -0,0 +1,95 @@
+const crypto = require('crypto');
+
+/**
+ * Abuse protection for the Express proxy: rejection logging, the CORS origin
+ * allowlist, per-IP rate limiting, the admin token check and JSON body errors.
+ */
+
+/**
+ * Log a refused request with its reason and answer with the given status
+ */
+const reject = (req, res, status, reason, body = { error: reason }) => {
+    console.warn(`🚫 ${status} ${req.method} ${req.path} from ${req.ip}${req.get('origin') ? ` (${req.get('origin')})` : ''}: ${reason}`);
+    return res.status(status).json(body);
+};
+
+/**
+ * Refuse browser requests from origins outside the allowlist (the cors
+ * package then only has to add headers for allowed ones). Requests without
+ * an Origin header (curl, server-to-server) pass.
+ *
+ * @param origins - Allowed origins, e.g. ['http://localhost:3000']
+ */
+const corsAllowlist = (origins) => (req, res, next) => {
+    const origin = req.get('origin');
+    if (origin && !origins.includes(origin)) return reject(req, res, 403, `origin ${origin} is not allowed`);
+    return next();
+};
+
+/**
+ * Fixed-window per-IP rate limiter
+ *
+ * @param windowMs - Window length
+ * @param max - Requests allowed per IP and window
+ */
+const createRateLimiter = ({ windowMs, max }) => {
+    const windows = new Map();
+
+    // Drop finished windows so idle clients do not accumulate
+    setInterval(() => {
+        const now = Date.now();
+        for (const [ip, w] of windows) {
+            if (w.resetAt <= now) windows.delete(ip);
+        }
+    }, windowMs).unref();
+
+    return (req, res, next) => {
+        const now = Date.now();
+        let w = windows.get(req.ip);
+        if (!w || w.resetAt <= now) {
+            w = { count: 0, resetAt: now + windowMs };
+            windows.set(req.ip, w);
+        }
+        w.count++;
+
+        res.set('RateLimit-Limit', String(max));
+        res.set('RateLimit-Remaining', String(Math.max(0, max - w.count)));
+        if (w.count > max) {
+            const retryAfter = Math.ceil((w.resetAt - now) / 1000);
+            res.set('Retry-After', String(retryAfter));
+            return reject(req, res, 429, `rate limit of ${max} requests per ${windowMs / 1000}s exceeded`,
+                { error: `Too many requests. Try again in ${retryAfter} seconds.` });
+        }
+        return next();
+    };
+};
+
+// Constant-time comparison; hashing first gives timingSafeEqual equal-length buffers
+const tokenMatches = (given, expected) => {
+    const digest = (value) => crypto.createHash('sha256').update(String(value)).digest();
+    return crypto.timingSafeEqual(digest(given), digest(expected));
+};
+
+/**
+ * Guard for admin endpoints: the x-admin-token header must match `token`.
+ * Without a configured token every request is refused; the client address is
+ * never trusted, since behind a same-host reverse proxy it is the proxy's.
+ *
+ * @param token - ADMIN_TOKEN, or undefined to disable the endpoints
+ */
+const requireAdminToken = (token) => (req, res, next) => {
+    if (!token) return reject(req, res, 403, 'admin endpoints are disabled without ADMIN_TOKEN', { error: 'Admin access denied' });
+    if (tokenMatches(req.get('x-admin-token') || '', token)) return next();
+    return reject(req, res, 403, 'missing or wrong admin token', { error: 'Admin access denied' });
+};
+
+/**
+ * Error handler for express.json(): oversized and malformed bodies
+ */
+const bodyErrorHandler = (err, req, res, next) => {
+    if (err.type === 'entity.too.large') return reject(req, res, 413, `body of ${err.length} bytes exceeds ${err.limit} bytes`);
+    if (err.type === 'entity.parse.failed') return reject(req, res, 400, 'body is not valid JSON');
+    return next(err);
+};
+
+module.exports = { reject, corsAllowlist, createRateLimiter, requireAdminToken, tokenMatches, bodyErrorHandler };
@@ -0,0 +1,39 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { requireAdminToken, tokenMatches } = require('./security');
+
+// Minimal req/res pair for one middleware call
+const call = (middleware, headers = {}) => {
+    const result = { status: null, next: false };
+    const req = { method: 'GET', path: '/api/admin/cache', ip: '127.0.0.1', get: (name) => headers[name.toLowerCase()] };
+    const res = {
+        status(code) {
+            result.status = code;
+            return this;
+        },
+        json() {
+            return this;
+        }
+    };
+    middleware(req, res, () => { result.next = true; });
+    return result;
+};
+
+test('compares tokens of any length', () => {
+    assert.equal(tokenMatches('s3cret', 's3cret'), true);
+    assert.equal(tokenMatches('s3cre', 's3cret'), false);
+    assert.equal(tokenMatches('', 's3cret'), false);
+});
+
+test('admin guard accepts only the configured token', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    const guard = requireAdminToken('s3cret');
+    assert.deepEqual(call(guard, { 'x-admin-token': 's3cret' }), { status: null, next: true });
+    assert.deepEqual(call(guard, { 'x-admin-token': 'guess' }), { status: 403, next: false });
+    assert.deepEqual(call(guard), { status: 403, next: false });
+});
+
+test('admin guard refuses everyone, localhost included, without a token', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    assert.deepEqual(call(requireAdminToken(undefined)), { status: 403, next: false });
+});
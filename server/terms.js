@@ -0,0 +1,53 @@
+const { catalog } = require('./catalog');
+
+/**
+ * Technical terms a translation must leave untouched.
+ *
+ * Collected from the text being translated: catalogue part, laptop and
+ * workload names, [id] citations, the SCORE line, quantities with units
+ * (16 GB, 650W, 5.6 GHz), hardware acronyms and model numbers (RTX 4060,
+ * i7-13700K, DDR5, B650). The translation prompt lists them and the reply
+ * is checked for each one.
+ */
+
+const MAX_TERMS = 80;
+
+// Longest first, so a full part name is found before the words inside it
+const KNOWN_NAMES = [...new Set([
+    ...Object.values(catalog.parts).flatMap(parts => [...parts.values()].map(p => p.name)),
+    ...[...catalog.laptops.values()].map(l => l.name),
+    ...catalog.workloadNames
+])].filter(Boolean).sort((a, b) => b.length - a.length);
+
+const ACRONYMS = ['CPU', 'GPU', 'RAM', 'VRAM', 'SSD', 'HDD', 'NVMe', 'PSU', 'CUDA', 'PCIe', 'ATX', 'TDP', 'LLM', 'VM'];
+
+const PATTERNS = [
+    /\[[\w-]+\]/g,                                                    // [c-14900k], [r1], [androidStudio]
+    /SCORE: \d+/g,
+    /\d+(?:\.\d+)?\s?(?:GB|TB|MB|W|GHz|MHz|Hz|mm|nm)\b/g,              // 16 GB, 650W, 5.6 GHz
+    /\b[A-Z]{2,5} \d{3,5}[A-Za-z]*\b/g,                               // RTX 4060, RX 7800XT
+    /\b(?=[\w-]*\d)(?=[\w-]*[A-Za-z])[A-Za-z\d][\w-]*[A-Za-z\d]\b/g,   // i7-13700K, DDR5, B650
+    new RegExp(`\\b(?:${ACRONYMS.join('|')})\\b`, 'g')
+];
+
+/**
+ * Terms in the text that must appear unchanged in its translation
+ *
+ * @param text - Text about to be translated
+ * @returns Distinct terms, without those already contained in a longer term (at most 80)
+ */
+const technicalTerms = (text) => {
+    const found = new Set(KNOWN_NAMES.filter(name => text.includes(name)));
+    PATTERNS.forEach(pattern => (text.match(pattern) || []).forEach(term => found.add(term)));
+    const terms = [...found];
+    return terms
+        .filter(term => !terms.some(other => other !== term && other.includes(term)))
+        .slice(0, MAX_TERMS);
+};
+
+/**
+ * Terms the translated text lost or altered
+ */
+const missingTerms = (terms, translated) => terms.filter(term => !translated.includes(term));
+
+module.exports = { technicalTerms, missingTerms };
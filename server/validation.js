@@ -0,0 +1,173 @@
+const { catalog, resolveBuildRef } = require('./catalog');
+const { evaluateRules } = require('./rules');
+const { compareBuilds } = require('./comparison');
+
+/**
+ * Chat request validation.
+ *
+ * The API accepts four tasks instead of free-form prompts:
+ *   analysis    { build, language, facts, responseFormat? }
+ *   followup    { analysisId, question, language }
+ *   comparison  { language, comparison: { items, majors, scores } }
+ *   translation { text, language }   (language is the target language)
+ *
+ * Part ids must exist in the catalogue and workload names in the knowledge
+ * base. Only computed scores are taken from the client (checked for shape);
+ * rule findings and comparison rows are recomputed here from the part ids,
+ * and a follow-up names a thread the server stored (server/conversations.js),
+ * so the only client prose in any prompt is the follow-up question itself.
+ */
+
+const LIMITS = {
+    analysisChars: 12000,   // Translation input
+    questionChars: 2000,    // One follow-up question
+    historyTurns: 20,       // Follow-up turns replayed from a stored thread
+    workloads: 12,
+    compareItems: 5,
+    majors: 5
+};
+
+const LANGUAGES = ['en', 'my'];
+const TASKS = ['analysis', 'followup', 'comparison', 'translation'];
+// Labels produced by the battery heuristic in utils/dataLoader.ts, e.g. "6-9 Hrs (Standard)"
+const BATTERY_RE = /^\d{1,2}-\d{1,2} Hrs \([A-Za-z ]{1,30}\)$/;
+
+const isObject = (v) => v !== null && typeof v === 'object' && !Array.isArray(v);
+const isScore = (v) => Number.isInteger(v) && v >= 0 && v <= 100;
+const isText = (v, max) => typeof v === 'string' && v.trim().length > 0 && v.length <= max;
+// Thread ids handed out with an analysis reply (crypto.randomUUID)
+const ANALYSIS_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const checkBuild = (ref, errors) => {
+    if (!isObject(ref) || !['Desktop', 'Laptop'].includes(ref.type) || !isObject(ref.parts)) {
+        errors.push('build must be { type: "Desktop" | "Laptop", parts: { slot: id } }');
+        return null;
+    }
+    if (Object.values(ref.parts).some(id => typeof id !== 'string' || id.length > 64)) {
+        errors.push('build part ids must be strings');
+        return null;
+    }
+    const { build, unknown } = resolveBuildRef(ref);
+    unknown.forEach(u => errors.push(`unknown part ${u}`));
+    if (ref.type === 'Laptop' && !ref.parts.laptop) errors.push('laptop build needs parts.laptop');
+    if (ref.type === 'Desktop' && ['cpu', 'motherboard', 'ram'].some(slot => !ref.parts[slot])) {
+        errors.push('desktop build needs cpu, motherboard and ram');
+    }
+    return build;
+};
+
+// Computed scores { score, workloads: [{ name, score }] }; returns them reduced to those fields
+const checkScores = (scores, name, errors) => {
+    if (!isObject(scores)) {
+        errors.push(`${name} is required`);
+        return null;
+    }
+    const before = errors.length;
+    if (!isScore(scores.score)) errors.push(`${name}.score must be an integer 0-100`);
+    if (!Array.isArray(scores.workloads) || scores.workloads.length > LIMITS.workloads) {
+        errors.push(`${name}.workloads must be an array of at most ${LIMITS.workloads}`);
+    } else {
+        scores.workloads.forEach((w, i) => {
+            if (!isObject(w) || !catalog.workloadNames.has(w.name)) errors.push(`${name}.workloads[${i}].name is not a known workload`);
+            else if (!isScore(w.score)) errors.push(`${name}.workloads[${i}].score must be an integer 0-100`);
+        });
+    }
+    if (errors.length > before) return null;
+    return { score: scores.score, workloads: scores.workloads.map(w => ({ name: w.name, score: w.score })) };
+};
+
+const checkFacts = (facts, type, errors) => {
+    const scores = checkScores(facts, 'facts', errors);
+    if (!isObject(facts)) return null;
+    // The rule engine runs on the server (server/rules.js)
+    if (facts.findings !== undefined) errors.push('facts.findings is not accepted; rule findings are computed by the server');
+    if (type === 'Laptop' && facts.battery !== undefined && !(typeof facts.battery === 'string' && BATTERY_RE.test(facts.battery))) {
+        errors.push('facts.battery is not a battery estimate label');
+    }
+    return scores && { ...scores, ...(type === 'Laptop' && facts.battery !== undefined && { battery: facts.battery }) };
+};
+
+const checkComparison = (comparison, errors) => {
+    if (!isObject(comparison)) {
+        errors.push('comparison is required');
+        return null;
+    }
+    const { items, majors, scores } = comparison;
+    // Rows, labels and winners are rebuilt from the catalogue (server/comparison.js)
+    ['rows', 'winner', 'reason'].forEach(key => {
+        if (comparison[key] !== undefined) errors.push(`comparison.${key} is not accepted; the server builds the comparison`);
+    });
+    if (!Array.isArray(items) || items.length < 2 || items.length > LIMITS.compareItems) {
+        errors.push(`comparison.items must hold 2-${LIMITS.compareItems} builds`);
+        return null;
+    }
+    const builds = items.map(ref => checkBuild(ref, errors));
+
+    if (!Array.isArray(majors) || majors.length > LIMITS.majors || majors.some(m => !catalog.majors.has(m))) {
+        errors.push('comparison.majors must list known majors');
+    }
+    if (!Array.isArray(scores) || scores.length !== items.length) {
+        errors.push('comparison.scores must hold one { score, workloads } per item');
+        return null;
+    }
+    const checked = scores.map((s, i) => checkScores(s, `comparison.scores[${i}]`, errors));
+    if (checked.every(Boolean)) {
+        const names = (s) => s.workloads.map(w => w.name).join('|');
+        if (checked.some(s => names(s) !== names(checked[0]))) errors.push('comparison.scores must list the same workloads for every item');
+    }
+
+    if (errors.length > 0) return null;
+    return { majors, ...compareBuilds(builds, checked) };
+};
+
+/**
+ * Validate a chat request body.
+ *
+ * @returns { request } with parts resolved from the catalogue, or { errors } listing every problem
+ */
+const parseChatRequest = (body) => {
+    const errors = [];
+    if (!isObject(body) || !TASKS.includes(body.task)) {
+        return { errors: [`task must be one of ${TASKS.join(', ')}`] };
+    }
+    const { task } = body;
+    // Translations defaulted to Burmese before they took a target language
+    const language = body.language === undefined ? (task === 'translation' ? 'my' : 'en') : body.language;
+    if (!LANGUAGES.includes(language)) errors.push('language must be "en" or "my"');
+
+    const request = { task, language };
+
+    if (task === 'analysis') {
+        request.build = checkBuild(body.build, errors);
+        request.buildRef = request.build ? { type: body.build.type, parts: body.build.parts } : null;
+        request.facts = checkFacts(body.facts, body.build?.type, errors);
+        if (request.build) request.findings = evaluateRules(request.build);
+
+        if (body.responseFormat !== undefined && body.responseFormat !== 'json') errors.push('responseFormat must be "json" when set');
+        request.json = body.responseFormat === 'json';
+        // Invalid JSON replies are repaired by the server from its own validation
+        if (body.repair !== undefined) errors.push('repair is not accepted');
+    }
+
+    if (task === 'followup') {
+        // The analysis and earlier turns are replayed from the server's thread (server.js)
+        if (body.analysis !== undefined || body.history !== undefined) errors.push('analysis and history are not accepted; send analysisId');
+        if (typeof body.analysisId !== 'string' || !ANALYSIS_ID_RE.test(body.analysisId)) errors.push('analysisId must be the id returned with the analysis');
+        if (!isText(body.question, LIMITS.questionChars)) errors.push(`question must be at most ${LIMITS.questionChars} characters`);
+        request.analysisId = body.analysisId;
+        request.question = body.question;
+    }
+
+    if (task === 'comparison') {
+        request.comparison = checkComparison(body.comparison, errors);
+    }
+
+    if (task === 'translation') {
+        if (!isText(body.text, LIMITS.analysisChars)) errors.push(`text must be at most ${LIMITS.analysisChars} characters`);
+        request.text = body.text;
+    }
+
+    return errors.length > 0 ? { errors } : { request };
+};
+
+module.exports = { parseChatRequest, LIMITS };
@@ -1,4 +1,4 @@
-import { SYSTEM_INSTRUCTION } from "../constants";
+import { AnalysisRequest, ChatRequest, Language, StructuredAnalysis } from "../types";
 
 // Backend API URL - using localhost for development
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
@@ -14,7 +14,7 @@ export const initializeMistral = (): boolean => {
   fetch(`${API_BASE_URL}/api/health`)
     .then(response => response.json())
     .then(data => {
-      isConnected = data.status === 'ok' && data.mistralConnected;
+      isConnected = data.status === 'ok' && data.providerReady;
       console.log('Backend connection status:', isConnected);
     })
     .catch(error => {
@@ -22,24 +22,31 @@ export const initializeMistral = (): boolean => {
       isConnected = false;
     });
 
-  // Return true optimistically - actual errors will be caught in sendMessageToMistral
+  // Return true optimistically - actual errors will be caught in sendChatRequest
   return true;
 };
 
+interface ChatReply {
+  text: string;
+  cachedAt: string | null;  // Set when the backend answered from its response cache
+  missingTerms: string[];   // /api/translate only: technical terms the translation altered
+}
+
+// JSON mode is only accepted for analyses
+type ChatBody = ChatRequest | (AnalysisRequest & { responseFormat: 'json' });
+
 /**
- * Send a message to the Mistral AI via the backend proxy
+ * POST a chat request to the backend proxy and return the reply text
  */
-export const sendMessageToMistral = async (message: string, systemInstructionOverride?: string): Promise<string> => {
+const postChat = async (body: ChatRequest, signal?: AbortSignal, path = '/api/chat'): Promise<ChatReply> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/chat`, {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        message,
-        systemInstruction: systemInstructionOverride || SYSTEM_INSTRUCTION
-      }),
+      body: JSON.stringify(body),
+      signal,
     });
 
     if (!response.ok) {
@@ -54,9 +61,10 @@ export const sendMessageToMistral = async (message: string, systemInstructionOve
     }
 
     isConnected = true;
-    return data.response;
+    return { text: data.response, cachedAt: data.cached ? data.cachedAt : null, missingTerms: data.missingTerms || [] };
 
   } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
     console.error("Chat API Error:", error);
     isConnected = false;
 
@@ -68,3 +76,147 @@ export const sendMessageToMistral = async (message: string, systemInstructionOve
     throw new Error(error.message || "Failed to get response from AI");
   }
 };
+
+/**
+ * Send a structured chat request (follow-up, comparison, translation, ...) via the backend proxy.
+ * The backend validates it and renders the prompt (see utils/chatRequest.ts for the builders).
+ */
+export const sendChatRequest = async (request: ChatRequest, signal?: AbortSignal): Promise<string> => {
+  const reply = await postChat(request, signal);
+  return reply.text;
+};
+
+/**
+ * Translate a finished analysis into `language` via the backend's /api/translate endpoint.
+ * Only the text is sent; part names, GB values and [id] citations are kept as written,
+ * and missingTerms lists any the model altered anyway.
+ *
+ * @example
+ * const { text, missingTerms } = await translateAnalysis(analysis, 'my', controller.signal);
+ */
+export const translateAnalysis = (text: string, language: Language, signal?: AbortSignal): Promise<ChatReply> =>
+  postChat({ task: 'translation', text, language }, signal, '/api/translate');
+
+// A text delta, the backend's repaired JSON reply replacing everything streamed so far,
+// or the final event: in JSON mode the backend's validated analysis (null when the reply
+// is invalid), and for analyses the id follow-up questions send back
+type StreamEvent =
+  | { delta: string }
+  | { replace: string }
+  | { done: true; analysis?: StructuredAnalysis | null; analysisId?: string };
+
+/**
+ * POST to the backend's SSE endpoint and yield its delta / replace events, then the `done` event
+ */
+async function* streamEvents(
+  body: ChatBody,
+  signal?: AbortSignal,
+  onCached?: (cachedAt: string) => void
+): AsyncGenerator<StreamEvent> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/api/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+    isConnected = false;
+    throw new Error("Backend server unreachable. Please run 'npm run dev:all' or start the server.");
+  }
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `Server responded with status ${response.status}`);
+  }
+
+  isConnected = true;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (!event.startsWith('data: ')) continue;
+
+        const payload = JSON.parse(event.slice(6));
+        if (payload.error) throw new Error(payload.details || payload.error);
+        if (payload.done) {
+          if (payload.cached) onCached?.(payload.cachedAt);
+          yield { done: true, analysis: payload.analysis, analysisId: payload.analysisId };
+          return;
+        }
+        if (typeof payload.replace === 'string') yield { replace: payload.replace };
+        else if (payload.delta) yield { delta: payload.delta };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Stream a reply from the Mistral AI via the backend's SSE endpoint.
+ * Yields text deltas as they arrive; abort the signal to cancel the request.
+ * A cached analysis arrives as one delta, and onCached receives the time it was cached.
+ *
+ * @example
+ * for await (const delta of streamMessageFromMistral(request, controller.signal)) {
+ *   text += delta;
+ * }
+ */
+export async function* streamMessageFromMistral(
+  request: ChatRequest,
+  signal?: AbortSignal,
+  onCached?: (cachedAt: string) => void
+): AsyncGenerator<string> {
+  for await (const event of streamEvents(request, signal, onCached)) {
+    if ('delta' in event) yield event.delta;
+  }
+}
+
+export interface StructuredStreamUpdate {
+  text: string;                                // Whole reply received so far
+  analysis?: StructuredAnalysis | null;        // Last update only: the backend's validated analysis, null when invalid
+  analysisId?: string;                         // Last update only: the thread id for follow-up questions
+}
+
+/**
+ * Stream an analysis as JSON (the StructuredAnalysis contract) via the backend's SSE endpoint.
+ * Yields the whole reply received so far after every event. The backend validates the
+ * reply, repairs it once when needed, and ends with an update carrying the analysis
+ * and its analysisId.
+ *
+ * @example
+ * for await (const { text, analysis } of streamStructuredAnalysis(request, controller.signal)) {
+ *   setAnalysis(analysis ? structuredToMarkdown(analysis) : previewStructuredAnalysis(text));
+ * }
+ */
+export async function* streamStructuredAnalysis(
+  request: AnalysisRequest,
+  signal?: AbortSignal,
+  onCached?: (cachedAt: string) => void
+): AsyncGenerator<StructuredStreamUpdate> {
+  let text = '';
+  for await (const event of streamEvents({ ...request, responseFormat: 'json' }, signal, onCached)) {
+    if ('done' in event) {
+      yield { text, analysis: event.analysis ?? null, analysisId: event.analysisId };
+      continue;
+    }
+    text = 'replace' in event ? event.replace : text + event.delta;
+    yield { text };
+  }
+}
@@ -25,6 +25,7 @@ export interface ComponentPart {
   major?: string; // Recommended major (from CSV)
   activities?: string; // Recommended activities (from CSV)
   programList?: string; // List of programs (from CSV)
+  laptopSpec?: LaptopSpec; // Parsed laptop fields (from CSV)
 }
 
 export interface PCBuild {
@@ -39,4 +40,460 @@ export interface PCBuild {
   pcCase: ComponentPart | null;
   // Laptop
   laptop: ComponentPart | null;
-}
\ No newline at end of file
+}
+
+// --- Knowledge Base Records ---
+// Full component records as stored in knowledge-base/datasets/components.json.
+// COMPONENT_DB only carries the display fields, so engines look these up by id.
+
+export type ComponentTier = 'high-end' | 'mid-range' | 'budget' | 'entry-level';
+
+export interface BaseComponentRecord {
+  id: string;
+  name: string;
+  manufacturer: string;
+  tier: ComponentTier;
+  priceRange: string;
+  specs: string;
+}
+
+export interface CPURecord extends BaseComponentRecord {
+  socket: string;
+  cores: number;
+  threads: number;
+  baseClock: string;
+  boostClock: string;
+  tdp: number;
+  maxTdp?: number;
+  generation: string;
+  workloadSuitability?: Record<string, number>;
+}
+
+export interface GPURecord extends BaseComponentRecord {
+  vram: number;
+  vramType: string;
+  tdp: number;
+  length: number;        // Card length in mm, checked against CaseRecord.maxGpuLength
+  cudaCores?: number;
+  rtCores?: number;
+  tensorCores?: number;
+  streamProcessors?: number;
+  workloadSuitability?: Record<string, number>;
+}
+
+export interface MotherboardRecord extends BaseComponentRecord {
+  socket: string;
+  chipset: string;
+  ramType: string;
+  maxRam: number;
+  ramSlots: number;
+  formFactor: string;
+}
+
+export interface RAMRecord extends BaseComponentRecord {
+  type: string;
+  capacity: number;
+  speed: number;
+  modules: string;
+  latency: string;
+}
+
+export interface StorageRecord extends BaseComponentRecord {
+  capacity: number;
+  interface: string;
+  generation: string;
+  readSpeed: number;
+  writeSpeed: number;
+}
+
+export interface PSURecord extends BaseComponentRecord {
+  wattage: number;
+  efficiency: string;
+  modular: string;
+}
+
+export interface CaseRecord extends BaseComponentRecord {
+  formFactor: string;
+  maxGpuLength: number;
+  airflow: string;
+}
+
+// --- Rule Engine ---
+
+export type DesktopSlot = 'cpu' | 'gpu' | 'motherboard' | 'ram' | 'storage' | 'psu' | 'pcCase';
+export type FindingSeverity = 'critical' | 'warning' | 'info';
+
+export interface RuleFinding {
+  ruleId: string;        // Inference rule id from knowledge-graph.json (r1-r8)
+  name: string;
+  severity: FindingSeverity;
+  passed: boolean;
+  message: string;
+  components: DesktopSlot[];
+}
+
+export type BuildVerdict = 'compatible' | 'issues' | 'incompatible';
+
+export interface RuleReport {
+  verdict: BuildVerdict;
+  findings: RuleFinding[];
+}
+
+export type SlotStatus = 'ok' | 'warning' | 'incompatible' | 'unchecked';
+
+// --- Suitability Scoring ---
+
+export interface WorkloadScore {
+  id: string;            // Workload key in performance-benchmarks.json
+  name: string;
+  score: number;         // 0-100
+  breakdown: { cpu: number; ram: number; storage: number; gpu: number };
+}
+
+export interface SuitabilityScore {
+  overall: number;       // 0-100, mean of workload scores (capped when incompatible)
+  workloads: WorkloadScore[];
+  cappedReason?: 'capped_incompatible';   // UI_TEXT key explaining the cap
+}
+
+// --- Program Requirements ---
+
+export interface ProgramShortfall {
+  component: 'cpu' | 'ram' | 'storage' | 'gpu' | 'os';
+  level: 'minimum' | 'recommended';   // minimum: the program will not run properly
+  actual: string;                     // What the hardware has, e.g. "8GB"
+  required: string;                   // What the program needs at that level, e.g. "16GB"
+}
+
+export interface ProgramFit {
+  program: string;           // As typed in "Required Programs"
+  workload: WorkloadScore;   // Score against the catalogue workload that covers it
+  meetsMinimum: boolean;
+  shortfalls: ProgramShortfall[];
+}
+
+export interface ProgramCheck {
+  fits: ProgramFit[];
+  unknown: string[];         // Programs not in the catalogue
+}
+
+// --- Build Solver ---
+
+export interface PartSwap {
+  slot: DesktopSlot;
+  from: ComponentPart;
+  to: ComponentPart;
+}
+
+export interface FixSuggestion {
+  swaps: PartSwap[];
+  build: PCBuild;
+  priceDelta: number;    // USD, from priceRange midpoints
+  scoreDelta: number;    // Change in overall suitability score
+}
+
+export type FixRanking = 'price' | 'score';
+
+// --- Build Generator ---
+
+export interface BillOfMaterialsLine {
+  slot: DesktopSlot;
+  part: ComponentPart;
+  priceUSD: number;
+  reason: string;        // Why this part was picked for the requested workloads
+}
+
+export interface GeneratedBuild {
+  build: PCBuild;
+  totalUSD: number;
+  totalMMK: number;
+  score: number;         // Mean score over the requested workloads
+  workloads: WorkloadScore[];
+  billOfMaterials: BillOfMaterialsLine[];
+}
+
+// --- Laptop Dataset ---
+// Normalised rows from dataset/merged_laptop_data_cleaned.csv (see utils/laptopSchema.ts).
+
+export interface LaptopRow {
+  id: string;
+  name: string;
+  brand: string;
+  processor: string;
+  ramGB: number;
+  ssdGB: number;
+  hddGB: number;
+  os: string;
+  graphics: string;
+  screenInches: number;
+  resolution: string;
+  cores: number | null;      // null when the dataset does not know
+  threads: number | null;
+  specScore: number | null;
+  priceINR: number;
+  priceMMK: number;
+  major: string;
+  activities: string;
+  programList: string;
+}
+
+export type CpuVendor = 'Intel' | 'AMD' | 'Apple' | 'Qualcomm' | 'Unknown';
+export type GpuVendor = 'NVIDIA' | 'AMD' | 'Intel' | 'Apple' | 'Unknown';
+
+export interface ParsedCPU {
+  vendor: CpuVendor;
+  family: string;            // e.g. "Core i7", "Ryzen 5", "Apple M2 Pro", "Celeron"
+  generation: number | null; // Intel "12th Gen" → 12, Ryzen 5600H → 5, Apple M2 → 2
+  model: string | null;      // e.g. "5600H", "N4020"
+  tier: ComponentTier;
+}
+
+export interface ParsedGPU {
+  vendor: GpuVendor;
+  model: string;             // e.g. "RTX 3050 Ti", "Iris Xe"
+  vramGB: number;            // 0 for integrated graphics
+  dedicated: boolean;
+  tier: ComponentTier;
+}
+
+export interface LaptopSpec {
+  brand: string;
+  os: string;
+  cpu: ParsedCPU;
+  gpu: ParsedGPU;
+  ramGB: number;
+  ssdGB: number;
+  hddGB: number;
+  cores: number | null;
+  threads: number | null;
+  screenInches: number;
+  resolution: { width: number; height: number } | null;
+  specScore: number | null;
+}
+
+export type DiagnosticCode =
+  | 'missing-column'
+  | 'unexpected-column'
+  | 'parse-error'
+  | 'invalid-value'
+  | 'out-of-range'
+  | 'defaulted'
+  | 'unit-converted'
+  | 'duplicate-id';
+
+export interface DatasetDiagnostic {
+  severity: 'error' | 'warning';   // error: row or column unusable, warning: value defaulted or converted
+  code: DiagnosticCode;
+  line: number | null;             // CSV line number, null for header problems
+  column: string | null;
+  value?: string;
+  message: string;
+}
+
+export interface LaptopDatasetReport {
+  rows: LaptopRow[];
+  diagnostics: DatasetDiagnostic[];
+  totalRows: number;
+  skippedRows: number;
+}
+
+// --- Laptop Filters ---
+
+export type GpuClass = 'integrated' | 'entry' | 'mainstream' | 'high-end';
+export type MatchMode = 'any' | 'all';
+export type LaptopSortKey = 'price' | 'specScore' | 'suitability' | 'value';
+
+// null bound = unbounded
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface LaptopFilters {
+  maxPriceMMK: number;
+  ram: NumericRange;
+  ssd: NumericRange;
+  cores: NumericRange;
+  screen: NumericRange;
+  brands: string[];          // Empty = any
+  os: string[];
+  gpuClasses: GpuClass[];
+  majors: string[];
+  majorMode: MatchMode;
+  programs: string[];
+  programMode: MatchMode;
+  gamingOnly: boolean;
+}
+
+// --- Comparison ---
+
+export interface CompareItem {
+  key: string;               // "laptop:<id>" or "desktop:<part ids>"
+  kind: DeviceType;
+  name: string;
+  build: PCBuild;
+}
+
+export interface CompareCell {
+  display: string;
+  value: number | null;      // Numeric value used to find the row winner
+}
+
+export interface CompareRow {
+  id: string;
+  label: string;
+  better: 'higher' | 'lower' | null;  // null = informational, no winner
+  cells: CompareCell[];
+  winners: number[];         // Indices of the best cells (ties share the win)
+}
+
+export interface CompareResult {
+  rows: CompareRow[];
+  winner: number | null;
+  reason: string;
+}
+
+// --- Saved Builds ---
+// Stored builds keep part ids only; parts are looked up again on restore so
+// saved entries survive changes to the ComponentPart / PCBuild fields.
+
+export type BuildSlot = DesktopSlot | 'laptop';
+
+export interface BuildRef {
+  type: DeviceType;
+  parts: Partial<Record<BuildSlot, string>>;
+}
+
+export interface SavedBuild {
+  id: string;
+  name: string;
+  build: BuildRef;
+  analysis: string | null;   // AI report at save time
+  score: number | null;      // Computed suitability at save time
+  savedAt: string;           // ISO timestamp
+}
+
+// Current tab state, restored after a page refresh
+export interface WorkspaceSnapshot {
+  build: BuildRef;
+  analysis: string | null;
+  compare: BuildRef[];
+  filters: LaptopFilters;
+  sort: LaptopSortKey;
+}
+
+// --- Report Export ---
+
+export interface ReportComponent {
+  slot: BuildSlot;
+  name: string;
+  specs: string;
+  priceMMK: number | null;   // Laptop price, or the priceRange midpoint for desktop parts
+}
+
+export interface AnalysisReport {
+  generatedAt: string;       // ISO timestamp
+  language: Language;
+  deviceType: DeviceType;
+  components: ReportComponent[];
+  totalMMK: number | null;
+  battery: string | null;    // Laptops only
+  suitability: SuitabilityScore;
+  ruleReport: RuleReport | null;  // Desktops only
+  analysis: string | null;   // AI verdict (Markdown)
+  structuredAnalysis: StructuredAnalysis | null;  // Same verdict as validated JSON, when the model produced it
+}
+
+// --- Structured Analysis ---
+// JSON contract the analysis prompt asks Mistral for (validated in server/analysisSchema.js).
+
+export type WorkloadRating = 'excellent' | 'good' | 'adequate' | 'poor' | 'unusable';
+
+export interface WorkloadAssessment {
+  workload: string;          // e.g. "Coding & Compiling", "Android Studio"
+  rating: WorkloadRating;
+  comment: string;
+}
+
+export interface AnalysisIssue {
+  severity: FindingSeverity;
+  component: string | null;  // Part the issue is about, null for the build as a whole
+  message: string;
+  fix: string | null;
+}
+
+export interface StructuredAnalysis {
+  score: number;             // 0-100
+  status: BuildVerdict;
+  summary: string;
+  workloads: WorkloadAssessment[];
+  issues: AnalysisIssue[];
+  verdict: string;           // Expert advice, Markdown allowed
+}
+
+// --- Chat API ---
+// Structured requests for /api/chat; the server validates them against the
+// knowledge base and renders the prompts itself (server/prompts/). Rule
+// findings and comparison rows are recomputed there from the part ids.
+
+export interface ComputedScores {
+  score: number;             // Computed suitability (0-100)
+  workloads: { name: string; score: number }[];
+}
+
+export interface AnalysisFacts extends ComputedScores {
+  battery?: string;          // Laptop battery estimate label
+}
+
+export interface AnalysisRequest {
+  task: 'analysis';
+  build: BuildRef;
+  language: Language;
+  facts: AnalysisFacts;
+}
+
+export interface FollowUpRequest {
+  task: 'followup';
+  analysisId: string;        // Returned with the analysis; the server keeps the thread
+  question: string;
+  language: Language;
+}
+
+export interface ComparisonRequest {
+  task: 'comparison';
+  language: Language;
+  comparison: {
+    items: BuildRef[];
+    majors: string[];
+    scores: ComputedScores[];  // One per item, same workloads in the same order
+  };
+}
+
+export interface TranslationRequest {
+  task: 'translation';
+  text: string;
+  language: Language;        // Target language
+}
+
+// Finished analysis in the other language, kept next to the original
+export interface AnalysisTranslation {
+  language: Language;
+  text: string;
+  missingTerms: string[];    // Technical terms the translation altered
+}
+
+export type ChatRequest = AnalysisRequest | FollowUpRequest | ComparisonRequest | TranslationRequest;
+
+// --- Localisation ---
+
+// Plural forms picked with Intl.PluralRules; Burmese only has "other"
+export interface PluralText {
+  one?: string;
+  other: string;
+}
+
+export type LocalizedText = Record<Language, string | PluralText>;
+
+export interface NumberFormatOptions {
+  myanmarNumerals?: boolean;   // ၀-၉ instead of 0-9 (Burmese only)
+}
@@ -0,0 +1,51 @@
+/**
+ * AI Analysis Parsing
+ *
+ * Reads the metadata lines the system prompt asks Mistral to start with:
+ * "SCORE: [0-100]" and a status line "✅ COMPATIBLE", "❌ INCOMPATIBLE" or
+ * "⚠️ ISSUES". Older prompts (and some replies) say "⚠️ WARNING", and
+ * Burmese replies may translate the word, so the emoji alone is enough.
+ */
+
+import { BuildVerdict } from '../types';
+
+const STATUS_LINE_RE = /^[\s*_#>-]*(✅|❌|⚠️?)\s*\**\s*([A-Za-z]*)/mu;
+
+const STATUS_WORDS: Record<string, BuildVerdict> = {
+    COMPATIBLE: 'compatible',
+    INCOMPATIBLE: 'incompatible',
+    ISSUES: 'issues',
+    WARNING: 'issues',
+    WARNINGS: 'issues'
+};
+
+const STATUS_EMOJI: Record<string, BuildVerdict> = {
+    '✅': 'compatible',
+    '❌': 'incompatible',
+    '⚠': 'issues',
+    '⚠️': 'issues'
+};
+
+/**
+ * Status from the first line that starts with a status emoji
+ *
+ * @param text - AI response (complete or still streaming)
+ * @returns The verdict, or null when the response has no status line (e.g. follow-up answers)
+ * @example
+ * parseAnalysisStatus('SCORE: 74\n**⚠️ ISSUES**\n...'); // 'issues'
+ */
+export const parseAnalysisStatus = (text: string): BuildVerdict | null => {
+    const m = text.match(STATUS_LINE_RE);
+    if (!m) return null;
+    return STATUS_WORDS[m[2].toUpperCase()] || STATUS_EMOJI[m[1]];
+};
+
+/**
+ * Score from the "SCORE: n" line
+ *
+ * Only accepted once a non-digit follows, so "SCORE: 7" is not read while "75" is still streaming.
+ */
+export const parseAnalysisScore = (text: string): number | null => {
+    const m = text.match(/SCORE:\s*(\d+)(?=\D)/i);
+    return m ? parseInt(m[1], 10) : null;
+};
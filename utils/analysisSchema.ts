@@ -0,0 +1,155 @@
+/**
+ * Structured Analysis Schema
+ *
+ * Renders the JSON object the analysis prompt asks Mistral for back into the
+ * Markdown template so follow-ups, saved builds and exports keep working on
+ * plain text. The backend validates the final reply (server/analysisSchema.js)
+ * and sends the StructuredAnalysis with its last stream event; while the JSON
+ * is still streaming, previewStructuredAnalysis renders the fields that are
+ * already complete.
+ */
+
+import { AnalysisIssue, BuildVerdict, FindingSeverity, StructuredAnalysis, WorkloadAssessment, WorkloadRating } from '../types';
+
+const STATUSES: BuildVerdict[] = ['compatible', 'issues', 'incompatible'];
+const RATINGS: WorkloadRating[] = ['excellent', 'good', 'adequate', 'poor', 'unusable'];
+const SEVERITIES: FindingSeverity[] = ['critical', 'warning', 'info'];
+
+const STATUS_LINE: Record<BuildVerdict, string> = {
+    compatible: '✅ COMPATIBLE',
+    issues: '⚠️ ISSUES',
+    incompatible: '❌ INCOMPATIBLE'
+};
+
+const RATING_ICON: Record<WorkloadRating, string> = {
+    excellent: '🟢',
+    good: '🟢',
+    adequate: '🟡',
+    poor: '🟠',
+    unusable: '🔴'
+};
+
+// Complete a JSON prefix by closing its open string and brackets, or null when it ends mid-token
+const completeJsonPrefix = (prefix: string): string | null => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (const char of prefix) {
+        if (escaped) escaped = false;
+        else if (inString) {
+            if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') inString = true;
+        else if (char === '{') stack.push('}');
+        else if (char === '[') stack.push(']');
+        else if (char === '}' || char === ']') stack.pop();
+    }
+    const closers = stack.reverse().join('');
+    // Drop a half-written escape sequence
+    if (inString) return `${escaped ? prefix.slice(0, -1) : prefix}"${closers}`;
+    const body = prefix.trimEnd();
+    // The value before a trailing comma is complete
+    if (body.endsWith(',')) return body.slice(0, -1) + closers;
+    // A cut-off number or literal ("7" of "72", "tru") would parse as the wrong value
+    return /[\w.]$/.test(body) ? null : body + closers;
+};
+
+/**
+ * Parse the start of a JSON object that is still streaming
+ *
+ * Closes the open string and brackets; when that does not parse (a half-written
+ * key or unicode escape), cuts back to the previous comma or opening bracket.
+ *
+ * @returns The parsed value, or undefined before the opening brace
+ */
+const parsePartialJson = (text: string): unknown => {
+    let prefix = text.slice(Math.max(text.indexOf('{'), 0));
+    while (prefix.startsWith('{')) {
+        const completed = completeJsonPrefix(prefix);
+        if (completed !== null) {
+            try {
+                return JSON.parse(completed);
+            } catch {
+                // Cut back below
+            }
+        }
+        const from = prefix.length - 2;
+        const cut = Math.max(prefix.lastIndexOf(',', from), prefix.lastIndexOf('{', from), prefix.lastIndexOf('[', from));
+        if (cut < 0) return undefined;
+        prefix = prefix.slice(0, cut + 1);
+    }
+    return undefined;
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isOneOf = <T extends string>(options: readonly T[], v: unknown): v is T => options.some(option => option === v);
+const optionalString = (v: unknown): string | null => (isString(v) ? v : null);
+
+// Streamed workload entries whose name and rating are complete
+const toWorkload = (w: unknown): WorkloadAssessment | null =>
+    isRecord(w) && isString(w.workload) && isOneOf(RATINGS, w.rating)
+        ? { workload: w.workload, rating: w.rating, comment: typeof w.comment === 'string' ? w.comment : '' }
+        : null;
+
+// Streamed issues whose severity and message are complete
+const toIssue = (issue: unknown): AnalysisIssue | null =>
+    isRecord(issue) && isOneOf(SEVERITIES, issue.severity) && isString(issue.message)
+        ? { severity: issue.severity, component: optionalString(issue.component), message: issue.message, fix: optionalString(issue.fix) }
+        : null;
+
+const present = <T>(value: T | null): value is T => value !== null;
+
+const workloadLine = (w: WorkloadAssessment) => `*   ${RATING_ICON[w.rating]} **${w.workload}** (${w.rating}): ${w.comment}`;
+
+const issueLine = (issue: AnalysisIssue) =>
+    `*   ${issue.severity === 'critical' ? '❌' : issue.severity === 'warning' ? '⚠️' : 'ℹ️'} ${issue.component ? `**${issue.component}**: ` : ''}${issue.message}${issue.fix ? ` → ${issue.fix}` : ''}`;
+
+/**
+ * Render a structured analysis in the Markdown template of the analysis system prompt (server/prompts/analysis.js)
+ *
+ * The result still carries the SCORE and status lines, so the Markdown parser
+ * reads the same values back from saved or exported text.
+ */
+export const structuredToMarkdown = (analysis: StructuredAnalysis): string => {
+    const lines = [
+        `SCORE: ${analysis.score}`,
+        '',
+        `**${STATUS_LINE[analysis.status]}**`,
+        `**Summary**: ${analysis.summary}`,
+        '',
+        '**Workload Suitability**:',
+        ...analysis.workloads.map(workloadLine)
+    ];
+    if (analysis.issues.length > 0) {
+        lines.push('', '**Issues**:', ...analysis.issues.map(issueLine));
+    }
+    lines.push('', `**Expert Verdict**: ${analysis.verdict}`);
+    return lines.join('\n');
+};
+
+/**
+ * Render the fields of a still-streaming JSON analysis in the same template
+ *
+ * Only finished values are shown: the SCORE line appears once the number is
+ * complete, so parseAnalysisScore picks it up as early as in the Markdown stream.
+ *
+ * @param text - JSON received so far
+ * @returns Markdown for the complete fields, or '' before the first one
+ */
+export const previewStructuredAnalysis = (text: string): string => {
+    const v = parsePartialJson(text);
+    if (!isRecord(v)) return '';
+
+    const lines: string[] = [];
+    if (typeof v.score === 'number' && v.score >= 0 && v.score <= 100) lines.push(`SCORE: ${Math.round(v.score)}`, '');
+    if (isOneOf(STATUSES, v.status)) lines.push(`**${STATUS_LINE[v.status]}**`);
+    if (isString(v.summary)) lines.push(`**Summary**: ${v.summary}`);
+
+    const workloads = Array.isArray(v.workloads) ? v.workloads.map(toWorkload).filter(present) : [];
+    if (workloads.length > 0) lines.push('', '**Workload Suitability**:', ...workloads.map(workloadLine));
+    const issues = Array.isArray(v.issues) ? v.issues.map(toIssue).filter(present) : [];
+    if (issues.length > 0) lines.push('', '**Issues**:', ...issues.map(issueLine));
+    if (isString(v.verdict)) lines.push('', `**Expert Verdict**: ${v.verdict}`);
+    return lines.join('\n');
+};
@@ -0,0 +1,185 @@
+/**
+ * Build Generator
+ *
+ * Searches components.json for compatible desktop builds under an MMK budget
+ * and ranks them by the workload scores from performance-benchmarks.json.
+ *
+ * PSU and case do not affect workload scores, so for every CPU / board / RAM /
+ * GPU / storage combination only the cheapest PSU and case that keep all
+ * part-to-part rules passing are considered.
+ */
+
+import { estimatePrice, loadComponents, performanceBenchmarksData, usdToMmk } from './dataLoader';
+import { estimateSystemPower, SUITABILITY_WORKLOADS, WorkloadId } from './ruleEngine';
+import { isBuildValid } from './buildSolver';
+import { programWorkloads } from './programRequirements';
+import { profileFromBuild, scoreWorkload } from './scoring';
+import {
+    BillOfMaterialsLine,
+    CaseRecord,
+    CPURecord,
+    DesktopSlot,
+    GeneratedBuild,
+    GPURecord,
+    MotherboardRecord,
+    PCBuild,
+    PSURecord,
+    RAMRecord,
+    StorageRecord
+} from '../types';
+
+export interface GeneratorOptions {
+    budgetMMK: number;
+    majors?: string[];
+    workloads?: WorkloadId[];
+    programs?: string[];
+    limit?: number;
+}
+
+const DEFAULT_LIMIT = 3;
+
+const majorWorkloads = performanceBenchmarksData.majors.workloads as Record<string, WorkloadId[]>;
+
+/**
+ * Workloads to optimise for: explicit selection first, then the majors' defaults combined with
+ * the workloads of any catalogued required programs, then the suitability workloads
+ */
+export const resolveWorkloads = (majors: string[] = [], workloads?: WorkloadId[], programs: string[] = []): WorkloadId[] => {
+    if (workloads && workloads.length > 0) return workloads;
+    const fromMajors = Array.from(new Set([...majors.flatMap(m => majorWorkloads[m] || []), ...programWorkloads(programs)]));
+    if (fromMajors.length > 0) return fromMajors;
+    return SUITABILITY_WORKLOADS;
+};
+
+const price = (part: { priceRange: string }) => estimatePrice(part.priceRange);
+
+const byPrice = <T extends { priceRange: string }>(parts: T[]) =>
+    parts.slice().sort((a, b) => price(a) - price(b));
+
+const emptyBuild = (): PCBuild => ({
+    type: 'Desktop',
+    cpu: null,
+    gpu: null,
+    motherboard: null,
+    ram: null,
+    storage: null,
+    psu: null,
+    pcCase: null,
+    laptop: null
+});
+
+const maxRequirement = (workloads: WorkloadId[], pick: (id: WorkloadId) => number | undefined) =>
+    Math.max(0, ...workloads.map(id => pick(id) || 0));
+
+const explain = (
+    slot: DesktopSlot,
+    build: PCBuild,
+    workloads: WorkloadId[]
+): string => {
+    const w = performanceBenchmarksData.workloads;
+    const cpu = build.cpu as CPURecord;
+    const gpu = build.gpu as GPURecord;
+    const ram = build.ram as RAMRecord;
+    const storage = build.storage as StorageRecord;
+    const board = build.motherboard as MotherboardRecord;
+
+    switch (slot) {
+        case 'cpu': {
+            const cores = maxRequirement(workloads, id => w[id].requirements.cpu.recommendedCores);
+            return `${cpu.cores} cores (${cpu.tier}); your workloads recommend ${cores}`;
+        }
+        case 'motherboard':
+            return `${board.socket} socket for the CPU, ${board.ramType} slots for the RAM, ${board.formFactor}`;
+        case 'ram': {
+            const recommended = maxRequirement(workloads, id => w[id].requirements.ram.recommended);
+            return `${ram.capacity}GB ${ram.type}; your workloads recommend ${recommended}GB`;
+        }
+        case 'gpu': {
+            const vram = maxRequirement(workloads, id => (w[id].requirements.gpu as { recommendedVRAM?: number }).recommendedVRAM);
+            return vram > 0
+                ? `${gpu.vram}GB VRAM; your workloads recommend ${vram}GB`
+                : `${gpu.vram}GB VRAM for display output; your workloads do not need a strong GPU`;
+        }
+        case 'storage': {
+            const capacity = maxRequirement(workloads, id => w[id].requirements.storage.minimumCapacity);
+            return storage.capacity >= capacity
+                ? `${storage.capacity}GB ${storage.interface}; your workloads need at least ${capacity}GB`
+                : `${storage.capacity}GB ${storage.interface}; slightly under the ${capacity}GB your workloads ask for, to stay in budget`;
+        }
+        case 'psu':
+            return `Cheapest PSU that keeps the ${estimateSystemPower(cpu, gpu)}W estimated draw under 80% of its rating`;
+        case 'pcCase':
+            return `Cheapest case that fits the ${board.formFactor} board and ${gpu.length}mm GPU`;
+    }
+};
+
+const SLOT_ORDER: DesktopSlot[] = ['cpu', 'motherboard', 'ram', 'gpu', 'storage', 'psu', 'pcCase'];
+
+/**
+ * Generate the best compatible desktop builds under a budget
+ *
+ * Every build includes a discrete GPU: several catalogue CPUs (F-series,
+ * Ryzen 5000) have no integrated graphics.
+ *
+ * @param options - Budget in MMK, plus majors, required programs and/or explicit workloads to optimise for
+ * @returns Up to `limit` builds, best workload score first, one per CPU/GPU pairing
+ * @example
+ * const builds = generateBuilds({ budgetMMK: 3000000, majors: ['Software Engineering'] });
+ */
+export const generateBuilds = ({ budgetMMK, majors, workloads, programs, limit = DEFAULT_LIMIT }: GeneratorOptions): GeneratedBuild[] => {
+    const targets = resolveWorkloads(majors, workloads, programs);
+
+    const cpus = loadComponents('CPU') as CPURecord[];
+    const boards = loadComponents('Motherboard') as MotherboardRecord[];
+    const rams = loadComponents('RAM') as RAMRecord[];
+    const gpus = loadComponents('GPU') as GPURecord[];
+    const drives = loadComponents('Storage') as StorageRecord[];
+    const psus = byPrice(loadComponents('PSU') as PSURecord[]);
+    const cases = byPrice(loadComponents('Case') as CaseRecord[]);
+
+    // Best build per CPU + GPU pairing keeps the shortlist varied
+    const best = new Map<string, GeneratedBuild>();
+
+    cpus.forEach(cpu => boards.filter(b => b.socket === cpu.socket).forEach(board =>
+        rams.filter(r => r.type === board.ramType).forEach(ram => gpus.forEach(gpu => drives.forEach(storage => {
+            const core: PCBuild = { ...emptyBuild(), cpu, motherboard: board, ram, gpu, storage };
+            const corePrice = price(cpu) + price(board) + price(ram) + price(gpu) + price(storage);
+            if (usdToMmk(corePrice) > budgetMMK) return;
+
+            const psu = psus.find(p => isBuildValid({ ...core, psu: p }));
+            const pcCase = psu && cases.find(c => isBuildValid({ ...core, psu, pcCase: c }));
+            if (!psu || !pcCase) return;
+
+            const build: PCBuild = { ...core, psu, pcCase };
+            const totalUSD = corePrice + price(psu) + price(pcCase);
+            const totalMMK = usdToMmk(totalUSD);
+            if (totalMMK > budgetMMK) return;
+
+            const profile = profileFromBuild(build);
+            const scores = targets.map(id => scoreWorkload(profile, id));
+            const score = Math.round(scores.reduce((sum, s) => sum + s.score, 0) / scores.length);
+
+            const key = `${cpu.id}+${gpu.id}`;
+            const current = best.get(key);
+            if (current && (current.score > score || (current.score === score && current.totalUSD <= totalUSD))) return;
+
+            best.set(key, {
+                build,
+                totalUSD,
+                totalMMK,
+                score,
+                workloads: scores,
+                billOfMaterials: SLOT_ORDER.map((slot): BillOfMaterialsLine => ({
+                    slot,
+                    part: build[slot]!,
+                    priceUSD: price(build[slot] as unknown as { priceRange: string }),
+                    reason: explain(slot, build, targets)
+                }))
+            });
+        })))
+    ));
+
+    return Array.from(best.values())
+        .sort((a, b) => b.score - a.score || a.totalUSD - b.totalUSD)
+        .slice(0, limit);
+};
@@ -0,0 +1,120 @@
+/**
+ * Build Solver
+ *
+ * Proposes the smallest set of part swaps that turns an invalid desktop build
+ * into one where every part-to-part rule passes: socket, RAM type, PSU,
+ * form factor, GPU clearance and the CPU-GPU pairing from bottleneckDetection.
+ * A fix therefore never introduces a new bottleneck.
+ */
+
+import { estimatePrice, loadComponents } from './dataLoader';
+import { evaluateBuild, resolveBuild, SLOT_CATEGORY } from './ruleEngine';
+import { profileFromBuild, scoreProfile } from './scoring';
+import { ComponentPart, DesktopSlot, FixRanking, FixSuggestion, PCBuild, PartSwap } from '../types';
+
+// Searching beyond three simultaneous swaps is effectively a new build
+const MAX_SWAPS = 3;
+
+const DEFAULT_LIMIT = 5;
+
+// Slots that share at least one rule, used to widen the search around failing parts
+const RULE_NEIGHBOURS: Record<DesktopSlot, DesktopSlot[]> = {
+    cpu: ['motherboard', 'gpu', 'psu'],
+    motherboard: ['cpu', 'ram', 'pcCase'],
+    ram: ['motherboard'],
+    gpu: ['cpu', 'psu', 'pcCase'],
+    psu: ['cpu', 'gpu'],
+    pcCase: ['motherboard', 'gpu'],
+    storage: []
+};
+
+/**
+ * Part-to-part validity; workload rules (r6, r7) are advisory and not solved for
+ */
+export const isBuildValid = (build: PCBuild): boolean =>
+    evaluateBuild(build, []).findings.every(f => f.passed);
+
+const buildPrice = (build: PCBuild) =>
+    Object.values(resolveBuild(build)).reduce((sum, record) => sum + (record ? estimatePrice(record.priceRange) : 0), 0);
+
+// Uncapped score, so the delta reflects hardware capability rather than the compatibility cap
+const buildScore = (build: PCBuild) => scoreProfile(profileFromBuild(build)).overall;
+
+const combinations = <T,>(items: T[], size: number): T[][] => {
+    if (size === 0) return [[]];
+    return items.flatMap((item, i) =>
+        combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest])
+    );
+};
+
+/**
+ * Find the minimal part swaps that make a desktop build valid
+ *
+ * @param build - Current desktop build
+ * @param rankBy - 'price' ranks by cheapest price delta, 'score' by smallest score loss
+ * @param limit - Maximum number of suggestions to return
+ * @returns Suggestions using the fewest swaps possible, best first (empty if already valid or unsolvable)
+ * @example
+ * const [best] = suggestFixes(build, 'price');
+ * if (best) setBuild(best.build);
+ */
+export const suggestFixes = (build: PCBuild, rankBy: FixRanking = 'price', limit = DEFAULT_LIMIT): FixSuggestion[] => {
+    const desktop: PCBuild = { ...build, type: 'Desktop' };
+    const report = evaluateBuild(desktop, []);
+    const failing = report.findings.filter(f => !f.passed);
+    if (failing.length === 0) return [];
+
+    const selected = (Object.keys(SLOT_CATEGORY) as DesktopSlot[]).filter(slot => desktop[slot]);
+    const involved = new Set<DesktopSlot>();
+    failing.forEach(f => f.components.forEach(slot => {
+        involved.add(slot);
+        RULE_NEIGHBOURS[slot].forEach(n => involved.add(n));
+    }));
+    const searchSlots = selected.filter(slot => involved.has(slot));
+
+    const alternatives = Object.fromEntries(
+        searchSlots.map(slot => [
+            slot,
+            loadComponents(SLOT_CATEGORY[slot]).filter(part => part.id !== desktop[slot]!.id)
+        ])
+    ) as Record<DesktopSlot, ComponentPart[]>;
+
+    const basePrice = buildPrice(desktop);
+    const baseScore = buildScore(desktop);
+
+    for (let size = 1; size <= Math.min(MAX_SWAPS, searchSlots.length); size++) {
+        const found: FixSuggestion[] = [];
+
+        combinations(searchSlots, size).forEach(slots => {
+            // Cartesian product of alternatives for the chosen slots
+            let candidates: PartSwap[][] = [[]];
+            slots.forEach(slot => {
+                candidates = candidates.flatMap(swaps =>
+                    alternatives[slot].map(to => [...swaps, { slot, from: desktop[slot]!, to }])
+                );
+            });
+
+            candidates.forEach(swaps => {
+                const candidate: PCBuild = { ...desktop };
+                swaps.forEach(({ slot, to }) => { candidate[slot] = to; });
+                if (!isBuildValid(candidate)) return;
+                found.push({
+                    swaps,
+                    build: candidate,
+                    priceDelta: buildPrice(candidate) - basePrice,
+                    scoreDelta: buildScore(candidate) - baseScore
+                });
+            });
+        });
+
+        if (found.length > 0) {
+            return found
+                .sort((a, b) => rankBy === 'price'
+                    ? a.priceDelta - b.priceDelta || b.scoreDelta - a.scoreDelta
+                    : b.scoreDelta - a.scoreDelta || a.priceDelta - b.priceDelta)
+                .slice(0, limit);
+        }
+    }
+
+    return [];
+};
@@ -0,0 +1,77 @@
+/**
+ * Chat Request Builders
+ *
+ * Turn the app's computed state into the structured requests /api/chat
+ * accepts. Only part ids and computed scores are sent; the server looks the
+ * parts up again, runs the rule engine and builds the comparison table
+ * itself, and renders the prompts (server/prompts/), so nothing here is
+ * prompt text.
+ */
+
+import { activeBuildRef } from './savedBuilds';
+import { computeSuitability } from './scoring';
+import { AnalysisFacts, AnalysisRequest, CompareItem, ComparisonRequest, ComputedScores, FollowUpRequest, Language, PCBuild, SuitabilityScore } from '../types';
+
+const computedScores = (suitability: SuitabilityScore): ComputedScores => ({
+    score: Math.round(suitability.overall),
+    workloads: suitability.workloads.map(w => ({ name: w.name, score: Math.round(w.score) }))
+});
+
+/**
+ * Facts the analysis prompt is built from
+ *
+ * @param build - Analyzed build (desktop or laptop)
+ * @param suitability - Computed suitability shown on the score card
+ */
+export const analysisFacts = (build: PCBuild, suitability: SuitabilityScore): AnalysisFacts => ({
+    ...computedScores(suitability),
+    ...(build.type === 'Laptop' && build.laptop?.battery && { battery: build.laptop.battery })
+});
+
+/**
+ * Request for the Specialist Analysis panel
+ *
+ * @example
+ * const request = buildAnalysisRequest(currentBuild, language, computed);
+ * for await (const delta of streamMessageFromMistral(request, controller.signal)) { ... }
+ */
+export const buildAnalysisRequest = (
+    build: PCBuild,
+    language: Language,
+    suitability: SuitabilityScore
+): AnalysisRequest => ({
+    task: 'analysis',
+    build: activeBuildRef(build),
+    language,
+    facts: analysisFacts(build, suitability)
+});
+
+/**
+ * Follow-up question about an analysis; the server replays the analysis and
+ * the earlier turns from its own copy of the thread
+ *
+ * @param analysisId - Id returned with the analysis reply
+ */
+export const buildFollowUpRequest = (analysisId: string, question: string, language: Language): FollowUpRequest => ({
+    task: 'followup',
+    analysisId,
+    question,
+    language
+});
+
+/**
+ * Request for the Compare tab's "Which should I buy?" verdict
+ */
+export const buildComparisonRequest = (
+    items: CompareItem[],
+    majors: string[],
+    language: Language
+): ComparisonRequest => ({
+    task: 'comparison',
+    language,
+    comparison: {
+        items: items.map(item => activeBuildRef(item.build)),
+        majors,
+        scores: items.map(item => computedScores(computeSuitability(item.build)))
+    }
+});
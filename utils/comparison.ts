@@ -0,0 +1,184 @@
+/**
+ * Side-by-side Comparison
+ *
+ * Aligns up to MAX_COMPARE laptops and desktop builds attribute by attribute,
+ * marks the best value in every row and picks an overall winner. Laptops read
+ * their typed LaptopSpec; desktops read their full components.json records.
+ * Workload rows use the same computed scores as the analysis dashboard.
+ */
+
+import { estimatePrice, usdToMmk } from './dataLoader';
+import { resolveBuild, SLOT_CATEGORY } from './ruleEngine';
+import { computeSuitability } from './scoring';
+import { formatCpu, formatGpu, isGamingCapable } from './laptopSpec';
+import { CompareCell, CompareItem, CompareResult, CompareRow, ComponentPart, DesktopSlot, PCBuild } from '../types';
+
+export const MAX_COMPARE = 5;
+
+const EMPTY_BUILD: PCBuild = {
+    type: 'Desktop',
+    cpu: null,
+    gpu: null,
+    motherboard: null,
+    ram: null,
+    storage: null,
+    psu: null,
+    pcCase: null,
+    laptop: null
+};
+
+/**
+ * Wrap a CSV laptop as a comparison item
+ */
+export const laptopCompareItem = (laptop: ComponentPart): CompareItem => ({
+    key: `laptop:${laptop.id}`,
+    kind: 'Laptop',
+    name: laptop.name,
+    build: { ...EMPTY_BUILD, type: 'Laptop', laptop }
+});
+
+/**
+ * Wrap a desktop build as a comparison item, named after its CPU and GPU
+ *
+ * Two builds with the same parts share a key, so the same build cannot be added twice.
+ */
+export const desktopCompareItem = (build: PCBuild): CompareItem => {
+    const slots = Object.keys(SLOT_CATEGORY) as DesktopSlot[];
+    const name = [build.cpu?.name, build.gpu?.name].filter(Boolean).join(' + ') || 'Desktop Build';
+    return {
+        key: `desktop:${slots.map(slot => build[slot]?.id || '-').join('|')}`,
+        kind: 'Desktop',
+        name,
+        build: { ...build, type: 'Desktop', laptop: null }
+    };
+};
+
+interface Attributes {
+    price: number | null;
+    ramGB: number | null;
+    storageGB: number | null;
+    storage: string;
+    gpuVram: number | null;
+    gpu: string;
+    cpu: string;
+    cores: number | null;
+    batteryHours: number | null;
+    battery: string;
+    gaming: boolean;
+}
+
+const laptopAttributes = (laptop: ComponentPart): Attributes => {
+    const spec = laptop.laptopSpec;
+    // "6-9 Hrs (Standard)" → 9
+    const hours = (laptop.battery || '').match(/(\d+)\s*Hrs/)?.[1];
+    return {
+        price: laptop.price ?? null,
+        ramGB: spec?.ramGB ?? null,
+        // HDD capacity does not count towards the storage win
+        storageGB: spec?.ssdGB ?? null,
+        storage: spec ? `${spec.ssdGB}GB SSD${spec.hddGB > 0 ? ` + ${spec.hddGB}GB HDD` : ''}` : '—',
+        gpuVram: spec?.gpu.vramGB ?? null,
+        gpu: spec ? formatGpu(spec.gpu) : '—',
+        cpu: spec ? formatCpu(spec.cpu) : '—',
+        cores: spec?.cores ?? null,
+        batteryHours: hours ? parseInt(hours) : null,
+        battery: laptop.battery || '—',
+        gaming: !!spec && isGamingCapable(spec)
+    };
+};
+
+const desktopAttributes = (build: PCBuild): Attributes => {
+    const parts = resolveBuild(build);
+    const records = Object.values(parts).filter((p): p is NonNullable<typeof p> => !!p);
+    const priceUSD = records.reduce((sum, p) => sum + estimatePrice(p.priceRange), 0);
+
+    return {
+        price: priceUSD > 0 ? usdToMmk(priceUSD) : null,
+        ramGB: parts.ram?.capacity ?? null,
+        storageGB: parts.storage?.capacity ?? null,
+        storage: parts.storage ? `${parts.storage.capacity}GB ${parts.storage.interface}` : '—',
+        gpuVram: parts.gpu?.vram ?? 0,
+        gpu: parts.gpu ? `${parts.gpu.name} ${parts.gpu.vram}GB` : 'None',
+        cpu: parts.cpu?.name || '—',
+        cores: parts.cpu?.cores ?? null,
+        batteryHours: null,
+        battery: 'N/A (mains power)',
+        gaming: !!parts.gpu && parts.gpu.tier !== 'entry-level'
+    };
+};
+
+const winnersOf = (cells: CompareCell[], better: CompareRow['better']): number[] => {
+    if (!better) return [];
+    const values = cells.map(c => c.value).filter((v): v is number => v !== null);
+    if (values.length < 2) return [];
+    const best = better === 'higher' ? Math.max(...values) : Math.min(...values);
+    // No winner when every item is equal
+    if (values.every(v => v === best)) return [];
+    return cells.map((c, i) => (c.value === best ? i : -1)).filter(i => i >= 0);
+};
+
+const row = (id: string, label: string, better: CompareRow['better'], cells: CompareCell[]): CompareRow => ({
+    id,
+    label,
+    better,
+    cells,
+    winners: winnersOf(cells, better)
+});
+
+/**
+ * Compare laptops and desktop builds attribute by attribute
+ *
+ * The overall winner wins the most rows; ties go to the higher overall
+ * suitability, then the lower price.
+ *
+ * @param items - Up to MAX_COMPARE comparison items
+ * @returns Aligned rows with per-row winners, plus the overall winner and why
+ * @example
+ * const { rows, winner, reason } = compareItems(compareList);
+ */
+export const compareItems = (items: CompareItem[]): CompareResult => {
+    const attrs = items.map(item => (item.kind === 'Laptop' && item.build.laptop
+        ? laptopAttributes(item.build.laptop)
+        : desktopAttributes(item.build)));
+    const scores = items.map(item => computeSuitability(item.build));
+
+    const rows: CompareRow[] = [
+        row('price', 'Price', 'lower', attrs.map(a => ({ display: a.price !== null ? `${a.price.toLocaleString()} MMK` : '—', value: a.price }))),
+        row('cpu', 'CPU', null, attrs.map(a => ({ display: a.cpu, value: null }))),
+        row('cores', 'CPU Cores', 'higher', attrs.map(a => ({ display: a.cores !== null ? String(a.cores) : 'Unknown', value: a.cores }))),
+        row('ram', 'RAM', 'higher', attrs.map(a => ({ display: a.ramGB !== null ? `${a.ramGB}GB` : '—', value: a.ramGB }))),
+        row('storage', 'Storage', 'higher', attrs.map(a => ({ display: a.storage, value: a.storageGB }))),
+        row('gpu', 'GPU', 'higher', attrs.map(a => ({ display: a.gpu, value: a.gpuVram }))),
+        row('battery', 'Battery', 'higher', attrs.map(a => ({ display: a.battery, value: a.batteryHours }))),
+        row('gaming', 'Gaming', 'higher', attrs.map(a => ({ display: a.gaming ? 'Capable' : 'Basic / Casual', value: a.gaming ? 1 : 0 }))),
+        row('suitability', 'UIT Suitability', 'higher', scores.map(s => ({ display: `${s.overall}/100`, value: s.overall })))
+    ];
+
+    (scores[0]?.workloads || []).forEach((workload, w) => {
+        rows.push(row(`workload-${workload.id}`, workload.name, 'higher', scores.map(s => ({
+            display: `${s.workloads[w].score}`,
+            value: s.workloads[w].score
+        }))));
+    });
+
+    if (items.length < 2) return { rows, winner: null, reason: '' };
+
+    const wins = items.map((_, i) => rows.filter(r => r.winners.includes(i)));
+    const ranked = items.map((_, i) => i).sort((a, b) =>
+        wins[b].length - wins[a].length ||
+        scores[b].overall - scores[a].overall ||
+        (attrs[a].price ?? Infinity) - (attrs[b].price ?? Infinity)
+    );
+    const winner = ranked[0];
+    const won = wins[winner];
+    const highlights = won.filter(r => !r.id.startsWith('workload-')).map(r => r.label);
+    const workloadWins = won.length - highlights.length;
+
+    const reason = [
+        `Best in ${won.length} of ${rows.filter(r => r.better).length} rows`,
+        highlights.length > 0 ? `(${highlights.join(', ')}${workloadWins > 0 ? ` and ${workloadWins} workloads` : ''})` : workloadWins > 0 ? `(${workloadWins} workloads)` : '',
+        `with a suitability of ${scores[winner].overall}/100.`
+    ].filter(Boolean).join(' ');
+
+    return { rows, winner, reason };
+};
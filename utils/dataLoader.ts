@@ -7,92 +7,64 @@
 
 import componentsData from '../knowledge-base/datasets/components.json';
 // import laptopsData from '../knowledge-base/datasets/laptops.json'; // Deprecated
-import Papa from 'papaparse';
-import laptopCsvContent from '../dataset/merged_laptop_data.csv?raw';
+import laptopCsvContent from '../dataset/merged_laptop_data_cleaned.csv?raw';
 import compatibilityRulesData from '../knowledge-base/datasets/compatibility-rules.json';
 import performanceBenchmarksData from '../knowledge-base/datasets/performance-benchmarks.json';
 import knowledgeGraphData from '../knowledge-base/ontology/knowledge-graph.json';
+import { parseLaptopDataset } from './laptopSchema';
+import { isGamingCapable, toLaptopSpec } from './laptopSpec';
 
-import { ComponentCategory, ComponentPart, PCBuild } from '../types';
+import { ComponentCategory, ComponentPart, LaptopDatasetReport, LaptopRow, PCBuild } from '../types';
 
-interface LaptopCSVRow {
-    '': string; // Index
-    model_name: string;
-    brand: string;
-    processor_name: string;
-    'ram(GB)': string;
-    'ssd(GB)': string;
-    'Hard Disk(GB)': string;
-    'Operating System': string;
-    graphics: string;
-    'screen_size(inches)': string;
-    'resolution (pixels)': string; // Fixed typo in header access if needed
-    no_of_cores: string;
-    no_of_threads: string;
-    spec_score: string;
-    price: string;
-    Major: string;
-    Activities: string;
-    ProgramList: string;
-}
-
-const parseLaptopsFromCSV = (): ComponentPart[] => {
-    const { data } = Papa.parse<LaptopCSVRow>(laptopCsvContent, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: false // Keep as strings to safely parse
-    });
+const toComponentPart = (row: LaptopRow): ComponentPart => {
+    const spec = toLaptopSpec(row);
+    const gpu = row.graphics;
+    const display = `${row.screenInches}" ${row.resolution}`;
 
-    return data.map((row, index) => {
-        const ram = row['ram(GB)'] || '0';
-        const ssd = row['ssd(GB)'] || '0';
-        const hdd = row['Hard Disk(GB)'] || '0';
-        const gpu = row['graphics'] || 'Integrated';
-        const display = `${row['screen_size(inches)'] || '15.6'}" ${row['resolution (pixels)'] || '1920x1080'}`;
-        const cpu = row['processor_name'] || 'Unknown Processor';
+    // Improve specs display if HDD exists
+    const storage = row.hddGB > 0 ? `${row.ssdGB}GB SSD + ${row.hddGB}GB HDD` : `${row.ssdGB}GB SSD`;
+    const fullSpecs = `${row.processor} | ${row.ramGB}GB RAM | ${storage} | ${gpu} | ${display}`;
 
-        // Construct a specs string
-        // const specs = `${cpu}, ${ram}GB RAM, ${ssd}GB SSD, ${gpu}, ${display}`; // Original line, kept for reference
+    // Simple heuristic for battery life
+    let battery = "6-9 Hrs (Standard)";
+    const lowerName = row.name.toLowerCase();
+    const os = row.os.toLowerCase();
 
-        // Improve specs display if HDD exists
-        const storage = parseInt(hdd) > 0 ? `${ssd}GB SSD + ${hdd}GB HDD` : `${ssd}GB SSD`;
-        const fullSpecs = `${cpu} | ${ram}GB RAM | ${storage} | ${gpu} | ${display}`;
-
-        // Simple heuristic for battery life
-        let battery = "6-9 Hrs (Standard)";
-        const lowerName = (row.model_name || '').toLowerCase();
-        const lowerGpu = gpu.toLowerCase();
-        const os = (row['Operating System'] || '').toLowerCase();
-
-        // 1. Gaming Laptops (High Power Consumption)
-        if (lowerGpu.includes('rtx') || lowerGpu.includes('gtx') || lowerName.includes('gaming') || lowerName.includes('legion') || lowerName.includes('rog') || lowerName.includes('tuf')) {
-            battery = "3-5 Hrs (Gaming Mode)";
-        }
+    // 1. Gaming Laptops (High Power Consumption)
+    if (isGamingCapable(spec) || lowerName.includes('gaming') || lowerName.includes('legion') || lowerName.includes('rog') || lowerName.includes('tuf')) {
+        battery = "3-5 Hrs (Gaming Mode)";
+    }
 
-        // 2. Apple Silicon (High Efficiency)
-        else if (os.includes('mac') || lowerName.includes('macbook') || row.brand === 'Apple') {
-            battery = "15-18 Hrs (Apple Silicon)";
-        }
+    // 2. Apple Silicon (High Efficiency)
+    else if (os.includes('mac') || spec.cpu.vendor === 'Apple' || row.brand === 'Apple') {
+        battery = "15-18 Hrs (Apple Silicon)";
+    }
 
-        // 3. Ultrabooks (Good Battery Life)
-        else if (lowerName.includes('zenbook') || lowerName.includes('swift') || lowerName.includes('xps') || lowerName.includes('gram') || lowerName.includes('yoga')) {
-            battery = "10-12 Hrs (Ultrabook)";
-        }
+    // 3. Ultrabooks (Good Battery Life)
+    else if (lowerName.includes('zenbook') || lowerName.includes('swift') || lowerName.includes('xps') || lowerName.includes('gram') || lowerName.includes('yoga')) {
+        battery = "10-12 Hrs (Ultrabook)";
+    }
 
-        return {
-            id: row[''] || `csv-${index}`,
-            name: row.model_name || 'Unknown Model',
-            price: parseInt(row.price) || 0,
-            specs: fullSpecs,
-            battery: battery,
-            major: row.Major,
-            activities: row.Activities,
-            programList: row.ProgramList
-        };
-    });
+    return {
+        id: row.id,
+        name: row.name,
+        price: row.priceMMK,
+        specs: fullSpecs,
+        battery: battery,
+        major: row.major,
+        activities: row.activities,
+        programList: row.programList,
+        laptopSpec: spec
+    };
 };
 
-const parsedLaptops = parseLaptopsFromCSV();
+const laptopDataset = parseLaptopDataset(laptopCsvContent);
+const parsedLaptops = laptopDataset.rows.map(toComponentPart);
+
+// Production builds stay quiet; validate:data reports the skipped rows in full
+if (import.meta.env.DEV && laptopDataset.diagnostics.some(d => d.severity === 'error')) {
+    console.warn(`Laptop dataset: ${laptopDataset.skippedRows} of ${laptopDataset.totalRows} rows skipped. Run "npm run validate:data" for details.`);
+}
 
 /**
  * Load all component data from the knowledge base
@@ -123,6 +95,17 @@ export const loadLaptops = (): ComponentPart[] => {
     return parsedLaptops;
 };
 
+/**
+ * Get the validation report for the laptop CSV
+ *
+ * @returns Typed rows plus diagnostics for every skipped, defaulted or converted value
+ * @example
+ * const { diagnostics, skippedRows } = loadLaptopDatasetReport();
+ */
+export const loadLaptopDatasetReport = (): LaptopDatasetReport => {
+    return laptopDataset;
+};
+
 /**
  * Load compatibility rules for constraint validation
  * 
@@ -187,96 +170,27 @@ export const getLaptopById = (id: string) => {
 };
 
 /**
- * Check if CPU socket matches motherboard socket
- * 
- * @param cpuId - CPU component ID
- * @param motherboardId - Motherboard component ID
- * @returns true if compatible, false otherwise
- * @example
- * const compatible = checkSocketCompatibility('c-13600k', 'm-b760');
- */
-export const checkSocketCompatibility = (cpuId: string, motherboardId: string): boolean => {
-    const cpu = getComponentById('CPU', cpuId) as any;
-    const motherboard = getComponentById('Motherboard', motherboardId) as any;
-
-    if (!cpu || !motherboard) return false;
-
-    const rules = compatibilityRulesData.socketCompatibility.rules;
-    const socketRule = rules[cpu.socket as keyof typeof rules];
-
-    if (!socketRule) return false;
-
-    return socketRule.compatibleMotherboards.includes(motherboardId);
-};
-
-/**
- * Check if RAM type matches motherboard RAM support
- * 
- * @param ramId - RAM component ID
- * @param motherboardId - Motherboard component ID
- * @returns true if compatible, false otherwise
+ * Estimate a component's price from its priceRange
+ *
+ * @param priceRange - Range string from components.json (e.g. "$589-$649")
+ * @returns Midpoint of the range in USD, or 0 if it cannot be parsed
  * @example
- * const compatible = checkRAMCompatibility('r-32-d5', 'm-b760');
+ * const usd = estimatePrice('$589-$649'); // 619
  */
-export const checkRAMCompatibility = (ramId: string, motherboardId: string): boolean => {
-    const ram = getComponentById('RAM', ramId) as any;
-    const motherboard = getComponentById('Motherboard', motherboardId) as any;
-
-    if (!ram || !motherboard) return false;
-
-    const rules = compatibilityRulesData.ramCompatibility.rules;
-    const ramTypeRule = rules[ram.type as keyof typeof rules];
-
-    if (!ramTypeRule) return false;
-
-    return ramTypeRule.compatibleMotherboards.includes(motherboardId);
+export const estimatePrice = (priceRange: string | undefined): number => {
+    const bounds = (priceRange || '').match(/\d+(\.\d+)?/g)?.map(Number) || [];
+    if (bounds.length === 0) return 0;
+    return Math.round(bounds.reduce((sum, n) => sum + n, 0) / bounds.length);
 };
 
 /**
- * Check if PSU wattage is sufficient for the build
- * 
- * @param cpuId - CPU component ID (optional)
- * @param gpuId - GPU component ID (optional)
- * @param psuId - PSU component ID
- * @returns Object with isCompatible flag and details
- * @example
- * const result = checkPSUCapacity('c-14900k', 'g-4090', 'p-1000');
- * console.log(result.isCompatible, result.totalPower, result.psuWattage);
+ * Convert a USD amount to MMK using the rate in components.json metadata
+ *
+ * @param usd - Amount in US dollars
+ * @returns Amount in Myanmar Kyat, rounded to the nearest kyat
  */
-export const checkPSUCapacity = (
-    cpuId: string | null,
-    gpuId: string | null,
-    psuId: string
-): { isCompatible: boolean; totalPower: number; psuWattage: number; details: string } => {
-    const cpu = cpuId ? getComponentById('CPU', cpuId) as any : null;
-    const gpu = gpuId ? getComponentById('GPU', gpuId) as any : null;
-    const psu = getComponentById('PSU', psuId) as any;
-
-    if (!psu) {
-        return {
-            isCompatible: false,
-            totalPower: 0,
-            psuWattage: 0,
-            details: 'PSU not found'
-        };
-    }
-
-    const cpuPower = cpu?.maxTdp || cpu?.tdp || 0;
-    const gpuPower = gpu?.tdp || 0;
-    const baseline = compatibilityRulesData.powerRequirements.systemBaselineWattage.typical;
-
-    const totalPower = cpuPower + gpuPower + baseline;
-    const psuWattage = psu.wattage;
-    const safeThreshold = psuWattage * 0.8; // 80% safety margin
-
-    return {
-        isCompatible: totalPower <= safeThreshold,
-        totalPower,
-        psuWattage,
-        details: totalPower <= safeThreshold
-            ? `${totalPower}W ≤ ${safeThreshold}W (80% of ${psuWattage}W)`
-            : `${totalPower}W > ${safeThreshold}W (80% of ${psuWattage}W) - Insufficient!`
-    };
+export const usdToMmk = (usd: number): number => {
+    return Math.round(usd * componentsData.metadata.pricing.mmkPerUsd);
 };
 
 /**
@@ -286,7 +200,7 @@ export const checkPSUCapacity = (
  * @returns Object in COMPONENT_DB format
  */
 export const formatComponentsForUI = () => {
-    const formatted: Record<string, Array<{ id: string, name: string, specs: string, battery?: string }>> = {};
+    const formatted: Record<string, ComponentPart[]> = {};
 
     // Format regular components
     Object.keys(componentsData).forEach((category) => {
@@ -300,13 +214,17 @@ export const formatComponentsForUI = () => {
         }));
     });
 
-    // Format laptops
-    // Format laptops
-    formatted['Laptop'] = parsedLaptops.map((l: any) => ({
+    // Format laptops (price and survey fields are used by the Budget & Major filters)
+    formatted['Laptop'] = parsedLaptops.map((l) => ({
         id: l.id,
         name: l.name,
         specs: l.specs,
         battery: l.battery,
+        price: l.price,
+        major: l.major,
+        activities: l.activities,
+        programList: l.programList,
+        laptopSpec: l.laptopSpec,
     }));
 
     return formatted;
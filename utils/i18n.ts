@@ -0,0 +1,133 @@
+/**
+ * Internationalisation
+ *
+ * Typed lookups into UI_TEXT (constants.ts) with {name} interpolation,
+ * plural forms and MMK / number formatting, optionally in Myanmar numerals.
+ * UI_TEXT is declared with `satisfies Record<string, LocalizedText>`, so a key
+ * without an en or my entry fails the type-check; findMissingTranslations
+ * catches what the compiler cannot see (empty strings, placeholders that
+ * differ between the languages) and runs in development builds.
+ */
+
+import { UI_TEXT } from '../constants';
+import { Language, LocalizedText, NumberFormatOptions, PluralText } from '../types';
+
+export type MessageKey = keyof typeof UI_TEXT;
+
+export type MessageVars = Record<string, string | number>;
+
+const LANGUAGES: Language[] = ['en', 'my'];
+const PLACEHOLDER = /\{(\w+)\}/g;
+const MYANMAR_DIGITS = '၀၁၂၃၄၅၆၇၈၉';
+
+const pluralRules: Record<Language, Intl.PluralRules> = {
+    en: new Intl.PluralRules('en'),
+    my: new Intl.PluralRules('my')
+};
+
+/**
+ * Format a number with thousands separators
+ *
+ * @param value - Number to format
+ * @param language - Display language; Myanmar numerals only apply to 'my'
+ * @param options - { myanmarNumerals } to write ၁,၂၃၄ instead of 1,234
+ */
+export const formatNumber = (value: number, language: Language, options: NumberFormatOptions = {}): string => {
+    const text = value.toLocaleString('en-US');
+    if (language !== 'my' || !options.myanmarNumerals) return text;
+    return text.replace(/[0-9]/g, digit => MYANMAR_DIGITS[Number(digit)]);
+};
+
+/**
+ * Format a price in Myanmar Kyat
+ *
+ * @example
+ * formatMmk(1234000, 'en');                              // "1,234,000 MMK"
+ * formatMmk(1234000, 'my', { myanmarNumerals: true });   // "၁,၂၃၄,၀၀၀ ကျပ်"
+ */
+export const formatMmk = (value: number, language: Language, options: NumberFormatOptions = {}): string =>
+    `${formatNumber(Math.round(value), language, options)} ${language === 'my' ? 'ကျပ်' : 'MMK'}`;
+
+/**
+ * Guess whether a text is Burmese or English
+ *
+ * @returns 'my' when Myanmar script outnumbers Latin letters (technical terms stay in Latin script)
+ */
+export const detectLanguage = (text: string): Language => {
+    const myanmar = (text.match(/[\u1000-\u109F]/g) || []).length;
+    const latin = (text.match(/[A-Za-z]/g) || []).length;
+    return myanmar > latin ? 'my' : 'en';
+};
+
+const pickPlural = (text: PluralText, language: Language, count: number) =>
+    (pluralRules[language].select(count) === 'one' && text.one) || text.other;
+
+/**
+ * Look up a UI string
+ *
+ * @param key - UI_TEXT key
+ * @param language - Display language
+ * @param vars - Values for {name} placeholders; numbers are formatted with formatNumber.
+ *               Plural entries pick their form from vars.count.
+ * @param options - Number formatting for interpolated numbers
+ * @example
+ * translate('laptops_match', 'en', { count: 1 });   // "1 laptop matches"
+ */
+export const translate = (key: MessageKey, language: Language, vars: MessageVars = {}, options: NumberFormatOptions = {}): string => {
+    const entry: LocalizedText = UI_TEXT[key];
+    const message = entry[language];
+    const text = typeof message === 'string' ? message : pickPlural(message, language, Number(vars.count ?? 0));
+    return text.replace(PLACEHOLDER, (match, name) => {
+        const value = vars[name];
+        if (value === undefined) return match;
+        return typeof value === 'number' ? formatNumber(value, language, options) : value;
+    });
+};
+
+/**
+ * Bind translate and the number formatters to one language and number style
+ *
+ * @example
+ * const { t, mmk } = createTranslator(language, { myanmarNumerals });
+ * t('btn_select_laptop');   mmk(part.price);
+ */
+export const createTranslator = (language: Language, options: NumberFormatOptions = {}) => ({
+    language,
+    t: (key: MessageKey, vars?: MessageVars) => translate(key, language, vars, options),
+    number: (value: number) => formatNumber(value, language, options),
+    mmk: (value: number) => formatMmk(value, language, options)
+});
+
+export type Translator = ReturnType<typeof createTranslator>;
+
+const forms = (message: string | PluralText) =>
+    typeof message === 'string' ? [message] : [message.one, message.other].filter((m): m is string => m !== undefined);
+
+const placeholders = (message: string | PluralText) =>
+    [...new Set(forms(message).flatMap(text => [...text.matchAll(PLACEHOLDER)].map(m => m[1])))].sort().join(',');
+
+/**
+ * Check UI_TEXT for entries the type-check cannot catch
+ *
+ * @param table - Message table to check (defaults to UI_TEXT)
+ * @returns One problem per line, e.g. 'btn_save: "my" is empty'; empty when everything is translated
+ */
+export const findMissingTranslations = (table: Record<string, LocalizedText> = UI_TEXT): string[] => {
+    const problems: string[] = [];
+    Object.entries(table).forEach(([key, entry]) => {
+        LANGUAGES.forEach(language => {
+            const message = entry[language];
+            if (message === undefined) problems.push(`${key}: "${language}" is missing`);
+            else if (forms(message).some(text => text.trim() === '')) problems.push(`${key}: "${language}" is empty`);
+        });
+        if (entry.en !== undefined && entry.my !== undefined && placeholders(entry.en) !== placeholders(entry.my)) {
+            problems.push(`${key}: placeholders differ between "en" and "my"`);
+        }
+    });
+    return problems;
+};
+
+if (import.meta.env.DEV) {
+    const problems = findMissingTranslations();
+    if (problems.length > 0) console.error(`UI_TEXT has untranslated entries:\n${problems.join('\n')}`);
+}
@@ -0,0 +1,179 @@
+/**
+ * Laptop Filtering & Sorting
+ *
+ * Applies the Budget & Major tab filters to the CSV laptops using their typed
+ * LaptopSpec, and sorts the results. Facets (brands, OS, majors, range bounds)
+ * are derived from the data so the filter panel never offers a value that no
+ * laptop has. Required programs in the requirements catalogue are checked
+ * against the laptop's hardware and OS; other programs are looked up in its
+ * ProgramList.
+ */
+
+import { ComponentPart, GpuClass, LaptopFilters, LaptopSortKey, LaptopSpec, MatchMode, NumericRange } from '../types';
+import { isGamingCapable } from './laptopSpec';
+import { checkProgram, matchProgram } from './programRequirements';
+import { profileFromLaptop } from './scoring';
+
+export const ANY_RANGE: NumericRange = { min: null, max: null };
+
+export const DEFAULT_MAX_PRICE_MMK = 3000000; // 30 Lakhs
+
+export const DEFAULT_LAPTOP_FILTERS: Omit<LaptopFilters, 'maxPriceMMK'> = {
+    ram: ANY_RANGE,
+    ssd: ANY_RANGE,
+    cores: ANY_RANGE,
+    screen: ANY_RANGE,
+    brands: [],
+    os: [],
+    gpuClasses: [],
+    majors: [],
+    majorMode: 'any',
+    programs: [],
+    programMode: 'any',
+    gamingOnly: false
+};
+
+export const LAPTOP_SORT_KEYS: LaptopSortKey[] = ['price', 'specScore', 'suitability', 'value'];
+
+export const GPU_CLASS_LABELS: Record<GpuClass, string> = {
+    integrated: 'Integrated',
+    entry: 'Entry (MX)',
+    mainstream: 'Mainstream',
+    'high-end': 'High-end'
+};
+
+/**
+ * Classify a laptop GPU for the GPU class filter
+ */
+export const gpuClass = (spec: LaptopSpec): GpuClass => {
+    if (!spec.gpu.dedicated) return 'integrated';
+    if (spec.gpu.tier === 'high-end') return 'high-end';
+    if (spec.gpu.tier === 'entry-level') return 'entry';
+    return 'mainstream';
+};
+
+const splitList = (value: string | undefined) =>
+    (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+export interface LaptopFacets {
+    brands: string[];
+    os: string[];
+    majors: string[];
+    ram: number[];
+    ssd: number[];
+    cores: number[];
+    screen: number[];
+}
+
+const distinct = <T>(values: T[]) => Array.from(new Set(values)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+/**
+ * Collect the distinct values offered by the filter panel
+ *
+ * @param laptops - Laptops from COMPONENT_DB['Laptop']
+ * @returns Sorted distinct brands, OS, majors and numeric range options
+ */
+export const collectFacets = (laptops: ComponentPart[]): LaptopFacets => {
+    const specs = laptops.map(l => l.laptopSpec).filter((s): s is LaptopSpec => !!s);
+    return {
+        brands: distinct(specs.map(s => s.brand)),
+        os: distinct(specs.map(s => s.os)),
+        majors: distinct(laptops.flatMap(l => splitList(l.major))),
+        ram: distinct(specs.map(s => s.ramGB)),
+        ssd: distinct(specs.map(s => s.ssdGB)),
+        cores: distinct(specs.map(s => s.cores).filter((c): c is number => c !== null)),
+        screen: distinct(specs.map(s => Math.floor(s.screenInches)))
+    };
+};
+
+// Unknown values (null) only pass an unbounded range
+const inRange = (value: number | null, range: NumericRange) => {
+    if (range.min === null && range.max === null) return true;
+    if (value === null) return false;
+    return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+};
+
+const matches = (wanted: string[], mode: MatchMode, test: (term: string) => boolean) => {
+    if (wanted.length === 0) return true;
+    return mode === 'all' ? wanted.every(test) : wanted.some(test);
+};
+
+/**
+ * Apply the filter panel to a list of laptops
+ *
+ * Multi-selects (brand, OS, GPU class) match any selected value. Majors and
+ * programs match any or all selected values depending on their mode. A
+ * catalogued program matches when the laptop meets its minimum requirements.
+ *
+ * @param laptops - Laptops with a parsed laptopSpec
+ * @param filters - Current filter panel state
+ * @returns Laptops that pass every filter
+ * @example
+ * const hits = filterLaptops(laptops, { ...DEFAULT_LAPTOP_FILTERS, maxPriceMMK: 3000000, ram: { min: 16, max: null } });
+ */
+export const filterLaptops = (laptops: ComponentPart[], filters: LaptopFilters): ComponentPart[] => {
+    const catalogued = new Map(filters.programs.map(p => [p, matchProgram(p)]));
+    return laptops.filter(l => {
+        const spec = l.laptopSpec;
+        if (!spec) return false;
+
+        if ((l.price || 0) > filters.maxPriceMMK) return false;
+        if (!inRange(spec.ramGB, filters.ram)) return false;
+        if (!inRange(spec.ssdGB, filters.ssd)) return false;
+        if (!inRange(spec.cores, filters.cores)) return false;
+        // Screen bounds are whole inches, so 15.6" passes a 15" maximum
+        if (!inRange(Math.floor(spec.screenInches), filters.screen)) return false;
+
+        if (filters.brands.length > 0 && !filters.brands.includes(spec.brand)) return false;
+        if (filters.os.length > 0 && !filters.os.includes(spec.os)) return false;
+        if (filters.gpuClasses.length > 0 && !filters.gpuClasses.includes(gpuClass(spec))) return false;
+        if (filters.gamingOnly && !isGamingCapable(spec)) return false;
+
+        const majors = splitList(l.major);
+        if (!matches(filters.majors, filters.majorMode, m => majors.includes(m))) return false;
+
+        const programs = (l.programList || '').toLowerCase();
+        const runs = (program: string) => {
+            const id = catalogued.get(program);
+            return id ? checkProgram(program, id, profileFromLaptop(l), spec.os).meetsMinimum : programs.includes(program.toLowerCase());
+        };
+        if (!matches(filters.programs, filters.programMode, runs)) return false;
+
+        return true;
+    });
+};
+
+/**
+ * Suitability points per million MMK (higher is better value)
+ */
+export const valuePerMmk = (suitability: number, priceMMK: number | undefined): number => {
+    return priceMMK ? suitability / (priceMMK / 1000000) : 0;
+};
+
+/**
+ * Sort laptops by the chosen key
+ *
+ * Price sorts cheapest first; every other key sorts best first. Laptops with
+ * an unknown spec score sort last.
+ *
+ * @param laptops - Filtered laptops
+ * @param sortBy - Sort key
+ * @param suitability - Computed overall suitability per laptop id
+ * @returns A new sorted array
+ */
+export const sortLaptops = (
+    laptops: ComponentPart[],
+    sortBy: LaptopSortKey,
+    suitability: Record<string, number>
+): ComponentPart[] => {
+    const key = (l: ComponentPart): number => {
+        switch (sortBy) {
+            case 'price': return l.price || 0;
+            case 'specScore': return l.laptopSpec?.specScore ?? -1;
+            case 'suitability': return suitability[l.id] ?? 0;
+            case 'value': return valuePerMmk(suitability[l.id] ?? 0, l.price);
+        }
+    };
+    const direction = sortBy === 'price' ? 1 : -1;
+    return laptops.slice().sort((a, b) => direction * (key(a) - key(b)) || (a.price || 0) - (b.price || 0));
+};
@@ -0,0 +1,201 @@
+/**
+ * Laptop Dataset Schema
+ *
+ * Declares the columns of dataset/merged_laptop_data_cleaned.csv and turns raw
+ * CSV rows into typed LaptopRow records. Every row that is skipped, and every
+ * value that is defaulted or converted, is reported as a DatasetDiagnostic so
+ * the loader never silently disagrees with the data.
+ *
+ * Prices: the "Price(In Lakhs)" column actually holds Indian rupees (e.g. 33921),
+ * so they are converted INR → USD → MMK with the rates in components.json
+ * metadata.pricing. Values small enough to really be lakhs are scaled first.
+ */
+
+import Papa from 'papaparse';
+import componentsData from '../knowledge-base/datasets/components.json';
+import { DatasetDiagnostic, LaptopDatasetReport, LaptopRow } from '../types';
+
+type ColumnType = 'text' | 'integer' | 'decimal';
+
+interface ColumnSchema {
+    header: string;
+    field: keyof LaptopRow;
+    type: ColumnType;
+    unit?: string;
+    required: boolean;                   // Missing or invalid value skips the row
+    min?: number;
+    max?: number;
+    fallback?: string | number | null;   // Used, with a warning, for optional values
+    zeroIsUnknown?: boolean;             // 0 means "not recorded" and becomes null
+}
+
+const LAKH = 100000;
+
+// Below this a price cannot be rupees for a laptop, so it is read as lakhs
+const LAKH_THRESHOLD = 100;
+
+export const LAPTOP_COLUMNS: ColumnSchema[] = [
+    { header: '', field: 'id', type: 'text', required: false },
+    { header: 'model_name', field: 'name', type: 'text', required: true },
+    { header: 'brand', field: 'brand', type: 'text', required: false, fallback: 'Unknown' },
+    { header: 'processor_name', field: 'processor', type: 'text', required: true },
+    { header: 'ram(GB)', field: 'ramGB', type: 'integer', unit: 'GB', required: true, min: 2, max: 128 },
+    { header: 'ssd(GB)', field: 'ssdGB', type: 'integer', unit: 'GB', required: true, min: 0, max: 8000 },
+    { header: 'Hard Disk(GB)', field: 'hddGB', type: 'integer', unit: 'GB', required: false, min: 0, max: 4000, fallback: 0 },
+    { header: 'Operating System', field: 'os', type: 'text', required: false, fallback: 'Unknown' },
+    { header: 'graphics', field: 'graphics', type: 'text', required: false, fallback: 'Integrated' },
+    { header: 'screen_size(inches)', field: 'screenInches', type: 'decimal', unit: 'inches', required: false, min: 10, max: 18.5, fallback: 15.6 },
+    { header: 'resolution (pixels)', field: 'resolution', type: 'text', required: false, fallback: '1920 x 1080' },
+    { header: 'no_of_cores', field: 'cores', type: 'integer', required: false, min: 1, max: 64, fallback: null, zeroIsUnknown: true },
+    { header: 'no_of_threads', field: 'threads', type: 'integer', required: false, min: 1, max: 128, fallback: null, zeroIsUnknown: true },
+    { header: 'spec_score', field: 'specScore', type: 'integer', required: false, min: 1, max: 100, fallback: null, zeroIsUnknown: true },
+    { header: 'Price(In Lakhs)', field: 'priceINR', type: 'decimal', unit: 'INR', required: true, min: 5000, max: 1000000 },
+    { header: 'Major', field: 'major', type: 'text', required: false, fallback: '' },
+    { header: 'Activities', field: 'activities', type: 'text', required: false, fallback: '' },
+    { header: 'ProgramList', field: 'programList', type: 'text', required: false, fallback: '' }
+];
+
+const { pricing } = componentsData.metadata;
+
+/**
+ * Convert a dataset price in Indian rupees to MMK
+ *
+ * @param inr - Price in rupees
+ * @returns Price in Myanmar Kyat, rounded to the nearest 1,000 kyat
+ * @example
+ * const mmk = inrToMmk(33921); // 1839000
+ */
+export const inrToMmk = (inr: number): number => {
+    return Math.round((inr / pricing.inrPerUsd) * pricing.mmkPerUsd / 1000) * 1000;
+};
+
+// Zero-width and direction marks appear in some scraped names (e.g. a leading U+200E in "Intel UHD Graphics")
+const cleanText = (value: string | undefined) => (value || '').replace(/[\u200b-\u200f\ufeff]/g, '').trim();
+
+const describe = (column: ColumnSchema) => column.header || '(index)';
+
+const parseValue = (column: ColumnSchema, raw: string): number | string | null | undefined => {
+    if (column.type === 'text') return raw || undefined;
+    if (raw === '') return undefined;
+    const value = column.type === 'integer' ? Number(raw) : parseFloat(raw);
+    if (!Number.isFinite(value) || (column.type === 'integer' && !Number.isInteger(value))) return null;
+    return value;
+};
+
+/**
+ * Parse and validate the laptop CSV
+ *
+ * Rows with a missing or invalid required value are skipped (error diagnostic).
+ * Optional values fall back to the column default (warning diagnostic).
+ *
+ * @param csv - Raw CSV text
+ * @returns Typed rows, diagnostics and row counts
+ * @example
+ * const { rows, diagnostics } = parseLaptopDataset(laptopCsvContent);
+ */
+export const parseLaptopDataset = (csv: string): LaptopDatasetReport => {
+    const diagnostics: DatasetDiagnostic[] = [];
+    const { data, errors, meta } = Papa.parse<Record<string, string>>(csv, {
+        header: true,
+        skipEmptyLines: true,
+        dynamicTyping: false // Keep as strings so the schema decides the types
+    });
+
+    errors.forEach(error => diagnostics.push({
+        severity: 'error',
+        code: 'parse-error',
+        line: error.row !== undefined ? error.row + 2 : null,
+        column: null,
+        message: error.message
+    }));
+
+    const headers = meta.fields || [];
+    const present = LAPTOP_COLUMNS.filter(column => headers.includes(column.header));
+    const missingRequired = LAPTOP_COLUMNS.filter(column => column.required && !headers.includes(column.header));
+
+    LAPTOP_COLUMNS.filter(column => !headers.includes(column.header)).forEach(column => diagnostics.push({
+        severity: column.required ? 'error' : 'warning',
+        code: 'missing-column',
+        line: null,
+        column: column.header,
+        message: column.required
+            ? `Required column "${describe(column)}" is missing; no rows can be loaded`
+            : `Column "${describe(column)}" is missing; every row uses ${JSON.stringify(column.fallback ?? 'a generated value')}`
+    }));
+
+    headers.filter(header => !LAPTOP_COLUMNS.some(column => column.header === header)).forEach(header => diagnostics.push({
+        severity: 'warning',
+        code: 'unexpected-column',
+        line: null,
+        column: header,
+        message: `Column "${header}" is not in the schema and is ignored`
+    }));
+
+    if (missingRequired.length > 0) {
+        return { rows: [], diagnostics, totalRows: data.length, skippedRows: data.length };
+    }
+
+    const rows: LaptopRow[] = [];
+    const seenIds = new Set<string>();
+
+    data.forEach((raw, index) => {
+        const line = index + 2; // Header is line 1
+        const row: Record<string, unknown> = {};
+        let skip = false;
+
+        const report = (severity: DatasetDiagnostic['severity'], code: DatasetDiagnostic['code'], column: ColumnSchema, value: string, message: string) =>
+            diagnostics.push({ severity, code, line, column: column.header, value, message });
+
+        for (const column of LAPTOP_COLUMNS) {
+            if (!present.includes(column)) {
+                row[column.field] = column.field === 'id' ? `csv-${index}` : column.fallback;
+                continue;
+            }
+
+            const text = cleanText(raw[column.header]);
+            let value = parseValue(column, text);
+
+            if (value === null) {
+                report(column.required ? 'error' : 'warning', 'invalid-value', column, text,
+                    `${describe(column)} "${text}" is not a valid ${column.type}`);
+            } else if (typeof value === 'number' && column.field === 'priceINR' && value < LAKH_THRESHOLD) {
+                value = Math.round(value * LAKH);
+                report('warning', 'unit-converted', column, text, `Price ${text} read as lakhs (${value} INR)`);
+            }
+
+            if (typeof value === 'number' && value === 0 && column.zeroIsUnknown) {
+                report('warning', 'defaulted', column, text, `${describe(column)} is 0 (not recorded); treated as unknown`);
+                value = null;
+            } else if (typeof value === 'number' && ((column.min !== undefined && value < column.min) || (column.max !== undefined && value > column.max))) {
+                report(column.required ? 'error' : 'warning', 'out-of-range', column, text,
+                    `${describe(column)} ${value}${column.unit ? ' ' + column.unit : ''} is outside ${column.min}–${column.max}`);
+                value = null;
+            }
+
+            if (value === null || value === undefined) {
+                if (column.required) {
+                    if (value === undefined) report('error', 'invalid-value', column, text, `Required value ${describe(column)} is empty`);
+                    skip = true;
+                    continue;
+                }
+                if (value === undefined && column.field !== 'id' && column.fallback !== '') {
+                    report('warning', 'defaulted', column, text, `${describe(column)} is empty; using ${JSON.stringify(column.fallback)}`);
+                }
+                value = column.field === 'id' ? `csv-${index}` : column.fallback;
+            }
+
+            row[column.field] = value;
+        }
+
+        if (!skip && seenIds.has(row.id as string)) {
+            diagnostics.push({ severity: 'error', code: 'duplicate-id', line, column: '', value: row.id as string, message: `Duplicate id ${row.id}` });
+            skip = true;
+        }
+        if (skip) return;
+
+        seenIds.add(row.id as string);
+        rows.push({ ...(row as unknown as LaptopRow), priceMMK: inrToMmk(row.priceINR as number) });
+    });
+
+    return { rows, diagnostics, totalRows: data.length, skippedRows: data.length - rows.length };
+};
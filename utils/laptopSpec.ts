@@ -0,0 +1,194 @@
+/**
+ * Laptop Spec Parsing
+ *
+ * Turns validated CSV rows into a typed LaptopSpec. Numeric columns come
+ * straight from the schema; the free-text processor and graphics columns are
+ * parsed into vendor, family/model, generation, VRAM and a performance tier so
+ * filters, comparison and scoring never have to substring-match spec strings.
+ */
+
+import { ComponentTier, LaptopRow, LaptopSpec, ParsedCPU, ParsedGPU } from '../types';
+
+const cpuTier = (family: string): ComponentTier => {
+    const f = family.toLowerCase();
+    if (/i9|ryzen 9|m\d (pro|max)/.test(f)) return 'high-end';
+    if (/i7|ryzen 7|apple m\d/.test(f)) return 'mid-range';
+    if (/i5|ryzen 5/.test(f)) return 'budget';
+    return 'entry-level';
+};
+
+const withTier = (cpu: Omit<ParsedCPU, 'tier'>): ParsedCPU => ({ ...cpu, tier: cpuTier(cpu.family) });
+
+/**
+ * Parse a CSV processor name
+ *
+ * @param name - e.g. "12th Gen Core i5", "AMD Ryzen 5-5600H", "M2 Pro 12-core CPU"
+ * @returns Vendor, family, generation, model and tier ("Unknown" family when unparseable)
+ * @example
+ * parseCpu('12th Gen Core i7'); // { vendor: 'Intel', family: 'Core i7', generation: 12, model: null, tier: 'mid-range' }
+ */
+export const parseCpu = (name: string): ParsedCPU => {
+    const n = name.trim();
+
+    const core = n.match(/(?:(\d+)(?:st|nd|rd|th)\s+Ge?n?\s+)?Core\s+(i[3579])/i);
+    if (core) {
+        return withTier({
+            vendor: 'Intel',
+            family: `Core ${core[2].toLowerCase()}`,
+            generation: core[1] ? parseInt(core[1]) : null,
+            model: null
+        });
+    }
+
+    // "Ryzen 5 5600H", "Ryzen 5-5600H", "AMD Ryzen7 5825U", "AMD 9 6900HX", "AMD R5-5625U"
+    const ryzen = n.match(/(?:Ryzen\s*|AMD\s+R?)([3579])\b(?:[\s-]+(\d{4}[A-Z]*))?/i);
+    if (ryzen) {
+        return withTier({
+            vendor: 'AMD',
+            family: `Ryzen ${ryzen[1]}`,
+            generation: ryzen[2] ? parseInt(ryzen[2][0]) : null,
+            model: ryzen[2]?.toUpperCase() || null
+        });
+    }
+
+    const apple = n.match(/\bM(\d)(?:\s+(Pro|Max))?\b/);
+    if (apple) {
+        return withTier({
+            vendor: 'Apple',
+            family: `Apple M${apple[1]}${apple[2] ? ' ' + apple[2] : ''}`,
+            generation: parseInt(apple[1]),
+            model: null
+        });
+    }
+
+    const budget = n.match(/\b(Celeron|Pentium|Athlon)\b/i);
+    if (budget) {
+        return withTier({
+            vendor: /athlon/i.test(budget[1]) ? 'AMD' : 'Intel',
+            family: budget[1][0].toUpperCase() + budget[1].slice(1).toLowerCase(),
+            generation: null,
+            model: n.match(/\b([A-Z]?\d{4}[A-Z]*)\b/)?.[1] || null
+        });
+    }
+
+    if (/snapdragon/i.test(n)) {
+        return withTier({ vendor: 'Qualcomm', family: 'Snapdragon', generation: null, model: n.match(/Snapdragon\s+(\S+)/i)?.[1] || null });
+    }
+
+    if (/^AMD\b/i.test(n)) {
+        return withTier({ vendor: 'AMD', family: 'AMD', generation: null, model: n.match(/\b(\d{4}[A-Z]*)\b/i)?.[1] || null });
+    }
+
+    return withTier({ vendor: 'Unknown', family: 'Unknown', generation: null, model: null });
+};
+
+const gpuTier = (model: string, dedicated: boolean): ComponentTier => {
+    if (!dedicated) return 'entry-level';
+    if (/RTX (40[7-9]0|30[7-9]0)/.test(model)) return 'high-end';
+    if (/RTX|RX/.test(model)) return 'mid-range';
+    if (/GTX|Quadro/.test(model)) return 'budget';
+    return 'entry-level';
+};
+
+const gpuModel = (vendor: ParsedGPU['vendor'], text: string): string => {
+    if (vendor === 'NVIDIA') {
+        const m = text.match(/\b(RTX|GTX|MX|Quadro)\s*(?:RTX\s*)?([A-Z]?\d{3,4})\s*(-?\s*Ti)?/i);
+        if (m) return `${m[1].toUpperCase() === 'QUADRO' ? 'Quadro' : m[1].toUpperCase()} ${m[2].toUpperCase()}${m[3] ? ' Ti' : ''}`;
+        // "GeForce 3070Ti" omits the RTX prefix
+        const bare = text.match(/GeForce\s+([2-4]0\d0)\s*(-?\s*Ti)?/i);
+        if (bare) return `RTX ${bare[1]}${bare[2] ? ' Ti' : ''}`;
+        return 'GeForce';
+    }
+    if (vendor === 'AMD') {
+        const rx = text.match(/\bRX\s*(\d{3,4}[A-Z]*)/i);
+        if (rx) return `RX ${rx[1].toUpperCase()}`;
+        const mobile = text.match(/\b(\d{3}M)\b/i) || text.match(/\b(Vega\s*\d+)/i);
+        return mobile ? `Radeon ${mobile[1]}` : 'Radeon Graphics';
+    }
+    if (vendor === 'Intel') {
+        if (/iris\s*x/i.test(text)) return 'Iris Xe';
+        if (/uhd/i.test(text)) return 'UHD Graphics';
+        if (/\bhd\b/i.test(text)) return 'HD Graphics';
+        return 'Integrated Graphics';
+    }
+    if (vendor === 'Apple') {
+        const cores = text.match(/(\d+)[\s-]*core/i);
+        return cores ? `${cores[1]}-core GPU` : 'Integrated GPU';
+    }
+    return 'Integrated Graphics';
+};
+
+/**
+ * Parse a CSV graphics description
+ *
+ * Radeon 680M-style APU graphics list shared memory as VRAM, so a card only
+ * counts as dedicated for NVIDIA parts with VRAM or AMD "RX" models.
+ *
+ * @param name - e.g. "4 GB NVIDIA GeForce RTX 3050 Ti", "Intel Iris Xe Graphics", "10 Core GPU"
+ * @returns Vendor, normalised model, VRAM, dedicated flag and tier
+ * @example
+ * parseGpu('6 GB NVIDIA GeForce RTX 3060'); // { vendor: 'NVIDIA', model: 'RTX 3060', vramGB: 6, dedicated: true, tier: 'mid-range' }
+ */
+export const parseGpu = (name: string): ParsedGPU => {
+    const text = name.replace(/\u2009/g, ' ').trim();
+    const vram = parseInt(text.match(/(\d+)\s*GB/i)?.[1] || '0');
+
+    let vendor: ParsedGPU['vendor'] = 'Unknown';
+    if (/nvidia|geforce|quadro/i.test(text)) vendor = 'NVIDIA';
+    else if (/amd|radeon|raedon/i.test(text)) vendor = 'AMD';
+    else if (/intel|iris|uhd|\bhd\b/i.test(text)) vendor = 'Intel';
+    else if (/apple|core gpu|-core gpu/i.test(text)) vendor = 'Apple';
+
+    const model = gpuModel(vendor, text);
+    const dedicated = vram > 0 && (vendor === 'NVIDIA' || model.startsWith('RX '));
+
+    return { vendor, model, vramGB: dedicated ? vram : 0, dedicated, tier: gpuTier(model, dedicated) };
+};
+
+const parseResolution = (resolution: string): LaptopSpec['resolution'] => {
+    const m = resolution.match(/(\d+)\s*x\s*(\d+)/i);
+    if (!m) return null;
+    const [a, b] = [parseInt(m[1]), parseInt(m[2])];
+    // Some rows list portrait order ("1080 x 1920")
+    return { width: Math.max(a, b), height: Math.min(a, b) };
+};
+
+/**
+ * Build the typed spec for a validated laptop row
+ */
+export const toLaptopSpec = (row: LaptopRow): LaptopSpec => ({
+    brand: row.brand,
+    os: row.os,
+    cpu: parseCpu(row.processor),
+    gpu: parseGpu(row.graphics),
+    ramGB: row.ramGB,
+    ssdGB: row.ssdGB,
+    hddGB: row.hddGB,
+    cores: row.cores,
+    threads: row.threads,
+    screenInches: row.screenInches,
+    resolution: parseResolution(row.resolution),
+    specScore: row.specScore
+});
+
+/**
+ * Whether a laptop can run modern games: a dedicated GPU above the MX entry class
+ */
+export const isGamingCapable = (spec: LaptopSpec): boolean => {
+    return spec.gpu.dedicated && spec.gpu.tier !== 'entry-level';
+};
+
+/**
+ * Short human-readable CPU label, e.g. "Core i7 (12th Gen)" or "Ryzen 5 5600H"
+ */
+export const formatCpu = (cpu: ParsedCPU): string => {
+    if (cpu.vendor === 'Intel' && cpu.generation) return `${cpu.family} (${cpu.generation}th Gen)`;
+    return cpu.model ? `${cpu.family} ${cpu.model}` : cpu.family;
+};
+
+/**
+ * Short human-readable GPU label, e.g. "RTX 3050 Ti 4GB" or "Iris Xe (integrated)"
+ */
+export const formatGpu = (gpu: ParsedGPU): string => {
+    return gpu.dedicated ? `${gpu.model} ${gpu.vramGB}GB` : `${gpu.model} (integrated)`;
+};
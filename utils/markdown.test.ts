@@ -0,0 +1,82 @@
+import { test } from 'vitest';
+import assert from 'node:assert/strict';
+import { markdownToHtml, parseInline, parseMarkdown } from './markdown';
+
+test('parses the blocks of an analysis reply', () => {
+    const blocks = parseMarkdown([
+        '## Verdict',
+        '**Summary**: Good build',
+        '',
+        '1. RAM',
+        '   - 32GB',
+        '2. GPU',
+        '',
+        '| Part | Price |',
+        '|:-----|------:|',
+        '| CPU | $589 |',
+        '',
+        '> Note',
+        '---'
+    ].join('\n'));
+
+    assert.deepEqual(blocks.map(b => b.type), ['heading', 'paragraph', 'list', 'table', 'blockquote', 'rule']);
+    const list = blocks[2];
+    assert.ok(list.type === 'list' && list.ordered);
+    assert.equal(list.items.length, 2);
+    assert.deepEqual(list.items[0].map(b => b.type), ['paragraph', 'list']);
+    const table = blocks[3];
+    assert.ok(table.type === 'table');
+    assert.deepEqual(table.align, ['left', 'right']);
+    assert.deepEqual(table.rows, [[[{ type: 'text', text: 'CPU' }], [{ type: 'text', text: '$589' }]]]);
+});
+
+test('parses inline emphasis, code and links', () => {
+    assert.deepEqual(parseInline('**bold** _it_ `x*y` [docs](https://example.com)'), [
+        { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+        { type: 'text', text: ' ' },
+        { type: 'em', children: [{ type: 'text', text: 'it' }] },
+        { type: 'text', text: ' ' },
+        { type: 'code', text: 'x*y' },
+        { type: 'text', text: ' ' },
+        { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] }
+    ]);
+});
+
+test('keeps rendering half-streamed fences and tables', () => {
+    assert.deepEqual(parseMarkdown('```json\n{"score": 8'), [{ type: 'code', lang: 'json', text: '{"score": 8' }]);
+    assert.equal(parseMarkdown('| Part | Price |\n|---').length, 1);
+});
+
+test('drops HTML tags but keeps their text', () => {
+    assert.deepEqual(parseInline('<script>alert(1)</script>'), [{ type: 'text', text: 'alert(1)' }]);
+    assert.deepEqual(parseInline('a<img src=x onerror="alert(1)">b'), [{ type: 'text', text: 'ab' }]);
+    assert.deepEqual(parseInline('one<br>two'), [{ type: 'text', text: 'one' }, { type: 'break' }, { type: 'text', text: 'two' }]);
+});
+
+test('only keeps http(s) and mailto links', () => {
+    ['javascript:alert(1)', 'JaVaScRiPt:alert(1)', 'data:text/html,<script>alert(1)</script>', 'vbscript:msgbox'].forEach(href => {
+        const nodes = parseInline(`[click](${href})`);
+        assert.ok(!nodes.some(n => n.type === 'link'), href);
+    });
+    assert.equal(parseInline('[mail](mailto:lab@uit.edu.mm)')[0].type, 'link');
+});
+
+test('the HTML export escapes every script injection attempt', () => {
+    const html = markdownToHtml([
+        '# <script>alert(1)</script>',
+        '<img src=x onerror=alert(1)> <svg onload=alert(1)>',
+        '[x](https://example.com/"onmouseover="alert(1))',
+        '[y](javascript:alert(1))',
+        '<scr<script>ipt>alert(1)',
+        '```html',
+        '<script>alert(1)</script>',
+        '```'
+    ].join('\n'));
+
+    assert.doesNotMatch(html, /<script|<img|<svg|javascript:/i);
+    assert.doesNotMatch(html, /\son\w+=/i);
+    // Quotes cannot leave the href attribute, and rebuilt tags end up as escaped text
+    assert.match(html, /href="https:\/\/example\.com\/&quot;onmouseover=&quot;alert\(1"/);
+    assert.match(html, /&lt;script&gt;alert\(1\)<\/p>/);
+    assert.match(html, /<pre><code>&lt;script&gt;alert\(1\)&lt;\/script&gt;<\/code><\/pre>/);
+});
@@ -0,0 +1,285 @@
+/**
+ * Markdown Parser
+ *
+ * A small, dependency-free Markdown parser for AI responses. It supports
+ * headings, ordered / unordered (nested) lists, GFM tables, blockquotes,
+ * fenced code blocks, horizontal rules and inline bold, italic, code and links.
+ *
+ * Output is a tree of plain objects, never an HTML string, so the React
+ * renderer cannot inject markup. Raw HTML in the input is sanitised while
+ * parsing: <br> becomes a line break, every other tag is removed and its text
+ * is kept as plain text. Links are only kept for http(s) and mailto URLs.
+ * Unclosed fences and half-written tables are tolerated so streamed text
+ * renders while it arrives.
+ */
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'strong'; children: MarkdownInline[] }
+    | { type: 'em'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+    | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: 'code'; lang: string; text: string }
+    | { type: 'blockquote'; children: MarkdownBlock[] }
+    | { type: 'rule' };
+
+const FENCE_RE = /^\s*(```+|~~~+)\s*([\w+#-]*)/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const LIST_RE = /^(\s*)([-*+•]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const SAFE_HREF_RE = /^(https?:|mailto:)/i;
+
+// Code spans, bold, italic, links and HTML tags, in priority order
+const INLINE_RE = /(`+)([\s\S]*?[^`])\1(?!`)|\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__|\*(?=[^\s*])([^*]*?[^\s*])\*|(?<!\w)_(?=[^\s_])([^_]*?[^\s_])_(?!\w)|\[([^\]]+)\]\(\s*([^)\s]+)\s*\)|<br\s*\/?>|<\/?[a-zA-Z][^<>]*>/g;
+
+/**
+ * Parse inline Markdown (bold, italic, code, links, line breaks)
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    const pushText = (value: string) => {
+        if (!value) return;
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'text') last.text += value;
+        else nodes.push({ type: 'text', text: value });
+    };
+
+    let cursor = 0;
+    for (const m of text.matchAll(INLINE_RE)) {
+        pushText(text.slice(cursor, m.index));
+        cursor = m.index! + m[0].length;
+
+        if (m[1]) nodes.push({ type: 'code', text: m[2].trim() });
+        else if (m[3] !== undefined || m[4] !== undefined) nodes.push({ type: 'strong', children: parseInline(m[3] ?? m[4]) });
+        else if (m[5] !== undefined || m[6] !== undefined) nodes.push({ type: 'em', children: parseInline(m[5] ?? m[6]) });
+        else if (m[7] !== undefined) {
+            const children = parseInline(m[7]);
+            if (SAFE_HREF_RE.test(m[8])) nodes.push({ type: 'link', href: m[8], children });
+            else nodes.push(...children);
+        }
+        else if (/^<br/i.test(m[0])) nodes.push({ type: 'break' });
+        // Any other HTML tag is dropped
+    }
+    pushText(text.slice(cursor));
+    return nodes;
+};
+
+// Lines joined with explicit breaks: AI replies put one fact per line
+const inlineLines = (lines: string[]): MarkdownInline[] =>
+    lines.flatMap((line, i) => (i === 0 ? parseInline(line.trim()) : [{ type: 'break' } as MarkdownInline, ...parseInline(line.trim())]));
+
+const splitRow = (line: string): string[] => {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.slice(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+    const cells: string[] = [];
+    let current = '';
+    for (let i = 0; i < row.length; i++) {
+        if (row[i] === '\\' && row[i + 1] === '|') {
+            current += '|';
+            i++;
+        } else if (row[i] === '|') {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += row[i];
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+    lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_RE.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+const startsBlock = (lines: string[], i: number) =>
+    FENCE_RE.test(lines[i]) || HEADING_RE.test(lines[i]) || RULE_RE.test(lines[i]) ||
+    QUOTE_RE.test(lines[i]) || LIST_RE.test(lines[i]) || isTableStart(lines, i);
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const parseList = (lines: string[], start: number): [MarkdownBlock, number] => {
+    const first = lines[start].match(LIST_RE)!;
+    const indent = indentOf(first[1]);
+    const ordered = /\d/.test(first[2]);
+    const items: MarkdownBlock[][] = [];
+
+    let i = start;
+    while (i < lines.length) {
+        const m = lines[i].match(LIST_RE);
+        if (!m || indentOf(m[1]) !== indent || /\d/.test(m[2]) !== ordered) break;
+
+        const itemLines = [m[3]];
+        i++;
+        while (i < lines.length) {
+            const line = lines[i];
+            if (line.trim() === '') {
+                // A blank line continues the item only if indented content follows
+                const next = lines.slice(i + 1).find(l => l.trim() !== '');
+                if (next === undefined || indentOf(next) <= indent) break;
+                itemLines.push('');
+                i++;
+                continue;
+            }
+            const sibling = line.match(LIST_RE);
+            if (indentOf(line) > indent) {
+                itemLines.push(line.slice(Math.min(indentOf(line), indent + 2)));
+            } else if (!sibling && !startsBlock(lines, i)) {
+                // Lazy continuation of the item's text
+                itemLines.push(line.trim());
+            } else {
+                break;
+            }
+            i++;
+        }
+        items.push(parseBlocks(itemLines));
+
+        // Skip blank lines between items of a loose list
+        let next = i;
+        while (next < lines.length && lines[next].trim() === '') next++;
+        const m2 = next < lines.length ? lines[next].match(LIST_RE) : null;
+        if (next !== i && (!m2 || indentOf(m2[1]) !== indent)) break;
+        i = next;
+    }
+
+    return [{ type: 'list', ordered, start: ordered ? parseInt(first[2]) : 1, items }, i];
+};
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE_RE);
+        if (fence) {
+            const marker = fence[1];
+            const code: string[] = [];
+            i++;
+            // An unclosed fence (still streaming) runs to the end of the text
+            while (i < lines.length && !lines[i].trim().startsWith(marker)) code.push(lines[i++]);
+            i++;
+            blocks.push({ type: 'code', lang: fence[2], text: code.join('\n') });
+            continue;
+        }
+
+        const heading = line.match(HEADING_RE);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE_RE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (QUOTE_RE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE_RE.test(lines[i])) quoted.push(lines[i++].match(QUOTE_RE)![1]);
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitRow(line);
+            const align: TableAlign[] = splitRow(lines[i + 1]).map(cell =>
+                cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null
+            );
+            const rows: MarkdownInline[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+                const cells = splitRow(lines[i++]);
+                rows.push(header.map((_, c) => parseInline(cells[c] || '')));
+            }
+            blocks.push({ type: 'table', align, header: header.map(h => parseInline(h)), rows });
+            continue;
+        }
+
+        if (LIST_RE.test(line)) {
+            const [list, next] = parseList(lines, i);
+            blocks.push(list);
+            i = next;
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 || !startsBlock(lines, i))) {
+            paragraph.push(lines[i++]);
+        }
+        blocks.push({ type: 'paragraph', children: inlineLines(paragraph) });
+    }
+
+    return blocks;
+};
+
+/**
+ * Parse Markdown into blocks for the React renderer
+ *
+ * @param text - Markdown text (complete or still streaming)
+ * @returns Block tree with inline children
+ * @example
+ * const blocks = parseMarkdown('**Summary**: Good build\n\n* RAM: 32GB');
+ */
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+    return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToHtml = (nodes: MarkdownInline[]): string => nodes.map(node => {
+    switch (node.type) {
+        case 'text': return escapeHtml(node.text);
+        case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+        case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+        case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+        case 'link': return `<a href="${escapeHtml(node.href)}" rel="noopener noreferrer">${inlineToHtml(node.children)}</a>`;
+        case 'break': return '<br>';
+    }
+}).join('');
+
+const blocksToHtml = (blocks: MarkdownBlock[]): string => blocks.map(block => {
+    switch (block.type) {
+        case 'heading': return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+        case 'paragraph': return `<p>${inlineToHtml(block.children)}</p>`;
+        case 'list': {
+            const tag = block.ordered ? 'ol' : 'ul';
+            const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+            return `<${tag}${start}>${block.items.map(item => `<li>${blocksToHtml(item)}</li>`).join('')}</${tag}>`;
+        }
+        case 'table': {
+            const style = (c: number) => (block.align[c] ? ` style="text-align:${block.align[c]}"` : '');
+            const head = block.header.map((h, c) => `<th${style(c)}>${inlineToHtml(h)}</th>`).join('');
+            const rows = block.rows.map(r => `<tr>${r.map((cell, c) => `<td${style(c)}>${inlineToHtml(cell)}</td>`).join('')}</tr>`).join('');
+            return `<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+        }
+        case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+        case 'blockquote': return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+        case 'rule': return '<hr>';
+    }
+}).join('\n');
+
+/**
+ * Render Markdown to an escaped HTML string (used by the printable report export)
+ */
+export const markdownToHtml = (text: string): string => blocksToHtml(parseMarkdown(text));
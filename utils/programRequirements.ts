@@ -0,0 +1,189 @@
+/**
+ * Program Requirements
+ *
+ * Matches the programs typed into "Required Programs" against the workloads in
+ * performance-benchmarks.json (each workload lists the program names it covers
+ * in `aliases`) and checks a hardware profile against their minimum and
+ * recommended CPU, RAM, storage, GPU and OS requirements. Every requirement
+ * that is not met becomes a ProgramShortfall, so the UI can explain why a
+ * laptop or build is filtered out or scored down.
+ */
+
+import { performanceBenchmarksData } from './dataLoader';
+import { WorkloadId } from './ruleEngine';
+import { HardwareProfile, profileFromBuild, profileFromLaptop, scoreWorkload } from './scoring';
+import { PCBuild, ProgramCheck, ProgramFit, ProgramShortfall } from '../types';
+
+type Requirements = typeof performanceBenchmarksData.workloads[WorkloadId]['requirements'];
+
+interface GpuRequirement {
+    required: boolean;
+    minimumVRAM?: number;
+    recommendedVRAM?: number;
+}
+
+// OS values in the laptop CSV that ship without a usable desktop OS
+const NO_OS = ['DOS'];
+
+// laptopSchema's fallback when the CSV has no OS; like a desktop build, nothing to check
+const UNKNOWN_OS = 'Unknown';
+
+// Aliases shorter than this only match exactly ("ROS" must not match "Prose")
+const MIN_PARTIAL_LENGTH = 4;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const ALIASES = (Object.keys(performanceBenchmarksData.workloads) as WorkloadId[]).flatMap(id =>
+    performanceBenchmarksData.workloads[id].aliases.map(alias => ({ id, alias: normalize(alias) }))
+)
+    // Longest first, so "Visual Studio Code" wins over "Visual Studio"
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+const containsWord = (text: string, word: string) => ` ${text} `.includes(` ${word} `);
+
+/**
+ * Find the catalogue workload that covers a program
+ *
+ * @param program - Program as typed, e.g. "autocad 2024" or "Adobe Premiere"
+ * @returns Workload id, or null when the program is not catalogued
+ * @example
+ * matchProgram('Cisco Packet Tracer 8.2');   // 'packetTracer'
+ */
+export const matchProgram = (program: string): WorkloadId | null => {
+    const name = normalize(program);
+    if (!name) return null;
+    const exact = ALIASES.find(a => a.alias === name);
+    if (exact) return exact.id;
+    const partial = ALIASES.find(a =>
+        (a.alias.length >= MIN_PARTIAL_LENGTH && containsWord(name, a.alias)) ||
+        (name.length >= MIN_PARTIAL_LENGTH && containsWord(a.alias, name))
+    );
+    return partial?.id ?? null;
+};
+
+/**
+ * Distinct catalogue workloads for a list of programs (unknown programs are skipped)
+ */
+export const programWorkloads = (programs: string[]): WorkloadId[] =>
+    Array.from(new Set(programs.map(matchProgram).filter((id): id is WorkloadId => id !== null)));
+
+const shortfall = (
+    component: ProgramShortfall['component'],
+    level: ProgramShortfall['level'],
+    actual: string,
+    required: string
+): ProgramShortfall => ({ component, level, actual, required });
+
+const checkOs = (os: string | null, req: Requirements['os']): ProgramShortfall[] => {
+    if (!os || os === UNKNOWN_OS) return [];
+    const supported = req.supported.join(' / ');
+    // A DOS laptop can still have a supported OS installed
+    if (NO_OS.includes(os)) return [shortfall('os', 'recommended', os, supported)];
+    return req.supported.includes(os) ? [] : [shortfall('os', 'minimum', os, supported)];
+};
+
+const checkCpu = (profile: HardwareProfile, req: Requirements['cpu']): ProgramShortfall[] => {
+    if (!profile.cpu) return [shortfall('cpu', 'minimum', 'none', `${req.minCores} cores`)];
+    const { cores } = profile.cpu;
+    if (cores === undefined) return [];
+    if (cores < req.minCores) return [shortfall('cpu', 'minimum', `${cores} cores`, `${req.minCores} cores`)];
+    if (cores < req.recommendedCores) return [shortfall('cpu', 'recommended', `${cores} cores`, `${req.recommendedCores} cores`)];
+    return [];
+};
+
+const checkRam = (profile: HardwareProfile, req: Requirements['ram']): ProgramShortfall[] => {
+    if (profile.ramGB < req.minimum) return [shortfall('ram', 'minimum', `${profile.ramGB}GB`, `${req.minimum}GB`)];
+    if (profile.ramGB < req.recommended) return [shortfall('ram', 'recommended', `${profile.ramGB}GB`, `${req.recommended}GB`)];
+    return [];
+};
+
+const checkStorage = (profile: HardwareProfile, req: Requirements['storage']): ProgramShortfall[] => {
+    const { storage } = profile;
+    if (!storage) return [shortfall('storage', 'minimum', 'none', `${req.minimumCapacity}GB ${req.type}`)];
+
+    const found: ProgramShortfall[] = [];
+    const drive = storage.interface === 'HDD' ? 'HDD' : `${storage.interface} SSD`;
+    if (storage.interface === 'HDD') {
+        found.push(shortfall('storage', req.speed.includes('required') ? 'minimum' : 'recommended', drive, req.speed));
+    } else if (storage.interface === 'SATA' && req.speed.includes('NVMe')) {
+        found.push(shortfall('storage', 'recommended', drive, req.speed));
+    }
+    // Space can be added with a second or external drive
+    if (storage.capacityGB < req.minimumCapacity) {
+        found.push(shortfall('storage', 'recommended', `${storage.capacityGB}GB`, `${req.minimumCapacity}GB`));
+    }
+    return found;
+};
+
+const checkGpu = (profile: HardwareProfile, req: GpuRequirement): ProgramShortfall[] => {
+    const { gpu } = profile;
+    const actual = gpu ? `${gpu.vram}GB VRAM` : 'integrated';
+    if (req.required && (!gpu || (req.minimumVRAM !== undefined && gpu.vram < req.minimumVRAM))) {
+        return [shortfall('gpu', 'minimum', actual, `${req.minimumVRAM ?? 0}GB VRAM`)];
+    }
+    if (req.recommendedVRAM !== undefined && (!gpu || gpu.vram < req.recommendedVRAM)) {
+        return [shortfall('gpu', 'recommended', actual, `${req.recommendedVRAM}GB VRAM`)];
+    }
+    return [];
+};
+
+/**
+ * Check a hardware profile against one program's requirements
+ *
+ * @param program - Program as typed
+ * @param id - Workload that covers it (see matchProgram)
+ * @param profile - Hardware profile from profileFromBuild / profileFromLaptop
+ * @param os - Installed OS ("Windows", "Mac", "Ubuntu", "DOS", "Chrome"); null or "Unknown" skips the OS check
+ * @returns Workload score plus every shortfall, minimum ones first
+ */
+export const checkProgram = (program: string, id: WorkloadId, profile: HardwareProfile, os: string | null): ProgramFit => {
+    const req = performanceBenchmarksData.workloads[id].requirements;
+    const shortfalls = [
+        ...checkOs(os, req.os),
+        ...checkCpu(profile, req.cpu),
+        ...checkRam(profile, req.ram),
+        ...checkStorage(profile, req.storage),
+        ...checkGpu(profile, req.gpu as GpuRequirement)
+    ].sort((a, b) => (a.level === b.level ? 0 : a.level === 'minimum' ? -1 : 1));
+
+    return {
+        program,
+        workload: scoreWorkload(profile, id),
+        meetsMinimum: shortfalls.every(s => s.level !== 'minimum'),
+        shortfalls
+    };
+};
+
+/**
+ * Check a hardware profile against every program a student needs
+ *
+ * @param programs - Programs from the "Required Programs" filter
+ * @param profile - Hardware profile of the laptop or desktop build
+ * @param os - Installed OS, or null for desktop builds (the student chooses it)
+ * @returns Fit per catalogued program, plus the programs the catalogue does not cover
+ * @example
+ * const { fits, unknown } = checkPrograms(['MATLAB', 'Webots'], profileFromLaptop(laptop), laptop.laptopSpec.os);
+ */
+export const checkPrograms = (programs: string[], profile: HardwareProfile, os: string | null): ProgramCheck => {
+    const fits: ProgramFit[] = [];
+    const unknown: string[] = [];
+    programs.forEach(program => {
+        const id = matchProgram(program);
+        if (id) fits.push(checkProgram(program, id, profile, os));
+        else unknown.push(program);
+    });
+    return { fits, unknown };
+};
+
+/**
+ * Check the current desktop build or selected laptop against the required programs
+ *
+ * Desktop builds skip the OS check, since the student installs the OS.
+ */
+export const checkBuildPrograms = (build: PCBuild, programs: string[]): ProgramCheck => {
+    if (build.type === 'Laptop') {
+        if (!build.laptop) return { fits: [], unknown: [] };
+        return checkPrograms(programs, profileFromLaptop(build.laptop), build.laptop.laptopSpec?.os ?? null);
+    }
+    return checkPrograms(programs, profileFromBuild(build), null);
+};
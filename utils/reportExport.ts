@@ -0,0 +1,217 @@
+/**
+ * Analysis Report Export
+ *
+ * Bundles the Specialist Analysis panel (parts and specs, rule engine
+ * findings, workload scores and the AI verdict) into an AnalysisReport and
+ * renders it as Markdown, JSON or a print-styled HTML page that students can
+ * save as PDF. Section labels and prices are localised with utils/i18n.ts in
+ * the report's language; the JSON keeps stable English keys so it stays
+ * machine-readable.
+ */
+
+import { estimatePrice, usdToMmk } from './dataLoader';
+import { resolveBuild, SLOT_CATEGORY } from './ruleEngine';
+import { markdownToHtml } from './markdown';
+import { formatMmk, MessageKey, translate } from './i18n';
+import { AnalysisReport, DesktopSlot, Language, PCBuild, ReportComponent, RuleReport, StructuredAnalysis, SuitabilityScore } from '../types';
+
+const DESKTOP_SLOTS = Object.keys(SLOT_CATEGORY) as DesktopSlot[];
+
+const SEVERITY_ICON = { critical: '❌', warning: '⚠️', info: 'ℹ️' };
+
+// Keep free text from breaking Markdown table cells
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const priceCell = (mmk: number | null, language: Language) => (mmk !== null ? formatMmk(mmk, language) : '—');
+
+/**
+ * Collect everything shown in the Specialist Analysis panel
+ *
+ * @param build - Analyzed build; build.type decides whether desktop parts or the laptop are listed
+ * @param language - Language for the rendered labels
+ * @param suitability - Computed suitability shown on the score card
+ * @param ruleReport - Rule engine report (desktop builds only)
+ * @param analysis - Finished AI verdict, if any
+ * @param structuredAnalysis - Validated JSON form of the verdict, kept in the JSON export
+ * @returns Report ready for reportToMarkdown / reportToJson / reportToHtml
+ */
+export const buildAnalysisReport = (
+    build: PCBuild,
+    language: Language,
+    suitability: SuitabilityScore,
+    ruleReport: RuleReport | null,
+    analysis: string | null,
+    structuredAnalysis: StructuredAnalysis | null = null
+): AnalysisReport => {
+    let components: ReportComponent[];
+    if (build.type === 'Laptop') {
+        components = build.laptop
+            ? [{ slot: 'laptop', name: build.laptop.name, specs: build.laptop.specs || '', priceMMK: build.laptop.price ?? null }]
+            : [];
+    } else {
+        const records = resolveBuild(build);
+        components = DESKTOP_SLOTS.filter(slot => build[slot]).map(slot => {
+            const usd = estimatePrice(records[slot]?.priceRange);
+            return { slot, name: build[slot]!.name, specs: build[slot]!.specs || '', priceMMK: usd > 0 ? usdToMmk(usd) : null };
+        });
+    }
+
+    const prices = components.map(c => c.priceMMK).filter((p): p is number => p !== null);
+
+    return {
+        generatedAt: new Date().toISOString(),
+        language,
+        deviceType: build.type,
+        components,
+        totalMMK: prices.length > 0 ? prices.reduce((sum, p) => sum + p, 0) : null,
+        battery: build.type === 'Laptop' ? build.laptop?.battery || null : null,
+        suitability,
+        ruleReport: build.type === 'Desktop' ? ruleReport : null,
+        analysis,
+        structuredAnalysis: analysis ? structuredAnalysis : null
+    };
+};
+
+/**
+ * Machine-readable export (stable English keys, labels not translated)
+ */
+export const reportToJson = (report: AnalysisReport): string => JSON.stringify(report, null, 2);
+
+/**
+ * Markdown export with section labels in the report's language
+ *
+ * @example
+ * downloadReport(reportToMarkdown(report), 'uit-report.md', 'text/markdown');
+ */
+export const reportToMarkdown = (report: AnalysisReport): string => {
+    const t = (key: MessageKey) => translate(key, report.language);
+    const { suitability, ruleReport } = report;
+    const lines: string[] = [
+        `# ${t('report_title')}`,
+        '',
+        `${t('report_generated')}: ${new Date(report.generatedAt).toLocaleString()}  `,
+        `${t('report_device')}: ${report.deviceType}`,
+        '',
+        `## ${t('report_components')}`,
+        '',
+        `| ${t('report_component')} | | ${t('label_specs')} | ${t('label_price')} |`,
+        '| --- | --- | --- | --- |',
+        ...report.components.map(c => `| ${t(`slot_${c.slot}` as MessageKey)} | **${cell(c.name)}** | ${cell(c.specs)} | ${priceCell(c.priceMMK, report.language)} |`),
+        `| **${t('report_total')}** | | | **${priceCell(report.totalMMK, report.language)}** |`
+    ];
+    if (report.battery) lines.push('', `${t('battery_est')}: ${report.battery}`);
+
+    lines.push('', `## ${t('score_label')}: ${suitability.overall}/100`, '');
+    if (suitability.cappedReason) lines.push(`> ${t('report_capped')}: ${t(suitability.cappedReason)}`, '');
+    lines.push(
+        `| ${t('report_workloads')} | ${t('report_score')} | CPU | RAM | ${t('slot_storage')} | GPU |`,
+        '| --- | --- | --- | --- | --- | --- |',
+        ...suitability.workloads.map(w => `| ${w.name} | ${w.score} | ${w.breakdown.cpu} | ${w.breakdown.ram} | ${w.breakdown.storage} | ${w.breakdown.gpu} |`)
+    );
+
+    if (ruleReport) {
+        lines.push('', `## ${t('report_compatibility')}: ${t(`verdict_${ruleReport.verdict}` as MessageKey)}`, '');
+        if (ruleReport.findings.length === 0) lines.push(t('report_no_findings'));
+        ruleReport.findings.forEach(f => {
+            lines.push(`- ${f.passed ? '✅' : SEVERITY_ICON[f.severity]} **${f.name}**: ${f.message}`);
+        });
+    }
+
+    if (report.analysis) lines.push('', `## ${t('report_ai_verdict')}`, '', report.analysis.trim());
+    return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", "Noto Sans Myanmar", sans-serif; color: #0f172a; max-width: 780px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 22px; border-bottom: 3px solid #0891b2; padding-bottom: 8px; }
+  h2 { font-size: 16px; margin-top: 28px; color: #0e7490; }
+  .meta { color: #64748b; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; margin-top: 8px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .score { font-size: 36px; font-weight: 800; }
+  .capped { color: #b91c1c; font-size: 12px; }
+  ul.findings { padding-left: 0; list-style: none; font-size: 13px; }
+  ul.findings li { margin: 4px 0; }
+  .verdict { font-size: 13px; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 6px; padding: 4px 12px; }
+  .verdict p, .verdict ul, .verdict ol { margin: 8px 0; }
+  .verdict code { background: #e2e8f0; padding: 0 3px; border-radius: 3px; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2 { break-after: avoid; }
+    table, li { break-inside: avoid; }
+  }
+`;
+
+/**
+ * Standalone print-styled HTML page (open it and use the browser's "Save as PDF")
+ */
+export const reportToHtml = (report: AnalysisReport): string => {
+    const t = (key: MessageKey) => escapeHtml(translate(key, report.language));
+    const { suitability, ruleReport } = report;
+
+    const componentRows = report.components.map(c =>
+        `<tr><td>${t(`slot_${c.slot}` as MessageKey)}</td><td><strong>${escapeHtml(c.name)}</strong></td><td>${escapeHtml(c.specs)}</td><td>${priceCell(c.priceMMK, report.language)}</td></tr>`
+    ).join('\n');
+
+    const workloadRows = suitability.workloads.map(w =>
+        `<tr><td>${escapeHtml(w.name)}</td><td><strong>${w.score}</strong></td><td>${w.breakdown.cpu}</td><td>${w.breakdown.ram}</td><td>${w.breakdown.storage}</td><td>${w.breakdown.gpu}</td></tr>`
+    ).join('\n');
+
+    const findings = ruleReport
+        ? `<h2>${t('report_compatibility')}: ${t(`verdict_${ruleReport.verdict}` as MessageKey)}</h2>
+<ul class="findings">${ruleReport.findings.length === 0
+            ? `<li>${t('report_no_findings')}</li>`
+            : ruleReport.findings.map(f => `<li>${f.passed ? '✅' : SEVERITY_ICON[f.severity]} <strong>${escapeHtml(f.name)}</strong>: ${escapeHtml(f.message)}</li>`).join('\n')}</ul>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="${report.language}">
+<head>
+<meta charset="utf-8">
+<title>${t('report_title')}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${t('report_title')}</h1>
+<p class="meta">${t('report_generated')}: ${escapeHtml(new Date(report.generatedAt).toLocaleString())} · ${t('report_device')}: ${report.deviceType}</p>
+
+<h2>${t('report_components')}</h2>
+<table>
+<tr><th>${t('report_component')}</th><th></th><th>${t('label_specs')}</th><th>${t('label_price')}</th></tr>
+${componentRows}
+<tr><th colspan="3">${t('report_total')}</th><th>${priceCell(report.totalMMK, report.language)}</th></tr>
+</table>
+${report.battery ? `<p>${t('battery_est')}: ${escapeHtml(report.battery)}</p>` : ''}
+
+<h2>${t('score_label')}</h2>
+<div class="score">${suitability.overall}/100</div>
+${suitability.cappedReason ? `<p class="capped">${t('report_capped')}: ${t(suitability.cappedReason)}</p>` : ''}
+<table>
+<tr><th>${t('report_workloads')}</th><th>${t('report_score')}</th><th>CPU</th><th>RAM</th><th>${t('slot_storage')}</th><th>GPU</th></tr>
+${workloadRows}
+</table>
+
+${findings}
+
+${report.analysis ? `<h2>${t('report_ai_verdict')}</h2>\n<div class="verdict">${markdownToHtml(report.analysis)}</div>` : ''}
+</body>
+</html>
+`;
+};
+
+/**
+ * Save a rendered report through a temporary download link
+ */
+export const downloadReport = (content: string, filename: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking right away cancels the download in Safari and Firefox
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,127 @@
+import { test } from 'vitest';
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+import { evaluateBuild, getSlotStatus } from './ruleEngine';
+import { fromBuildRef } from './savedBuilds';
+import { BuildRef, PCBuild } from '../types';
+
+const require = createRequire(import.meta.url);
+const { evaluateRules } = require('../server/rules.js');
+const { resolveBuildRef } = require('../server/catalog.js');
+
+const COMPATIBLE: BuildRef['parts'] = {
+    cpu: 'c-14900k',
+    gpu: 'g-4070',
+    motherboard: 'm-z790',
+    ram: 'r-32-d5',
+    storage: 's-1tb-wd',
+    psu: 'p-1000',
+    pcCase: 'ca-4000d'
+};
+
+const desktop = (parts: BuildRef['parts']): PCBuild => fromBuildRef({ type: 'Desktop', parts }).build;
+
+// The finding of one rule, after swapping the given parts into the compatible build
+const findingFor = (ruleId: string, swap: BuildRef['parts']) => {
+    const finding = evaluateBuild(desktop({ ...COMPATIBLE, ...swap })).findings.find(f => f.ruleId === ruleId);
+    assert.ok(finding, `${ruleId} did not apply`);
+    return finding;
+};
+
+test('a matching build passes every rule, in priority order', () => {
+    const report = evaluateBuild(desktop(COMPATIBLE));
+    assert.equal(report.verdict, 'compatible');
+    assert.deepEqual(report.findings.map(f => f.ruleId), ['r1', 'r2', 'r3', 'r4', 'r5', 'r6', 'r7', 'r8']);
+    assert.ok(report.findings.every(f => f.passed));
+});
+
+test('r1 flags a CPU on a board with another socket', () => {
+    const r1 = findingFor('r1', { cpu: 'c-7950x' });
+    assert.equal(r1.passed, false);
+    assert.equal(r1.severity, 'critical');
+    assert.equal(r1.message, 'AMD Ryzen 9 7950X uses AM5, but ASUS ROG Maximus Z790 has socket LGA1700');
+});
+
+test('r2 flags DDR4 memory on a DDR5 board', () => {
+    const r2 = findingFor('r2', { ram: 'r-32-d4' });
+    assert.equal(r2.passed, false);
+    assert.match(r2.message, /is DDR4, but .* only supports DDR5/);
+});
+
+test('r3 compares peak draw with 80% of the PSU rating', () => {
+    // 253 W CPU + 450 W GPU + 150 W baseline
+    const r3 = findingFor('r3', { gpu: 'g-4090', psu: 'p-650' });
+    assert.equal(r3.passed, false);
+    assert.equal(r3.message, '853W > 520W (80% of 650W) - Insufficient!');
+    assert.equal(findingFor('r3', {}).message, '603W ≤ 800W (80% of 1000W)');
+});
+
+test('r4 flags a board the case cannot hold', () => {
+    const r4 = findingFor('r4', { cpu: 'c-7950x', motherboard: 'm-x670e' });
+    assert.equal(r4.passed, false);
+    assert.match(r4.message, /^E-ATX board .* does not fit in Corsair 4000D Airflow/);
+    assert.equal(findingFor('r4', { cpu: 'c-7950x', motherboard: 'm-x670e', pcCase: 'ca-o11' }).passed, true);
+});
+
+test('r5 warns when an entry-level CPU drives a high-end GPU', () => {
+    const r5 = findingFor('r5', { cpu: 'c-12100f', gpu: 'g-4090' });
+    assert.equal(r5.passed, false);
+    assert.equal(r5.severity, 'warning');
+});
+
+test('r6 names the workloads that need more RAM', () => {
+    const r6 = findingFor('r6', { ram: 'r-16-d5' });
+    assert.equal(r6.passed, false);
+    assert.match(r6.message, /^16GB is below the recommended RAM for .*Android Studio/);
+    assert.doesNotMatch(r6.message, /Visual Studio/);
+});
+
+test('r7 flags SATA storage for workloads that require NVMe', () => {
+    const r7 = findingFor('r7', { storage: 's-256-sata' });
+    assert.equal(r7.passed, false);
+    assert.match(r7.message, /^Crucial BX500 240GB is SATA, but .* require NVMe$/);
+});
+
+test('r8 flags a card longer than the case allows', () => {
+    const r8 = findingFor('r8', { gpu: 'g-4090', pcCase: 'ca-matx', motherboard: 'm-h610m', ram: 'r-32-d4' });
+    assert.equal(r8.passed, false);
+    assert.equal(r8.message, 'NVIDIA RTX 4090 is 304mm, but DeepCool MACUBE 110 only fits 280mm');
+});
+
+test('a failed critical rule makes the build incompatible and marks its slots', () => {
+    const report = evaluateBuild(desktop({ ...COMPATIBLE, cpu: 'c-7950x' }));
+    assert.equal(report.verdict, 'incompatible');
+    assert.equal(getSlotStatus(report, 'cpu').status, 'incompatible');
+    assert.equal(getSlotStatus(report, 'storage').status, 'ok');
+    assert.equal(evaluateBuild(desktop({ ...COMPATIBLE, ram: 'r-16-d5' })).verdict, 'issues');
+});
+
+test('rules skip missing and unknown parts instead of failing', () => {
+    const cpuOnly = evaluateBuild(desktop({ cpu: 'c-14900k', gpu: 'g-4070' }));
+    assert.deepEqual(cpuOnly.findings.map(f => f.ruleId), ['r5']);
+
+    // A part id no longer in components.json resolves to nothing
+    const build = desktop(COMPATIBLE);
+    const stale = { ...build, motherboard: { ...build.motherboard!, id: 'm-removed' } };
+    assert.ok(!evaluateBuild(stale).findings.some(f => ['r1', 'r2', 'r4'].includes(f.ruleId)));
+
+    const laptop = evaluateBuild({ ...build, type: 'Laptop' });
+    assert.deepEqual(laptop, { verdict: 'compatible', findings: [] });
+});
+
+test('the server rule engine reports the same findings', () => {
+    const swaps: BuildRef['parts'][] = [
+        {},
+        { cpu: 'c-7950x', ram: 'r-32-d4' },
+        { gpu: 'g-4090', psu: 'p-650', pcCase: 'ca-matx' },
+        { cpu: 'c-12100f', gpu: 'g-4090', ram: 'r-16-d5', storage: 's-256-sata' },
+        { motherboard: 'm-x670e' }
+    ];
+    swaps.forEach(swap => {
+        const parts = { ...COMPATIBLE, ...swap };
+        const client = evaluateBuild(desktop(parts)).findings.map(({ ruleId, severity, passed, message }) => ({ ruleId, severity, passed, message }));
+        const server = evaluateRules(resolveBuildRef({ type: 'Desktop', parts }).build)
+            .map(({ ruleId, severity, passed, message }: Record<string, unknown>) => ({ ruleId, severity, passed, message }));
+        assert.deepEqual(server, client, JSON.stringify(swap));
+    });
+});
@@ -0,0 +1,370 @@
+/**
+ * Rule Engine
+ *
+ * Deterministic evaluation of the inference rules (r1-r8) declared in
+ * knowledge-graph.json. The graph stores each rule's condition as prose; the
+ * executable form of every condition is declared here and joined with the
+ * graph metadata (name, action, priority) by rule id.
+ *
+ * The engine runs entirely in the browser, so a build verdict is reproducible
+ * and available even when the AI backend is unreachable.
+ */
+
+import {
+    compatibilityRulesData,
+    getComponentById,
+    knowledgeGraphData,
+    performanceBenchmarksData
+} from './dataLoader';
+
+import {
+    BuildVerdict,
+    CaseRecord,
+    ComponentCategory,
+    ComponentPart,
+    CPURecord,
+    DesktopSlot,
+    FindingSeverity,
+    GPURecord,
+    MotherboardRecord,
+    PCBuild,
+    PSURecord,
+    RAMRecord,
+    RuleFinding,
+    RuleReport,
+    SlotStatus,
+    StorageRecord
+} from '../types';
+
+export type WorkloadId = keyof typeof performanceBenchmarksData.workloads;
+
+/**
+ * Build slots mapped to their knowledge-base category
+ */
+export const SLOT_CATEGORY: Record<DesktopSlot, ComponentCategory> = {
+    cpu: 'CPU',
+    gpu: 'GPU',
+    motherboard: 'Motherboard',
+    ram: 'RAM',
+    storage: 'Storage',
+    psu: 'PSU',
+    pcCase: 'Case'
+};
+
+/**
+ * Full knowledge-base records for the parts selected in a build
+ */
+export interface ResolvedBuild {
+    cpu: CPURecord | null;
+    gpu: GPURecord | null;
+    motherboard: MotherboardRecord | null;
+    ram: RAMRecord | null;
+    storage: StorageRecord | null;
+    psu: PSURecord | null;
+    pcCase: CaseRecord | null;
+}
+
+interface RuleContext {
+    parts: ResolvedBuild;
+    workloads: WorkloadId[];
+}
+
+interface RuleOutcome {
+    passed: boolean;
+    message: string;
+}
+
+interface InferenceRule {
+    id: string;
+    components: DesktopSlot[];
+    // Returns null when the rule does not apply (e.g. a required part is not selected)
+    evaluate: (ctx: RuleContext) => RuleOutcome | null;
+}
+
+interface GraphRule {
+    id: string;
+    name: string;
+    condition: string;
+    conclusion: string;
+    action: string;
+    priority: number;
+}
+
+/**
+ * Workloads behind the overall suitability score and the default rule checks.
+ * The remaining workloads describe individual programs (VMware, MATLAB, ...)
+ * and are only checked when a student lists them.
+ */
+export const SUITABILITY_WORKLOADS = performanceBenchmarksData.suitability.workloads as WorkloadId[];
+
+const ACTION_SEVERITY: Record<string, FindingSeverity> = {
+    report_critical_error: 'critical',
+    report_warning: 'warning'
+};
+
+/**
+ * Resolve the display parts of a build to their full knowledge-base records
+ *
+ * @param build - Current PC build
+ * @returns Records keyed by build slot (null for empty or unknown parts)
+ */
+export const resolveBuild = (build: PCBuild): ResolvedBuild => {
+    const lookup = <T,>(slot: DesktopSlot): T | null => {
+        const part = build[slot];
+        return part ? (getComponentById(SLOT_CATEGORY[slot], part.id) as T | null) : null;
+    };
+
+    return {
+        cpu: lookup<CPURecord>('cpu'),
+        gpu: lookup<GPURecord>('gpu'),
+        motherboard: lookup<MotherboardRecord>('motherboard'),
+        ram: lookup<RAMRecord>('ram'),
+        storage: lookup<StorageRecord>('storage'),
+        psu: lookup<PSURecord>('psu'),
+        pcCase: lookup<CaseRecord>('pcCase')
+    };
+};
+
+/**
+ * Estimated peak system draw: CPU max TDP + GPU TDP + platform baseline
+ */
+export const estimateSystemPower = (cpu: CPURecord | null, gpu: GPURecord | null): number => {
+    const cpuPower = cpu?.maxTdp || cpu?.tdp || 0;
+    const gpuPower = gpu?.tdp || 0;
+    return cpuPower + gpuPower + compatibilityRulesData.powerRequirements.systemBaselineWattage.typical;
+};
+
+const workloadNames = (ids: WorkloadId[]) =>
+    ids.map(id => performanceBenchmarksData.workloads[id].name).join(', ');
+
+/**
+ * Executable form of each knowledge-graph inference rule
+ */
+const RULES: InferenceRule[] = [
+    {
+        // IF cpu.socket != motherboard.socket
+        id: 'r1',
+        components: ['cpu', 'motherboard'],
+        evaluate: ({ parts: { cpu, motherboard } }) => {
+            if (!cpu || !motherboard) return null;
+            const socketRules = compatibilityRulesData.socketCompatibility.rules;
+            const listed = socketRules[cpu.socket as keyof typeof socketRules]?.compatibleMotherboards as string[] | undefined;
+            const passed = cpu.socket === motherboard.socket && (!listed || listed.includes(motherboard.id));
+            return {
+                passed,
+                message: passed
+                    ? `${cpu.name} (${cpu.socket}) fits ${motherboard.name} (${motherboard.socket})`
+                    : `${cpu.name} uses ${cpu.socket}, but ${motherboard.name} has socket ${motherboard.socket}`
+            };
+        }
+    },
+    {
+        // IF ram.type != motherboard.ramType
+        id: 'r2',
+        components: ['ram', 'motherboard'],
+        evaluate: ({ parts: { ram, motherboard } }) => {
+            if (!ram || !motherboard) return null;
+            const ramRules = compatibilityRulesData.ramCompatibility.rules;
+            const listed = ramRules[ram.type as keyof typeof ramRules]?.compatibleMotherboards as string[] | undefined;
+            const passed = ram.type === motherboard.ramType && (!listed || listed.includes(motherboard.id));
+            return {
+                passed,
+                message: passed
+                    ? `${ram.type} memory matches ${motherboard.name}`
+                    : `${ram.name} is ${ram.type}, but ${motherboard.name} only supports ${motherboard.ramType}`
+            };
+        }
+    },
+    {
+        // IF (cpu.tdp + gpu.tdp + baseline) > psu.wattage * 0.8
+        id: 'r3',
+        components: ['psu', 'cpu', 'gpu'],
+        evaluate: ({ parts: { cpu, gpu, psu } }) => {
+            if (!psu || (!cpu && !gpu)) return null;
+            const totalPower = estimateSystemPower(cpu, gpu);
+            const safeThreshold = psu.wattage * 0.8; // 80% safety margin
+            const passed = totalPower <= safeThreshold;
+            return {
+                passed,
+                message: passed
+                    ? `${totalPower}W ≤ ${safeThreshold}W (80% of ${psu.wattage}W)`
+                    : `${totalPower}W > ${safeThreshold}W (80% of ${psu.wattage}W) - Insufficient!`
+            };
+        }
+    },
+    {
+        // IF motherboard.formFactor NOT IN case.supportedFormFactors
+        id: 'r4',
+        components: ['motherboard', 'pcCase'],
+        evaluate: ({ parts: { motherboard, pcCase } }) => {
+            if (!motherboard || !pcCase) return null;
+            const formRules = compatibilityRulesData.formFactorCompatibility.rules;
+            const cases = formRules[motherboard.formFactor as keyof typeof formRules]?.cases as string[] | undefined;
+            const passed = !!cases && cases.includes(pcCase.id);
+            return {
+                passed,
+                message: passed
+                    ? `${motherboard.formFactor} board fits in ${pcCase.name}`
+                    : `${motherboard.formFactor} board (${motherboard.name}) does not fit in ${pcCase.name} (${pcCase.formFactor} case)`
+            };
+        }
+    },
+    {
+        // IF (cpu.tier == 'entry-level' AND gpu.tier == 'high-end')
+        id: 'r5',
+        components: ['cpu', 'gpu'],
+        evaluate: ({ parts: { cpu, gpu } }) => {
+            if (!cpu || !gpu) return null;
+            const pairing = Object.values(compatibilityRulesData.bottleneckDetection.cpuGpuPairing)
+                .find(group => (group.gpus as string[]).includes(gpu.id));
+            const listedBottleneck = !!pairing && (pairing.bottleneckCPUs as string[]).includes(cpu.id);
+            const passed = !(cpu.tier === 'entry-level' && gpu.tier === 'high-end') && !listedBottleneck;
+            return {
+                passed,
+                message: passed
+                    ? `${cpu.name} is balanced with ${gpu.name}`
+                    : `${cpu.name} (${cpu.tier}) will bottleneck ${gpu.name} (${gpu.tier})`
+            };
+        }
+    },
+    {
+        // IF ram.capacity < workload.recommendedRAM
+        id: 'r6',
+        components: ['ram'],
+        evaluate: ({ parts: { ram }, workloads }) => {
+            if (!ram || workloads.length === 0) return null;
+            const short = workloads.filter(id =>
+                ram.capacity < performanceBenchmarksData.workloads[id].requirements.ram.recommended
+            );
+            return {
+                passed: short.length === 0,
+                message: short.length === 0
+                    ? `${ram.capacity}GB meets the recommended RAM for all checked workloads`
+                    : `${ram.capacity}GB is below the recommended RAM for ${workloadNames(short)}`
+            };
+        }
+    },
+    {
+        // IF storage.interface == 'SATA' AND workload.requiresNVMe
+        id: 'r7',
+        components: ['storage'],
+        evaluate: ({ parts: { storage }, workloads }) => {
+            if (!storage || workloads.length === 0) return null;
+            const needsNVMe = workloads.filter(id =>
+                performanceBenchmarksData.workloads[id].requirements.storage.speed.includes('NVMe required')
+            );
+            const passed = storage.interface !== 'SATA' || needsNVMe.length === 0;
+            return {
+                passed,
+                message: passed
+                    ? `${storage.interface} storage is fast enough for the checked workloads`
+                    : `${storage.name} is SATA, but ${workloadNames(needsNVMe)} require NVMe`
+            };
+        }
+    },
+    {
+        // IF gpu.length > case.maxGpuLength
+        id: 'r8',
+        components: ['gpu', 'pcCase'],
+        evaluate: ({ parts: { gpu, pcCase } }) => {
+            if (!gpu || !pcCase || !gpu.length) return null;
+            const passed = gpu.length <= pcCase.maxGpuLength;
+            return {
+                passed,
+                message: passed
+                    ? `${gpu.length}mm card fits ${pcCase.name} (max ${pcCase.maxGpuLength}mm)`
+                    : `${gpu.name} is ${gpu.length}mm, but ${pcCase.name} only fits ${pcCase.maxGpuLength}mm`
+            };
+        }
+    }
+];
+
+const graphRules = knowledgeGraphData.inferenceRules.rules as GraphRule[];
+
+/**
+ * Reduce findings to a single build verdict
+ */
+export const verdictFromFindings = (findings: RuleFinding[]): BuildVerdict => {
+    const failed = findings.filter(f => !f.passed);
+    if (failed.some(f => f.severity === 'critical')) return 'incompatible';
+    if (failed.length > 0) return 'issues';
+    return 'compatible';
+};
+
+/**
+ * Evaluate the knowledge-graph inference rules against a build
+ *
+ * @param build - PC build to validate (laptop builds yield no findings)
+ * @param workloads - Workloads checked by the RAM / storage rules (defaults to SUITABILITY_WORKLOADS)
+ * @returns Findings for every applicable rule, ordered by priority, plus the overall verdict
+ * @example
+ * const report = evaluateBuild(build);
+ * if (report.verdict === 'incompatible') { ... }
+ */
+export const evaluateBuild = (build: PCBuild, workloads: WorkloadId[] = SUITABILITY_WORKLOADS): RuleReport => {
+    if (build.type === 'Laptop') {
+        return { verdict: 'compatible', findings: [] };
+    }
+
+    const ctx: RuleContext = { parts: resolveBuild(build), workloads };
+    const findings: RuleFinding[] = [];
+
+    graphRules
+        .slice()
+        .sort((a, b) => a.priority - b.priority)
+        .forEach(meta => {
+            const rule = RULES.find(r => r.id === meta.id);
+            if (!rule) return;
+            const outcome = rule.evaluate(ctx);
+            if (!outcome) return;
+            findings.push({
+                ruleId: meta.id,
+                name: meta.name,
+                severity: ACTION_SEVERITY[meta.action] || 'info',
+                passed: outcome.passed,
+                message: outcome.message,
+                components: rule.components
+            });
+        });
+
+    return { verdict: verdictFromFindings(findings), findings };
+};
+
+/**
+ * Collapse the findings touching one build slot into a single badge status
+ *
+ * @param report - Report from evaluateBuild
+ * @param slot - Build slot shown on the card
+ * @returns Status plus the findings that involve the slot
+ */
+export const getSlotStatus = (report: RuleReport, slot: DesktopSlot): { status: SlotStatus; findings: RuleFinding[] } => {
+    const findings = report.findings.filter(f => f.components.includes(slot));
+    const failed = findings.filter(f => !f.passed);
+
+    let status: SlotStatus = 'unchecked';
+    if (failed.some(f => f.severity === 'critical')) status = 'incompatible';
+    else if (failed.length > 0) status = 'warning';
+    else if (findings.length > 0) status = 'ok';
+
+    return { status, findings };
+};
+
+/**
+ * Check how a candidate part would fit into the rest of the build.
+ * Only part-to-part rules run here; workload rules (r6, r7) are skipped so
+ * dropdown ordering reflects physical compatibility.
+ *
+ * @param build - Current PC build
+ * @param slot - Slot the candidate would occupy
+ * @param candidate - Part being considered for the slot
+ * @returns Status and the failed findings that explain it
+ */
+export const checkCandidate = (
+    build: PCBuild,
+    slot: DesktopSlot,
+    candidate: ComponentPart
+): { status: SlotStatus; reasons: RuleFinding[] } => {
+    const report = evaluateBuild({ ...build, type: 'Desktop', [slot]: candidate }, []);
+    const { status, findings } = getSlotStatus(report, slot);
+    return { status, reasons: findings.filter(f => !f.passed) };
+};
@@ -0,0 +1,243 @@
+/**
+ * Saved Builds & Workspace Persistence
+ *
+ * Keeps named desktop builds and laptop picks (with their AI analysis and
+ * computed score) and the current workspace in localStorage. Every stored
+ * value is wrapped in a { version, data } envelope and builds are stored as
+ * part ids, so entries written by an older release are migrated or discarded
+ * instead of breaking the app.
+ */
+
+import { loadComponents } from './dataLoader';
+import { SLOT_CATEGORY } from './ruleEngine';
+import { desktopCompareItem, laptopCompareItem } from './comparison';
+import { DEFAULT_LAPTOP_FILTERS, DEFAULT_MAX_PRICE_MMK, LAPTOP_SORT_KEYS } from './laptopFilter';
+import { BuildRef, BuildSlot, CompareItem, DesktopSlot, LaptopFilters, PCBuild, SavedBuild, WorkspaceSnapshot } from '../types';
+
+export const STORAGE_VERSION = 1;
+
+const SAVED_BUILDS_KEY = 'uit-pc-checker.saved-builds';
+const WORKSPACE_KEY = 'uit-pc-checker.workspace';
+
+const DESKTOP_SLOTS = Object.keys(SLOT_CATEGORY) as DesktopSlot[];
+// Upgrades from version n to n + 1. Add an entry whenever STORAGE_VERSION is bumped.
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Stored data for key, migrated to STORAGE_VERSION
+ *
+ * @returns null when nothing is stored or the value is unreadable, from a newer
+ *          release or has no migration path; the app then starts fresh
+ */
+const readEnvelope = (key: string): unknown => {
+    let envelope: unknown;
+    try {
+        const raw = localStorage.getItem(key);
+        if (!raw) return null;
+        envelope = JSON.parse(raw);
+    } catch {
+        // Storage disabled or not JSON
+        return null;
+    }
+    if (!isRecord(envelope) || typeof envelope.version !== 'number' || envelope.version > STORAGE_VERSION) return null;
+
+    let { version, data } = envelope;
+    while (version < STORAGE_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) return null;
+        data = migrate(data);
+        version++;
+    }
+    return data;
+};
+
+const writeEnvelope = (key: string, data: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify({ version: STORAGE_VERSION, data }));
+    } catch {
+        // Private mode or quota exceeded; the app keeps working without persistence
+    }
+};
+
+const isBuildRef = (value: unknown): value is BuildRef =>
+    isRecord(value) &&
+    (value.type === 'Desktop' || value.type === 'Laptop') &&
+    isRecord(value.parts);
+
+const isSavedBuild = (value: unknown): value is SavedBuild =>
+    isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && isBuildRef(value.build);
+
+/**
+ * Reduce a build to the part ids of its filled slots
+ */
+export const toBuildRef = (build: PCBuild): BuildRef => {
+    const parts: BuildRef['parts'] = {};
+    ([...DESKTOP_SLOTS, 'laptop'] as BuildSlot[]).forEach(slot => {
+        const part = build[slot];
+        if (part) parts[slot] = part.id;
+    });
+    return { type: build.type, parts };
+};
+
+/**
+ * Look up the parts of a stored build again
+ *
+ * Ids that are no longer in the knowledge base (or laptop CSV) leave their
+ * slot empty and are reported instead of failing the restore.
+ *
+ * @param ref - Stored build
+ * @returns The rebuilt PCBuild and the "slot: id" pairs that could not be found
+ * @example
+ * const { build, missing } = fromBuildRef(saved.build);
+ */
+export const fromBuildRef = (ref: BuildRef): { build: PCBuild; missing: string[] } => {
+    const build: PCBuild = {
+        type: ref.type,
+        cpu: null,
+        gpu: null,
+        motherboard: null,
+        ram: null,
+        storage: null,
+        psu: null,
+        pcCase: null,
+        laptop: null
+    };
+    const missing: string[] = [];
+
+    Object.entries(ref.parts).forEach(([slot, id]) => {
+        const category = slot === 'laptop' ? 'Laptop' : SLOT_CATEGORY[slot as DesktopSlot];
+        if (!category || typeof id !== 'string') return;
+        const part = loadComponents(category).find(p => p.id === id);
+        if (part) build[slot as BuildSlot] = part;
+        else missing.push(`${slot}: ${id}`);
+    });
+
+    return { build, missing };
+};
+
+/**
+ * Default name for a new saved entry, e.g. "Core i5-13600K + RTX 4060" or the laptop model
+ */
+export const defaultSavedName = (build: PCBuild): string => {
+    if (build.type === 'Laptop') return build.laptop?.name || 'Laptop Pick';
+    return [build.cpu?.name, build.gpu?.name].filter(Boolean).join(' + ') || 'Desktop Build';
+};
+
+/**
+ * Load the saved build list, newest first
+ *
+ * @returns Saved entries; malformed entries are skipped
+ */
+export const loadSavedBuilds = (): SavedBuild[] => {
+    const data = readEnvelope(SAVED_BUILDS_KEY);
+    if (!Array.isArray(data)) return [];
+    return data.filter(isSavedBuild);
+};
+
+/**
+ * Persist the saved build list
+ */
+export const storeSavedBuilds = (saved: SavedBuild[]) => {
+    writeEnvelope(SAVED_BUILDS_KEY, saved);
+};
+
+/**
+ * Reference to the parts that matter for build.type only
+ *
+ * A laptop pick does not carry the desktop parts, and vice versa. Used for
+ * saved builds and as the cache scope of an analysis.
+ */
+export const activeBuildRef = (build: PCBuild): BuildRef => {
+    const { type, parts } = toBuildRef(build);
+    const keep: BuildSlot[] = type === 'Laptop' ? ['laptop'] : DESKTOP_SLOTS;
+    return { type, parts: Object.fromEntries(Object.entries(parts).filter(([slot]) => keep.includes(slot as BuildSlot))) };
+};
+
+const newId = () => `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Create a saved entry for the current build
+ *
+ * @param name - Display name chosen by the student
+ * @param build - Build or laptop pick to save
+ * @param analysis - AI report for this build, if any
+ * @param score - Computed suitability for this build, if analyzed
+ */
+export const createSavedBuild = (name: string, build: PCBuild, analysis: string | null, score: number | null): SavedBuild => ({
+    id: newId(),
+    name: name.trim() || defaultSavedName(build),
+    build: activeBuildRef(build),
+    analysis,
+    score,
+    savedAt: new Date().toISOString()
+});
+
+export const renameSavedBuild = (saved: SavedBuild[], id: string, name: string): SavedBuild[] =>
+    saved.map(s => (s.id === id && name.trim() ? { ...s, name: name.trim() } : s));
+
+/**
+ * Copy an entry directly below the original as "<name> (copy)"
+ */
+export const duplicateSavedBuild = (saved: SavedBuild[], id: string): SavedBuild[] => {
+    const index = saved.findIndex(s => s.id === id);
+    if (index < 0) return saved;
+    const copy: SavedBuild = { ...saved[index], id: newId(), name: `${saved[index].name} (copy)`, savedAt: new Date().toISOString() };
+    return [...saved.slice(0, index + 1), copy, ...saved.slice(index + 1)];
+};
+
+export const deleteSavedBuild = (saved: SavedBuild[], id: string): SavedBuild[] =>
+    saved.filter(s => s.id !== id);
+
+// Stored filters over the defaults; a value shaped unlike its default (or a
+// filter added after the snapshot was written) falls back to "any"
+const mergeFilters = (stored: unknown): LaptopFilters => {
+    const filters: LaptopFilters = { ...DEFAULT_LAPTOP_FILTERS, maxPriceMMK: DEFAULT_MAX_PRICE_MMK };
+    if (!isRecord(stored)) return filters;
+    const sameShape = (value: unknown, fallback: unknown) =>
+        typeof value === typeof fallback && Array.isArray(value) === Array.isArray(fallback);
+    return Object.fromEntries(Object.entries(filters).map(([key, fallback]) =>
+        [key, sameShape(stored[key], fallback) ? stored[key] : fallback]
+    )) as LaptopFilters;
+};
+
+/**
+ * Load the workspace saved before the last page refresh
+ *
+ * Filters are merged over the defaults, so filters added after the snapshot
+ * was written start out as "any".
+ *
+ * @returns The snapshot, or null when nothing usable is stored
+ */
+export const loadWorkspace = (): WorkspaceSnapshot | null => {
+    const data = readEnvelope(WORKSPACE_KEY);
+    if (!isRecord(data) || !isBuildRef(data.build)) return null;
+    return {
+        build: data.build,
+        analysis: typeof data.analysis === 'string' ? data.analysis : null,
+        compare: Array.isArray(data.compare) ? data.compare.filter(isBuildRef) : [],
+        filters: mergeFilters(data.filters),
+        sort: LAPTOP_SORT_KEYS.find(key => key === data.sort) ?? 'price'
+    };
+};
+
+/**
+ * Persist the current workspace
+ */
+export const storeWorkspace = (snapshot: WorkspaceSnapshot) => {
+    writeEnvelope(WORKSPACE_KEY, snapshot);
+};
+
+/**
+ * Rebuild compare list items from stored builds, skipping any with missing parts
+ */
+export const compareItemsFromRefs = (refs: BuildRef[]): CompareItem[] => {
+    return refs.flatMap(ref => {
+        const { build, missing } = fromBuildRef(ref);
+        if (missing.length > 0) return [];
+        if (build.type === 'Laptop') return build.laptop ? [laptopCompareItem(build.laptop)] : [];
+        return [desktopCompareItem(build)];
+    });
+};
@@ -0,0 +1,208 @@
+/**
+ * Suitability Scoring
+ *
+ * Computes the UIT suitability score from performance-benchmarks.json instead
+ * of trusting a number written by the AI. Desktop builds and CSV laptops are
+ * first reduced to a common HardwareProfile, then each workload's requirements
+ * and scoringWeights are applied to per-component sub-scores.
+ */
+
+import { performanceBenchmarksData } from './dataLoader';
+import { evaluateBuild, resolveBuild, SUITABILITY_WORKLOADS, WorkloadId } from './ruleEngine';
+import { ComponentPart, ComponentTier, PCBuild, SuitabilityScore, WorkloadScore } from '../types';
+
+/**
+ * Hardware facts the scorer needs, independent of where they came from
+ */
+export interface HardwareProfile {
+    cpu: {
+        tier: ComponentTier;
+        cores?: number;
+        suitability?: Record<string, number>;
+    } | null;
+    ramGB: number;
+    storage: {
+        capacityGB: number;
+        interface: 'NVMe' | 'SATA' | 'HDD';
+    } | null;
+    // null means integrated graphics only
+    gpu: {
+        tier: ComponentTier;
+        vram: number;
+        suitability?: Record<string, number>;
+    } | null;
+}
+
+type Workload = typeof performanceBenchmarksData.workloads[WorkloadId];
+
+const ratings = performanceBenchmarksData.tierPerformanceRatings;
+
+// Which workloadSuitability key on a component speaks for each benchmark workload
+const SUITABILITY_KEYS: Record<WorkloadId, { cpu: string; gpu: string }> = {
+    visualStudio: { cpu: 'coding', gpu: 'coding' },
+    androidStudio: { cpu: 'mobileEmulation', gpu: 'mobileEmulation' },
+    unity: { cpu: 'graphics', gpu: 'graphics' },
+    blender: { cpu: 'graphics', gpu: 'graphics' },
+    docker: { cpu: 'docker', gpu: 'coding' },
+    dataScience: { cpu: 'docker', gpu: 'aiml' },
+    vmware: { cpu: 'docker', gpu: 'coding' },
+    matlab: { cpu: 'docker', gpu: 'aiml' },
+    autocad: { cpu: 'graphics', gpu: 'graphics' },
+    premiere: { cpu: 'graphics', gpu: 'graphics' },
+    webots: { cpu: 'graphics', gpu: 'graphics' },
+    packetTracer: { cpu: 'coding', gpu: 'coding' }
+};
+
+// Rating given to integrated graphics when a workload does not require a GPU
+const INTEGRATED_GPU_RATING = 60;
+
+// Highest overall score an incompatible desktop build can receive
+const INCOMPATIBLE_CAP = 30;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const scoreCpu = (profile: HardwareProfile, workload: Workload, id: WorkloadId): number => {
+    const { cpu } = profile;
+    if (!cpu) return 0;
+    const base = cpu.suitability?.[SUITABILITY_KEYS[id].cpu] ?? ratings.cpu[cpu.tier];
+    if (cpu.cores === undefined) return base;
+
+    const { minCores, recommendedCores } = workload.requirements.cpu;
+    if (cpu.cores < minCores) return base * 0.6;
+    if (cpu.cores >= recommendedCores) return base;
+    return base * (0.8 + 0.2 * (cpu.cores - minCores) / (recommendedCores - minCores));
+};
+
+// Same thresholds as the "Score Calculation" example in knowledge-base/README.md
+const scoreRam = (profile: HardwareProfile, workload: Workload): number => {
+    const { minimum, recommended, optimal } = workload.requirements.ram;
+    if (profile.ramGB >= optimal) return 100;
+    if (profile.ramGB >= recommended) return 75;
+    if (profile.ramGB >= minimum) return 50;
+    return profile.ramGB > 0 ? 25 : 0;
+};
+
+const scoreStorage = (profile: HardwareProfile, workload: Workload): number => {
+    const { storage } = profile;
+    if (!storage) return 0;
+
+    let rating: number;
+    if (storage.interface === 'HDD') rating = ratings.storage['SATA-SSD'] / 2;
+    else if (storage.interface === 'SATA') rating = ratings.storage['SATA-SSD'];
+    else if (storage.capacityGB >= 2000) rating = ratings.storage['NVMe-Gen4-2TB+'];
+    else if (storage.capacityGB >= 1000) rating = ratings.storage['NVMe-Gen4-1TB'];
+    else rating = ratings.storage['NVMe-Gen4-500GB'];
+
+    return storage.capacityGB < workload.requirements.storage.minimumCapacity ? rating * 0.7 : rating;
+};
+
+const scoreGpu = (profile: HardwareProfile, workload: Workload, id: WorkloadId): number => {
+    const { gpu } = profile;
+    const req = workload.requirements.gpu as { required: boolean; minimumVRAM?: number; recommendedVRAM?: number };
+
+    if (!gpu) return req.required ? 0 : INTEGRATED_GPU_RATING;
+
+    const base = gpu.suitability?.[SUITABILITY_KEYS[id].gpu] ?? ratings.gpu[gpu.tier];
+    if (req.minimumVRAM && gpu.vram < req.minimumVRAM) return base * 0.5;
+    if (req.recommendedVRAM && gpu.vram < req.recommendedVRAM) return base * 0.85;
+    return base;
+};
+
+/**
+ * Score a hardware profile against one workload
+ */
+export const scoreWorkload = (profile: HardwareProfile, id: WorkloadId): WorkloadScore => {
+    const workload = performanceBenchmarksData.workloads[id];
+    const weights = workload.scoringWeights;
+    const breakdown = {
+        cpu: clamp(scoreCpu(profile, workload, id)),
+        ram: clamp(scoreRam(profile, workload)),
+        storage: clamp(scoreStorage(profile, workload)),
+        gpu: clamp(scoreGpu(profile, workload, id))
+    };
+
+    return {
+        id,
+        name: workload.name,
+        score: clamp(
+            breakdown.cpu * weights.cpu +
+            breakdown.ram * weights.ram +
+            breakdown.storage * weights.storage +
+            breakdown.gpu * weights.gpu
+        ),
+        breakdown
+    };
+};
+
+/**
+ * Score a hardware profile against the suitability workloads
+ *
+ * @param profile - Hardware profile from profileFromBuild / profileFromLaptop
+ * @returns Per-workload scores and their mean as the overall score
+ */
+export const scoreProfile = (profile: HardwareProfile): SuitabilityScore => {
+    const workloads = SUITABILITY_WORKLOADS.map(id => scoreWorkload(profile, id));
+    const overall = clamp(workloads.reduce((sum, w) => sum + w.score, 0) / workloads.length);
+    return { overall, workloads };
+};
+
+/**
+ * Build a hardware profile from a desktop build's knowledge-base records
+ */
+export const profileFromBuild = (build: PCBuild): HardwareProfile => {
+    const parts = resolveBuild(build);
+    return {
+        cpu: parts.cpu
+            ? { tier: parts.cpu.tier, cores: parts.cpu.cores, suitability: parts.cpu.workloadSuitability }
+            : null,
+        ramGB: parts.ram?.capacity || 0,
+        storage: parts.storage
+            ? { capacityGB: parts.storage.capacity, interface: parts.storage.interface === 'SATA' ? 'SATA' : 'NVMe' }
+            : null,
+        gpu: parts.gpu
+            ? { tier: parts.gpu.tier, vram: parts.gpu.vram, suitability: parts.gpu.workloadSuitability }
+            : null
+    };
+};
+
+/**
+ * Build a hardware profile from a CSV laptop's parsed spec
+ *
+ * Laptops are assumed to ship NVMe SSDs; HDD-only models score as HDD.
+ */
+export const profileFromLaptop = (laptop: ComponentPart): HardwareProfile => {
+    const spec = laptop.laptopSpec;
+    if (!spec) return { cpu: null, ramGB: 0, storage: null, gpu: null };
+
+    return {
+        cpu: { tier: spec.cpu.tier, cores: spec.cores ?? undefined },
+        ramGB: spec.ramGB,
+        storage: spec.ssdGB > 0
+            ? { capacityGB: spec.ssdGB, interface: 'NVMe' }
+            : spec.hddGB > 0 ? { capacityGB: spec.hddGB, interface: 'HDD' } : null,
+        // Integrated graphics share system memory
+        gpu: spec.gpu.dedicated ? { tier: spec.gpu.tier, vram: spec.gpu.vramGB } : null
+    };
+};
+
+/**
+ * Compute the UIT suitability score for the current build
+ *
+ * Incompatible desktop builds are capped, since they cannot be assembled as chosen.
+ *
+ * @param build - Desktop build or selected laptop
+ * @returns Overall score plus per-workload breakdown
+ * @example
+ * const { overall, workloads } = computeSuitability(build);
+ */
+export const computeSuitability = (build: PCBuild): SuitabilityScore => {
+    if (build.type === 'Laptop') {
+        return build.laptop ? scoreProfile(profileFromLaptop(build.laptop)) : { overall: 0, workloads: [] };
+    }
+
+    const result = scoreProfile(profileFromBuild(build));
+    if (evaluateBuild(build, []).verdict === 'incompatible' && result.overall > INCOMPATIBLE_CAP) {
+        return { ...result, overall: INCOMPATIBLE_CAP, cappedReason: 'capped_incompatible' };
+    }
+    return result;
+};
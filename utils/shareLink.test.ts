@@ -0,0 +1,86 @@
+import { test } from 'vitest';
+import assert from 'node:assert/strict';
+import { encodeShareLink, parseShareLink, SHARE_VERSION } from './shareLink';
+import { fromBuildRef } from './savedBuilds';
+import { DEFAULT_LAPTOP_FILTERS } from './laptopFilter';
+import { LaptopFilters } from '../types';
+
+const desktop = fromBuildRef({
+    type: 'Desktop',
+    parts: { cpu: 'c-13600k', gpu: 'g-4060ti', motherboard: 'm-b760', ram: 'r-32-d5', psu: 'p-650' }
+}).build;
+const laptop = fromBuildRef({ type: 'Laptop', parts: { laptop: '0' } }).build;
+
+const filters: LaptopFilters = {
+    ...DEFAULT_LAPTOP_FILTERS,
+    maxPriceMMK: 2500000,
+    ram: { min: 16, max: null },
+    majors: ['Software Engineering'],
+    gpuClasses: ['mainstream'],
+    programMode: 'all',
+    gamingOnly: true
+};
+
+test('a desktop build survives the round trip with empty slots kept in place', () => {
+    const hash = encodeShareLink(desktop);
+    assert.equal(hash, `v=${SHARE_VERSION}&d=c-13600k%2Cg-4060ti%2Cm-b760%2Cr-32-d5%2C%2Cp-650%2C`);
+
+    const link = parseShareLink(`#${hash}`);
+    assert.ok(link?.build);
+    assert.equal(link.deviceType, 'Desktop');
+    assert.deepEqual(link.problems, []);
+    assert.equal(link.build.storage, null);
+    assert.equal(link.build.pcCase, null);
+    (['cpu', 'gpu', 'motherboard', 'ram', 'psu'] as const).forEach(slot => assert.equal(link.build![slot]?.id, desktop[slot]?.id));
+});
+
+test('a laptop pick keeps its filters and sort order', () => {
+    const link = parseShareLink(encodeShareLink(laptop, filters, 'value'));
+    assert.ok(link);
+    assert.equal(link.deviceType, 'Laptop');
+    assert.equal(link.build?.laptop?.id, '0');
+    assert.deepEqual(link.filters, filters);
+    assert.equal(link.sort, 'value');
+    assert.deepEqual(link.problems, []);
+});
+
+test('default filters are left out of the link', () => {
+    const hash = encodeShareLink(laptop, { ...DEFAULT_LAPTOP_FILTERS, maxPriceMMK: 3000000 }, 'price');
+    assert.equal(hash, `v=${SHARE_VERSION}&l=0&budget=3000000`);
+});
+
+test('unknown part ids are reported, not dropped silently', () => {
+    const link = parseShareLink('#v=1&d=c-13600k,g-removed,m-b760,r-32-d5,,,');
+    assert.ok(link?.build);
+    assert.equal(link.build.cpu?.id, 'c-13600k');
+    assert.equal(link.build.gpu, null);
+    assert.deepEqual(link.problems, [{ key: 'share_unknown_part', vars: { part: 'gpu: g-removed' } }]);
+
+    const missingLaptop = parseShareLink('#v=1&l=999999');
+    assert.deepEqual(missingLaptop?.problems, [{ key: 'share_unknown_part', vars: { part: 'laptop: 999999' } }]);
+});
+
+test('a link from another version is refused with a problem', () => {
+    const link = parseShareLink('#v=2&d=c-13600k,,,,,,');
+    assert.deepEqual(link, {
+        deviceType: 'Desktop',
+        build: null,
+        filters: null,
+        sort: null,
+        problems: [{ key: 'share_bad_version', vars: { version: '2', supported: SHARE_VERSION } }]
+    });
+});
+
+test('unreadable filter values fall back to the defaults and are reported', () => {
+    const link = parseShareLink('#v=1&l=0&budget=lots&ram=16-32GB&gpu=mainstream,quantum&sort=cheapest');
+    assert.ok(link?.filters);
+    assert.equal(link.filters.maxPriceMMK, 3000000);
+    assert.deepEqual(link.filters.ram, DEFAULT_LAPTOP_FILTERS.ram);
+    assert.deepEqual(link.filters.gpuClasses, ['mainstream']);
+    assert.equal(link.sort, null);
+    assert.deepEqual(link.problems.map(p => p.key), ['share_bad_budget', 'share_bad_range', 'share_unknown_gpu', 'share_unknown_sort']);
+});
+
+test('hashes that are not share links are ignored', () => {
+    ['', '#', '#analysis', '#d=c-13600k', '#v=1'].forEach(hash => assert.equal(parseShareLink(hash), null, hash));
+});
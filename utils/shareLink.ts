@@ -0,0 +1,173 @@
+/**
+ * Shareable Build Links
+ *
+ * Encodes a desktop build, or a laptop pick plus the Budget & Major filters,
+ * into a short versioned URL hash so students can send a link instead of a
+ * screenshot:
+ *
+ *   #v=1&d=c-13600k,g-4060,mb-b760,r-ddr5-32,,psu-650,      (desktop, slots in DESKTOP_ORDER)
+ *   #v=1&l=123&budget=2500000&ram=16-&major=Software+Engineering&sort=value
+ *
+ * Only filters that differ from the defaults are written. Ids that are no
+ * longer in the data and values that cannot be read are reported as problems
+ * (UI_TEXT keys, translated where they are shown) rather than dropped silently.
+ */
+
+import { fromBuildRef } from './savedBuilds';
+import { MessageKey, MessageVars } from './i18n';
+import { DEFAULT_LAPTOP_FILTERS, DEFAULT_MAX_PRICE_MMK, GPU_CLASS_LABELS, LAPTOP_SORT_KEYS } from './laptopFilter';
+import { BuildRef, DesktopSlot, DeviceType, GpuClass, LaptopFilters, LaptopSortKey, NumericRange, PCBuild } from '../types';
+
+export const SHARE_VERSION = 1;
+
+// Position of each slot in the "d" parameter. Never reorder within a version.
+const DESKTOP_ORDER: DesktopSlot[] = ['cpu', 'gpu', 'motherboard', 'ram', 'storage', 'psu', 'pcCase'];
+
+const RANGE_KEYS = ['ram', 'ssd', 'cores', 'screen'] as const;
+
+const LIST_KEYS = [
+    ['brand', 'brands'],
+    ['os', 'os'],
+    ['major', 'majors'],
+    ['prog', 'programs']
+] as const;
+
+export interface ShareProblem {
+    key: MessageKey;
+    vars: MessageVars;
+}
+
+export interface SharedLink {
+    deviceType: DeviceType;
+    build: PCBuild | null;           // null when the link only carries filters or could not be read
+    filters: LaptopFilters | null;   // Present for links made on the Budget & Major tab
+    sort: LaptopSortKey | null;
+    problems: ShareProblem[];        // Unknown ids and unreadable values, shown to the student
+}
+
+const encodeRange = (range: NumericRange) => `${range.min ?? ''}-${range.max ?? ''}`;
+
+const decodeRange = (value: string): NumericRange | null => {
+    const m = value.match(/^(\d*)-(\d*)$/);
+    if (!m) return null;
+    return { min: m[1] ? Number(m[1]) : null, max: m[2] ? Number(m[2]) : null };
+};
+
+/**
+ * Encode a build (and optionally the laptop filters) as a URL hash
+ *
+ * @param build - Desktop build or laptop pick; build.type decides which parts are written
+ * @param filters - Budget & Major filters to include with a laptop link
+ * @param sort - Budget & Major sort order to include with the filters
+ * @returns Hash content without the leading "#"
+ * @example
+ * const url = `${location.origin}${location.pathname}#${encodeShareLink(build)}`;
+ */
+export const encodeShareLink = (build: PCBuild, filters?: LaptopFilters, sort?: LaptopSortKey): string => {
+    const params = new URLSearchParams({ v: String(SHARE_VERSION) });
+
+    if (build.type === 'Desktop') {
+        params.set('d', DESKTOP_ORDER.map(slot => build[slot]?.id || '').join(','));
+        return params.toString();
+    }
+
+    if (build.laptop) params.set('l', build.laptop.id);
+    if (filters) {
+        params.set('budget', String(filters.maxPriceMMK));
+        RANGE_KEYS.forEach(key => {
+            if (filters[key].min !== null || filters[key].max !== null) params.set(key, encodeRange(filters[key]));
+        });
+        LIST_KEYS.forEach(([param, field]) => {
+            if (filters[field].length > 0) params.set(param, filters[field].join(','));
+        });
+        if (filters.gpuClasses.length > 0) params.set('gpu', filters.gpuClasses.join(','));
+        if (filters.majorMode === 'all') params.set('mm', 'all');
+        if (filters.programMode === 'all') params.set('pm', 'all');
+        if (filters.gamingOnly) params.set('gaming', '1');
+        if (sort && sort !== 'price') params.set('sort', sort);
+    }
+    return params.toString();
+};
+
+const decodeFilters = (params: URLSearchParams, problems: ShareProblem[]): LaptopFilters => {
+    const filters: LaptopFilters = { ...DEFAULT_LAPTOP_FILTERS, maxPriceMMK: DEFAULT_MAX_PRICE_MMK };
+
+    const budget = Number(params.get('budget'));
+    if (Number.isFinite(budget) && budget > 0) filters.maxPriceMMK = budget;
+    else problems.push({ key: 'share_bad_budget', vars: { value: params.get('budget') || '', budget: DEFAULT_MAX_PRICE_MMK } });
+
+    RANGE_KEYS.forEach(key => {
+        const value = params.get(key);
+        if (value === null) return;
+        const range = decodeRange(value);
+        if (range) filters[key] = range;
+        else problems.push({ key: 'share_bad_range', vars: { field: key, value } });
+    });
+
+    LIST_KEYS.forEach(([param, field]) => {
+        const value = params.get(param);
+        if (value) filters[field] = value.split(',').map(v => v.trim()).filter(Boolean);
+    });
+
+    filters.gpuClasses = (params.get('gpu') || '').split(',').filter(Boolean).filter((c): c is GpuClass => {
+        if (c in GPU_CLASS_LABELS) return true;
+        problems.push({ key: 'share_unknown_gpu', vars: { value: c } });
+        return false;
+    });
+
+    if (params.get('mm') === 'all') filters.majorMode = 'all';
+    if (params.get('pm') === 'all') filters.programMode = 'all';
+    filters.gamingOnly = params.get('gaming') === '1';
+    return filters;
+};
+
+/**
+ * Read a share link from a URL hash
+ *
+ * @param hash - window.location.hash (with or without the leading "#")
+ * @returns The shared build and filters, or null when the hash is not a share link
+ * @example
+ * const link = parseShareLink(window.location.hash);
+ * if (link?.problems.length) showProblems(link.problems.map(p => t(p.key, p.vars)));
+ */
+export const parseShareLink = (hash: string): SharedLink | null => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const version = params.get('v');
+    if (version === null || (!params.has('d') && !params.has('l') && !params.has('budget'))) return null;
+
+    const problems: ShareProblem[] = [];
+    if (Number(version) !== SHARE_VERSION) {
+        problems.push({ key: 'share_bad_version', vars: { version, supported: SHARE_VERSION } });
+        return { deviceType: 'Desktop', build: null, filters: null, sort: null, problems };
+    }
+
+    let ref: BuildRef | null = null;
+    const desktop = params.get('d');
+    const laptop = params.get('l');
+    if (desktop !== null) {
+        const ids = desktop.split(',');
+        const parts: BuildRef['parts'] = {};
+        DESKTOP_ORDER.forEach((slot, i) => {
+            if (ids[i]) parts[slot] = ids[i];
+        });
+        ref = { type: 'Desktop', parts };
+    } else if (laptop) {
+        ref = { type: 'Laptop', parts: { laptop } };
+    }
+
+    let build: PCBuild | null = null;
+    if (ref) {
+        const restored = fromBuildRef(ref);
+        build = restored.build;
+        restored.missing.forEach(part => problems.push({ key: 'share_unknown_part', vars: { part } }));
+    }
+
+    const filters = params.has('budget') ? decodeFilters(params, problems) : null;
+
+    const sortParam = params.get('sort');
+    let sort: LaptopSortKey | null = null;
+    if (sortParam && LAPTOP_SORT_KEYS.includes(sortParam as LaptopSortKey)) sort = sortParam as LaptopSortKey;
+    else if (sortParam) problems.push({ key: 'share_unknown_sort', vars: { value: sortParam } });
+
+    return { deviceType: desktop !== null ? 'Desktop' : 'Laptop', build, filters, sort, problems };
+};
@@ -0,0 +1,72 @@
+/**
+ * Headless laptop dataset validation
+ *
+ * Loads utils/dataLoader.ts through Vite (so the real `?raw` CSV import and
+ * schema are exercised) and prints the diagnostics from utils/laptopSchema.ts.
+ *
+ * Exits non-zero when the loader cannot import the dataset, when any row is
+ * skipped, or when a required column is missing.
+ *
+ * Usage: npm run validate:data [-- --verbose]
+ */
+
+import { createServer } from 'vite';
+
+const verbose = process.argv.includes('--verbose');
+const WARNING_SAMPLE = 5;
+
+const formatDiagnostic = (d) => {
+    const where = d.line !== null ? `line ${d.line}` : 'header';
+    const column = d.column !== null ? ` [${d.column || '(index)'}]` : '';
+    return `  ${d.severity.toUpperCase()} ${d.code} ${where}${column}: ${d.message}`;
+};
+
+const server = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    logLevel: 'error',
+    optimizeDeps: { noDiscovery: true }
+});
+
+let failed = false;
+
+try {
+    const { loadLaptopDatasetReport, loadLaptops } = await server.ssrLoadModule('/utils/dataLoader.ts');
+    const report = loadLaptopDatasetReport();
+    const errors = report.diagnostics.filter(d => d.severity === 'error');
+    const warnings = report.diagnostics.filter(d => d.severity === 'warning');
+
+    console.log(`Rows: ${report.totalRows} read, ${report.rows.length} loaded, ${report.skippedRows} skipped`);
+    console.log(`Diagnostics: ${errors.length} errors, ${warnings.length} warnings`);
+
+    const byCode = {};
+    report.diagnostics.forEach(d => { byCode[d.code] = (byCode[d.code] || 0) + 1; });
+    Object.entries(byCode).forEach(([code, count]) => console.log(`  ${code}: ${count}`));
+
+    if (errors.length > 0) {
+        console.log('\nErrors:');
+        errors.forEach(d => console.log(formatDiagnostic(d)));
+    }
+    if (warnings.length > 0) {
+        console.log(verbose ? '\nWarnings:' : `\nWarnings (first ${WARNING_SAMPLE}, use --verbose for all):`);
+        (verbose ? warnings : warnings.slice(0, WARNING_SAMPLE)).forEach(d => console.log(formatDiagnostic(d)));
+    }
+
+    if (loadLaptops().length !== report.rows.length) {
+        console.error('\nLoader exposes a different number of laptops than the schema accepted');
+        failed = true;
+    }
+    if (report.rows.length === 0) {
+        console.error('\nNo laptops loaded');
+        failed = true;
+    }
+    failed = failed || errors.length > 0;
+} catch (error) {
+    console.error(`Loader failed to import the dataset: ${error.message}`);
+    failed = true;
+} finally {
+    await server.close();
+}
+
+console.log(failed ? '\nDataset validation FAILED' : '\nDataset validation passed');
+process.exit(failed ? 1 : 0);